@@ -0,0 +1,66 @@
+import type { DailyScore } from './types';
+import { getScoreColor } from '../../utils/scoring';
+
+interface DailyScoreStripProps {
+  dailyScores: DailyScore[];
+}
+
+// "Oct 21: 82 · forecast, 3 days out · 91% confidence"
+function describeDay(day: DailyScore): string {
+  const date = new Date(`${day.date}T00:00:00`).toLocaleDateString(undefined, {
+    month: 'short',
+    day: 'numeric',
+  });
+  const parts = [`${date}: ${day.score}${day.passesFilters ? '' : ' (misses a filter)'}`];
+
+  if (day.source === 'forecast' && day.leadDays !== undefined) {
+    const lead = Math.max(0, day.leadDays);
+    parts.push(lead === 0 ? 'forecast for today' : `forecast, ${lead} ${lead === 1 ? 'day' : 'days'} out`);
+  } else if (day.source === 'observed') {
+    parts.push('recorded weather');
+  } else if (day.source === 'climatology') {
+    parts.push('typical weather for the date');
+  }
+
+  if (day.confidence !== undefined) {
+    parts.push(`${Math.round(day.confidence * 100)}% confidence`);
+  }
+
+  return parts.join(' · ');
+}
+
+// One bar per day, colored by score and faded by confidence. Days from
+// climatology are outlined with a dashed border.
+export default function DailyScoreStrip({ dailyScores }: DailyScoreStripProps) {
+  if (dailyScores.length === 0) return null;
+
+  const hasUncertainDays = dailyScores.some(day => (day.confidence ?? 1) < 1);
+  const hasClimatology = dailyScores.some(day => day.source === 'climatology');
+
+  return (
+    <div>
+      <div className="flex gap-0.5">
+        {dailyScores.map(day => (
+          <div
+            key={day.date}
+            title={describeDay(day)}
+            className={`h-3 flex-1 min-w-[4px] max-w-[16px] rounded-sm ${
+              day.source === 'climatology' ? 'border border-dashed border-gray-500' : ''
+            }`}
+            style={{
+              backgroundColor: getScoreColor(day.score),
+              opacity: 0.3 + 0.7 * (day.confidence ?? 1),
+            }}
+          />
+        ))}
+      </div>
+      {(hasUncertainDays || hasClimatology) && (
+        <p className="text-[10px] text-gray-400 mt-0.5">
+          {hasUncertainDays && 'Faded days are less certain'}
+          {hasUncertainDays && hasClimatology && ' · '}
+          {hasClimatology && 'Dashed days show typical weather'}
+        </p>
+      )}
+    </div>
+  );
+}
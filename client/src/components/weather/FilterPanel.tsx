@@ -24,6 +24,24 @@ const PRECIPITATION_TYPES: { value: PrecipitationType; label: string }[] = [
   { value: 'mixed', label: 'Mixed' },
 ];
 
+// Trip lengths for the best-window search ('' = score the whole date range)
+const WINDOW_LENGTHS = [
+  { value: '', label: 'Whole date range' },
+  { value: '2', label: 'Best 2 days' },
+  { value: '3', label: 'Best 3 days' },
+  { value: '5', label: 'Best 5 days' },
+  { value: '7', label: 'Best 7 days' },
+  { value: '10', label: 'Best 10 days' },
+  { value: '14', label: 'Best 14 days' },
+];
+
+const CLIMATOLOGY_SPANS = [
+  { value: '', label: 'Recent averages (3 years)' },
+  { value: '10', label: 'Climatology, 10 years' },
+  { value: '20', label: 'Climatology, 20 years' },
+  { value: '30', label: 'Climatology, 30 years' },
+];
+
 const REGIONS = [
   { value: '', label: 'All Regions' },
   { value: 'northeast', label: 'Northeast' },
@@ -34,8 +52,36 @@ const REGIONS = [
   { value: 'pacific_northwest', label: 'Pacific Northwest' },
 ];
 
+// Slider ranges and labels for each unit system (filters are sent in the chosen units)
+const UNIT_SCALES = {
+  imperial: {
+    temperature: { min: 0, max: 120, step: 5, unit: '°F' },
+    high: { defaultMin: 60, defaultMax: 85 },
+    low: { defaultMin: 35, defaultMax: 60 },
+    feelsLike: { min: 50, max: 110 },
+    dewPoint: { min: 40, max: 75 },
+    wind: { max: 50, unit: 'mph' },
+  },
+  metric: {
+    temperature: { min: -20, max: 50, step: 1, unit: '°C' },
+    high: { defaultMin: 15, defaultMax: 30 },
+    low: { defaultMin: 2, defaultMax: 15 },
+    feelsLike: { min: 10, max: 45 },
+    dewPoint: { min: 5, max: 25 },
+    wind: { max: 80, unit: 'km/h' },
+  },
+};
+
+type UnitSystem = keyof typeof UNIT_SCALES;
+
 interface ExtendedFilters extends WeatherFilters {
   region?: string;
+  center?: { lat: number; lon: number };
+  radiusMiles?: number;
+  sortBy?: 'score' | 'distance';
+  windowDays?: number;
+  units?: UnitSystem;
+  climatologyYears?: number;
 }
 
 interface ExtendedFilterPanelProps extends Omit<FilterPanelProps, 'filters' | 'onFiltersChange'> {
@@ -50,6 +96,8 @@ export default function FilterPanel({
   isLoading,
 }: ExtendedFilterPanelProps) {
   const [showPrecipTypes, setShowPrecipTypes] = useState(false);
+  const [showHourly, setShowHourly] = useState(false);
+  const [locationError, setLocationError] = useState<string | null>(null);
 
   const updateFilter = <K extends keyof ExtendedFilters>(
     key: K,
@@ -72,34 +120,169 @@ export default function FilterPanel({
     updateFilter('precipTypesExcluded', newTypes.length > 0 ? newTypes : undefined);
   };
 
+  const useCurrentLocation = () => {
+    if (!navigator.geolocation) {
+      setLocationError('Location is not available in this browser');
+      return;
+    }
+
+    setLocationError(null);
+    navigator.geolocation.getCurrentPosition(
+      position => {
+        onFiltersChange({
+          ...filters,
+          center: {
+            lat: Math.round(position.coords.latitude * 10000) / 10000,
+            lon: Math.round(position.coords.longitude * 10000) / 10000,
+          },
+          radiusMiles: filters.radiusMiles ?? 300,
+        });
+      },
+      () => setLocationError('Could not get your location')
+    );
+  };
+
+  const clearLocation = () => {
+    const newFilters = { ...filters };
+    delete newFilters.center;
+    delete newFilters.radiusMiles;
+    delete newFilters.sortBy;
+    onFiltersChange(newFilters);
+  };
+
+  // Convert set temperature and wind limits so they keep their meaning
+  const changeUnits = (units: UnitSystem) => {
+    if (units === (filters.units ?? 'imperial')) return;
+
+    const toCelsius = (f: number) => Math.round(((f - 32) * 5) / 9);
+    const toFahrenheit = (c: number) => Math.round((c * 9) / 5 + 32);
+    const convertTemp = units === 'metric' ? toCelsius : toFahrenheit;
+    const convertWind = (speed: number) =>
+      Math.round(units === 'metric' ? speed * 1.609344 : speed / 1.609344);
+
+    const newFilters: ExtendedFilters = { ...filters, units };
+    for (const key of ['highMin', 'highMax', 'lowMin', 'lowMax', 'feelsLikeMax', 'dewPointMax'] as const) {
+      const value = filters[key];
+      if (value !== undefined) newFilters[key] = convertTemp(value);
+    }
+    if (filters.windSpeedMax !== undefined) newFilters.windSpeedMax = convertWind(filters.windSpeedMax);
+    onFiltersChange(newFilters);
+  };
+
   const clearFilters = () => {
-    onFiltersChange({});
+    onFiltersChange(filters.units ? { units: filters.units } : {});
   };
 
+  const scale = UNIT_SCALES[filters.units ?? 'imperial'];
+
   return (
     <div className="space-y-6">
-      {/* Temperature Range */}
+      {/* Units */}
+      <div className="flex rounded-md border border-gray-300 overflow-hidden text-sm">
+        {(['imperial', 'metric'] as const).map(units => (
+          <button
+            key={units}
+            type="button"
+            onClick={() => changeUnits(units)}
+            className={`flex-1 px-3 py-1.5 font-medium ${
+              (filters.units ?? 'imperial') === units
+                ? 'bg-blue-600 text-white'
+                : 'bg-white text-gray-700 hover:bg-gray-50'
+            }`}
+          >
+            {units === 'imperial' ? '°F, mph' : '°C, km/h'}
+          </button>
+        ))}
+      </div>
+
+      {/* Daytime High Range */}
       <div>
         <label className="block text-sm font-medium text-gray-700 mb-3">
-          Temperature Range (°F)
+          Daytime High ({scale.temperature.unit})
         </label>
         <RangeSlider
-          min={0}
-          max={120}
-          minValue={filters.tempMin ?? 50}
-          maxValue={filters.tempMax ?? 85}
+          min={scale.temperature.min}
+          max={scale.temperature.max}
+          minValue={filters.highMin ?? scale.high.defaultMin}
+          maxValue={filters.highMax ?? scale.high.defaultMax}
           onChange={(newMin, newMax) => {
             onFiltersChange({
               ...filters,
-              tempMin: newMin,
-              tempMax: newMax,
+              highMin: newMin,
+              highMax: newMax,
             });
           }}
-          step={5}
-          formatLabel={(v) => `${v}°F`}
+          step={scale.temperature.step}
+          formatLabel={(v) => `${v}${scale.temperature.unit}`}
         />
       </div>
 
+      {/* Overnight Low Range */}
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-3">
+          Overnight Low ({scale.temperature.unit})
+        </label>
+        <RangeSlider
+          min={scale.temperature.min}
+          max={scale.temperature.max}
+          minValue={filters.lowMin ?? scale.low.defaultMin}
+          maxValue={filters.lowMax ?? scale.low.defaultMax}
+          onChange={(newMin, newMax) => {
+            onFiltersChange({
+              ...filters,
+              lowMin: newMin,
+              lowMax: newMax,
+            });
+          }}
+          step={scale.temperature.step}
+          formatLabel={(v) => `${v}${scale.temperature.unit}`}
+        />
+      </div>
+
+      {/* Feels Like Max */}
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">
+          Max Feels Like: {filters.feelsLikeMax !== undefined ? `${filters.feelsLikeMax}${scale.temperature.unit}` : 'Any'}
+        </label>
+        <input
+          type="range"
+          min={scale.feelsLike.min}
+          max={scale.feelsLike.max}
+          value={filters.feelsLikeMax ?? scale.feelsLike.max}
+          onChange={e => {
+            const val = Number(e.target.value);
+            updateFilter('feelsLikeMax', val < scale.feelsLike.max ? val : undefined);
+          }}
+          className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
+        />
+        <div className="flex justify-between text-xs text-gray-500 mt-1">
+          <span>{scale.feelsLike.min}{scale.temperature.unit}</span>
+          <span>Any</span>
+        </div>
+      </div>
+
+      {/* Dew Point Max */}
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">
+          Max Dew Point: {filters.dewPointMax !== undefined ? `${filters.dewPointMax}${scale.temperature.unit}` : 'Any'}
+        </label>
+        <input
+          type="range"
+          min={scale.dewPoint.min}
+          max={scale.dewPoint.max}
+          value={filters.dewPointMax ?? scale.dewPoint.max}
+          onChange={e => {
+            const val = Number(e.target.value);
+            updateFilter('dewPointMax', val < scale.dewPoint.max ? val : undefined);
+          }}
+          className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
+        />
+        <div className="flex justify-between text-xs text-gray-500 mt-1">
+          <span>{scale.dewPoint.min}{scale.temperature.unit} (dry)</span>
+          <span>Any</span>
+        </div>
+      </div>
+
       {/* Humidity Max */}
       <div>
         <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -125,22 +308,22 @@ export default function FilterPanel({
       {/* Wind Speed Max */}
       <div>
         <label className="block text-sm font-medium text-gray-700 mb-2">
-          Max Wind Speed: {filters.windSpeedMax ?? 50} mph
+          Max Wind Speed: {filters.windSpeedMax ?? scale.wind.max} {scale.wind.unit}
         </label>
         <input
           type="range"
           min={0}
-          max={50}
-          value={filters.windSpeedMax ?? 50}
+          max={scale.wind.max}
+          value={filters.windSpeedMax ?? scale.wind.max}
           onChange={e => {
             const val = Number(e.target.value);
-            updateFilter('windSpeedMax', val < 50 ? val : undefined);
+            updateFilter('windSpeedMax', val < scale.wind.max ? val : undefined);
           }}
           className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
         />
         <div className="flex justify-between text-xs text-gray-500 mt-1">
-          <span>0 mph</span>
-          <span>50 mph</span>
+          <span>0 {scale.wind.unit}</span>
+          <span>{scale.wind.max} {scale.wind.unit}</span>
         </div>
       </div>
 
@@ -166,6 +349,96 @@ export default function FilterPanel({
         </div>
       </div>
 
+      {/* AQI Max */}
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">
+          Max Air Quality Index: {filters.aqiMax ?? 300}
+        </label>
+        <input
+          type="range"
+          min={25}
+          max={300}
+          step={5}
+          value={filters.aqiMax ?? 300}
+          onChange={e => {
+            const val = Number(e.target.value);
+            updateFilter('aqiMax', val < 300 ? val : undefined);
+          }}
+          className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
+        />
+        <div className="flex justify-between text-xs text-gray-500 mt-1">
+          <span>25 (Good)</span>
+          <span>300</span>
+        </div>
+      </div>
+
+      {/* Hourly Conditions */}
+      <div>
+        <button
+          type="button"
+          onClick={() => setShowHourly(!showHourly)}
+          className="flex items-center justify-between w-full text-sm font-medium text-gray-700 mb-2"
+        >
+          <span>Hour-by-Hour Conditions</span>
+          <span className="text-gray-400">{showHourly ? '−' : '+'}</span>
+        </button>
+        {showHourly && (
+          <div className="space-y-4">
+            <div>
+              <label className="block text-sm text-gray-700 mb-2">
+                Cold night hours (below {filters.units === 'metric' ? '4.4°C' : '40°F'}):{' '}
+                {filters.coldNightHoursMax !== undefined ? `at most ${filters.coldNightHoursMax}` : 'Any'}
+              </label>
+              <input
+                type="range"
+                min={0}
+                max={12}
+                value={filters.coldNightHoursMax ?? 12}
+                onChange={e => {
+                  const val = Number(e.target.value);
+                  updateFilter('coldNightHoursMax', val < 12 ? val : undefined);
+                }}
+                className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
+              />
+            </div>
+            <div>
+              <label className="block text-sm text-gray-700 mb-2">
+                Windy daylight hours (over {filters.units === 'metric' ? '32 km/h' : '20 mph'}):{' '}
+                {filters.windyDaylightHoursMax !== undefined ? `at most ${filters.windyDaylightHoursMax}` : 'Any'}
+              </label>
+              <input
+                type="range"
+                min={0}
+                max={12}
+                value={filters.windyDaylightHoursMax ?? 12}
+                onChange={e => {
+                  const val = Number(e.target.value);
+                  updateFilter('windyDaylightHoursMax', val < 12 ? val : undefined);
+                }}
+                className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
+              />
+            </div>
+            <div>
+              <label className="block text-sm text-gray-700 mb-2">
+                Dry hours, 8am–6pm:{' '}
+                {filters.dryDaytimeHoursMin !== undefined ? `at least ${filters.dryDaytimeHoursMin}` : 'Any'}
+              </label>
+              <input
+                type="range"
+                min={0}
+                max={10}
+                value={filters.dryDaytimeHoursMin ?? 0}
+                onChange={e => {
+                  const val = Number(e.target.value);
+                  updateFilter('dryDaytimeHoursMin', val > 0 ? val : undefined);
+                }}
+                className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
+              />
+            </div>
+          </div>
+        )}
+      </div>
+
       {/* Precipitation Types to Exclude */}
       <div>
         <button
@@ -193,6 +466,67 @@ export default function FilterPanel({
         )}
       </div>
 
+      {/* Consecutive Good Days */}
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">
+          Good Days in a Row: {filters.minConsecutivePassingDays ?? 'Any'}
+        </label>
+        <input
+          type="range"
+          min={0}
+          max={14}
+          value={filters.minConsecutivePassingDays ?? 0}
+          onChange={e => {
+            const val = Number(e.target.value);
+            updateFilter('minConsecutivePassingDays', val > 0 ? val : undefined);
+          }}
+          className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
+        />
+        <div className="flex justify-between text-xs text-gray-500 mt-1">
+          <span>Any</span>
+          <span>14 days</span>
+        </div>
+      </div>
+
+      {/* Best Window */}
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">
+          Trip Length
+        </label>
+        <select
+          value={filters.windowDays?.toString() ?? ''}
+          onChange={e => updateFilter('windowDays', e.target.value ? Number(e.target.value) : undefined)}
+          className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:ring-blue-500 focus:border-blue-500"
+        >
+          {WINDOW_LENGTHS.map(length => (
+            <option key={length.value} value={length.value}>
+              {length.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {/* Long-range Dates */}
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">
+          Beyond the Forecast
+        </label>
+        <select
+          value={filters.climatologyYears?.toString() ?? ''}
+          onChange={e => updateFilter('climatologyYears', e.target.value ? Number(e.target.value) : undefined)}
+          className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:ring-blue-500 focus:border-blue-500"
+        >
+          {CLIMATOLOGY_SPANS.map(span => (
+            <option key={span.value} value={span.value}>
+              {span.label}
+            </option>
+          ))}
+        </select>
+        <p className="text-xs text-gray-500 mt-1">
+          Climatology scores dates past the 16-day forecast by how often they stay in range
+        </p>
+      </div>
+
       {/* Region Filter */}
       <div>
         <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -211,6 +545,57 @@ export default function FilterPanel({
         </select>
       </div>
 
+      {/* Distance From Current Location */}
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">
+          {filters.center ? `Within ${filters.radiusMiles ?? 300} miles of you` : 'Near Me'}
+        </label>
+        {filters.center ? (
+          <>
+            <input
+              type="range"
+              min={25}
+              max={1000}
+              step={25}
+              value={filters.radiusMiles ?? 300}
+              onChange={e => updateFilter('radiusMiles', Number(e.target.value))}
+              className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
+            />
+            <div className="flex justify-between text-xs text-gray-500 mt-1">
+              <span>25 mi</span>
+              <span>1000 mi</span>
+            </div>
+            <div className="flex items-center justify-between mt-2">
+              <label className="flex items-center text-sm">
+                <input
+                  type="checkbox"
+                  checked={filters.sortBy === 'distance'}
+                  onChange={e => updateFilter('sortBy', e.target.checked ? 'distance' : undefined)}
+                  className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                />
+                <span className="ml-2 text-gray-700">Nearest first</span>
+              </label>
+              <button
+                type="button"
+                onClick={clearLocation}
+                className="text-sm text-blue-600 hover:text-blue-800"
+              >
+                Remove
+              </button>
+            </div>
+          </>
+        ) : (
+          <button
+            type="button"
+            onClick={useCurrentLocation}
+            className="w-full px-3 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+          >
+            Use my location
+          </button>
+        )}
+        {locationError && <p className="mt-1 text-xs text-red-600">{locationError}</p>}
+      </div>
+
       {/* Action Buttons */}
       <div className="flex gap-2 pt-4 border-t border-gray-200">
         <button
@@ -0,0 +1,159 @@
+import { useEffect, useState } from 'react';
+import { weatherApi, ApiError } from '../../services/api';
+
+type GridPointWeatherDetail = Awaited<ReturnType<typeof weatherApi.getGridPointWeather>>;
+
+interface LocationDetailProps {
+  gridPointId: string;
+  title: string;
+  startDate: string;
+  endDate: string;
+  units: 'imperial' | 'metric';
+  climatologyYears?: number;
+}
+
+function formatDate(date: string): string {
+  return new Date(`${date}T00:00:00`).toLocaleDateString(undefined, {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+  });
+}
+
+function formatAge(minutes: number): string {
+  if (minutes < 60) return `${minutes} min ago`;
+  if (minutes < 48 * 60) return `${Math.floor(minutes / 60)} h ago`;
+  return `${Math.floor(minutes / (24 * 60))} days ago`;
+}
+
+function formatPrecipType(type: string): string {
+  return type === 'none' ? '—' : type.replace('_', ' ');
+}
+
+export default function LocationDetail({
+  gridPointId,
+  title,
+  startDate,
+  endDate,
+  units,
+  climatologyYears,
+}: LocationDetailProps) {
+  const requestKey = `${gridPointId}:${startDate}:${endDate}:${units}:${climatologyYears ?? ''}`;
+  const [loaded, setLoaded] = useState<{
+    key: string;
+    detail?: GridPointWeatherDetail;
+    error?: string;
+  } | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    weatherApi
+      .getGridPointWeather(gridPointId, startDate, endDate, units, climatologyYears)
+      .then(detail => {
+        if (!cancelled) setLoaded({ key: requestKey, detail });
+      })
+      .catch(err => {
+        if (!cancelled) {
+          setLoaded({
+            key: requestKey,
+            error: err instanceof ApiError ? err.message : 'Failed to load weather for this location',
+          });
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [gridPointId, startDate, endDate, units, climatologyYears, requestKey]);
+
+  const isLoading = loaded?.key !== requestKey;
+  const detail = isLoading ? undefined : loaded?.detail;
+  const tempUnit = units === 'metric' ? '°C' : '°F';
+  const windUnit = units === 'metric' ? 'km/h' : 'mph';
+
+  return (
+    <div>
+      <h2 className="text-lg font-semibold text-gray-900 mb-1">{title}</h2>
+
+      {isLoading && <div className="h-32 bg-gray-100 rounded-lg animate-pulse" />}
+
+      {!isLoading && loaded?.error && <p className="text-sm text-red-700">{loaded.error}</p>}
+
+      {detail && (
+        <>
+          {detail.dataSourceExplanation && (
+            <p className="text-sm text-gray-600 mb-4">{detail.dataSourceExplanation}</p>
+          )}
+          {detail.freshness?.ageMinutes != null && (
+            <p className="text-xs text-gray-500 -mt-2 mb-4">
+              Weather data updated {formatAge(detail.freshness.ageMinutes)}
+              {detail.freshness.refreshing && ' · refreshing in the background'}
+            </p>
+          )}
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-gray-500 border-b border-gray-200">
+                  <th className="py-2 pr-4 font-medium">Date</th>
+                  <th className="py-2 pr-4 font-medium">High / Low</th>
+                  <th className="py-2 pr-4 font-medium">Feels Like</th>
+                  <th className="py-2 pr-4 font-medium">Dew Point</th>
+                  <th className="py-2 pr-4 font-medium">Humidity</th>
+                  <th className="py-2 pr-4 font-medium">Wind</th>
+                  <th className="py-2 pr-4 font-medium">Precip</th>
+                  <th className="py-2 pr-4 font-medium">AQI</th>
+                  <th className="py-2 font-medium">Source</th>
+                </tr>
+              </thead>
+              <tbody>
+                {(detail.dailyData || []).map(day => (
+                  <tr key={day.date} className="border-b border-gray-100">
+                    <td className="py-2 pr-4 whitespace-nowrap">{formatDate(day.date)}</td>
+                    <td className="py-2 pr-4 whitespace-nowrap">
+                      {day.tempHigh}° / {day.tempLow}{tempUnit}
+                      {day.climatology && (
+                        <div
+                          className="text-xs text-gray-500"
+                          title={`10th–90th percentile over ${day.climatology.years} years`}
+                        >
+                          {day.climatology.tempHigh.p10}–{day.climatology.tempHigh.p90}° /{' '}
+                          {day.climatology.tempLow.p10}–{day.climatology.tempLow.p90}°
+                        </div>
+                      )}
+                    </td>
+                    <td className="py-2 pr-4 whitespace-nowrap">
+                      {day.apparentTempHigh !== null && day.apparentTempHigh !== undefined
+                        ? `${day.apparentTempHigh}° / ${day.apparentTempLow ?? '—'}${tempUnit}`
+                        : '—'}
+                    </td>
+                    <td className="py-2 pr-4">
+                      {day.dewPoint !== null && day.dewPoint !== undefined ? `${day.dewPoint}${tempUnit}` : '—'}
+                    </td>
+                    <td className="py-2 pr-4">{day.humidity}%</td>
+                    <td className="py-2 pr-4 whitespace-nowrap">{day.windSpeed} {windUnit}</td>
+                    <td className="py-2 pr-4 whitespace-nowrap">
+                      {day.precipChance}% {formatPrecipType(day.precipType)}
+                    </td>
+                    <td className="py-2 pr-4">{day.aqi ?? '—'}</td>
+                    <td className="py-2">
+                      <span
+                        className={`px-2 py-0.5 rounded text-xs ${
+                          day.dataType === 'forecast'
+                            ? 'bg-blue-50 text-blue-700'
+                            : 'bg-amber-50 text-amber-700'
+                        }`}
+                      >
+                        {day.dataType === 'forecast' ? 'Forecast' : 'Historical'}
+                      </span>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
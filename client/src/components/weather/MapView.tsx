@@ -1,7 +1,9 @@
 import { useEffect, useRef } from 'react';
 import { MapContainer, TileLayer, CircleMarker, Popup, useMap } from 'react-leaflet';
 import 'leaflet/dist/leaflet.css';
+import DailyScoreStrip from './DailyScoreStrip';
 import type { SearchResult } from './types';
+import { BREAKDOWN_LABELS, formatValue, getScoreColor } from '../../utils/scoring';
 
 interface MapViewProps {
   results: SearchResult[];
@@ -9,15 +11,6 @@ interface MapViewProps {
   onSelectResult: (result: SearchResult) => void;
 }
 
-// Score to color mapping (red -> yellow -> green)
-function getScoreColor(score: number): string {
-  if (score >= 80) return '#22c55e'; // green-500
-  if (score >= 60) return '#84cc16'; // lime-500
-  if (score >= 40) return '#eab308'; // yellow-500
-  if (score >= 20) return '#f97316'; // orange-500
-  return '#ef4444'; // red-500
-}
-
 // Component to handle map bounds updates
 function MapBoundsUpdater({ results }: { results: SearchResult[] }) {
   const map = useMap();
@@ -79,6 +72,7 @@ export default function MapView({ results, selectedResult, onSelectResult }: Map
               </div>
               <div className="text-sm text-gray-600 mb-2">
                 {result.state} - {result.region.replace('_', ' ')}
+                {result.distanceMiles !== undefined && ` · ${Math.round(result.distanceMiles)} mi away`}
                 <div className="text-xs text-gray-400">
                   {result.latitude.toFixed(4)}°, {result.longitude.toFixed(4)}°
                 </div>
@@ -95,24 +89,26 @@ export default function MapView({ results, selectedResult, onSelectResult }: Map
               <div className="text-xs text-gray-500">
                 Data: {result.dataSource}
               </div>
+              {result.dailyScores.length > 1 && (
+                <div className="mt-2">
+                  <DailyScoreStrip dailyScores={result.dailyScores} />
+                </div>
+              )}
               <div className="mt-2 pt-2 border-t border-gray-200">
                 <div className="text-xs space-y-1">
-                  <div className="flex justify-between">
-                    <span>Temperature:</span>
-                    <span className="font-medium">{result.scoreBreakdown.temperature}%</span>
-                  </div>
-                  <div className="flex justify-between">
-                    <span>Humidity:</span>
-                    <span className="font-medium">{result.scoreBreakdown.humidity}%</span>
-                  </div>
-                  <div className="flex justify-between">
-                    <span>Wind:</span>
-                    <span className="font-medium">{result.scoreBreakdown.wind}%</span>
-                  </div>
-                  <div className="flex justify-between">
-                    <span>Precipitation:</span>
-                    <span className="font-medium">{result.scoreBreakdown.precipitation}%</span>
-                  </div>
+                  {BREAKDOWN_LABELS.map(({ key, label }) => {
+                    const filterScore = result.scoreBreakdown[key];
+                    return filterScore ? (
+                      <div key={key} className="flex justify-between gap-2">
+                        <span>{label}:</span>
+                        <span className="font-medium">
+                          {formatValue(filterScore.value, filterScore.unit)}
+                          {filterScore.violatingDays > 0 && ` · ${filterScore.violatingDays}/${filterScore.days} days missed`}
+                          {filterScore.likelihood !== undefined && ` · ${filterScore.likelihood}% likely`}
+                        </span>
+                      </div>
+                    ) : null;
+                  })}
                 </div>
               </div>
             </div>
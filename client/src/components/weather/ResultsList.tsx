@@ -1,4 +1,6 @@
-import type { SearchResult } from './types';
+import DailyScoreStrip from './DailyScoreStrip';
+import type { FilterScore, SearchResult } from './types';
+import { BREAKDOWN_LABELS, formatValue } from '../../utils/scoring';
 
 interface ResultsListProps {
   results: SearchResult[];
@@ -24,6 +26,39 @@ function getScoreBgColor(score: number): string {
   return 'bg-red-50';
 }
 
+// "Humidity 82% (limit 60%) – 3 of 7 days over"
+// "Cold night hours below 4.4°C 5 h (limit 3 h) – 2 of 7 days over"
+function describeFilterScore(label: string, filterScore: FilterScore): string {
+  const { value, unit, limit, violatingDays, days, likelihood, threshold } = filterScore;
+  const bound = (limitValue: number) => (unit === 'AQI' ? `${limitValue}` : formatValue(limitValue, unit));
+
+  let limitText = '';
+  if (limit.min !== undefined && limit.max !== undefined) {
+    limitText = ` (limit ${limit.min}–${bound(limit.max)})`;
+  } else if (limit.min !== undefined) {
+    limitText = ` (min ${bound(limit.min)})`;
+  } else if (limit.max !== undefined) {
+    limitText = ` (limit ${bound(limit.max)})`;
+  }
+
+  // Ranges (temperature) can miss on either side
+  const violation =
+    limit.min !== undefined && limit.max !== undefined ? 'outside' : limit.min !== undefined ? 'under' : 'over';
+
+  const likelihoodText = likelihood !== undefined ? `, ${likelihood}% likely in range` : '';
+
+  // Cold nights count hours below a temperature, windy daylight hours above a wind speed
+  const thresholdText = threshold
+    ? ` ${threshold.unit.startsWith('°') ? 'below' : 'over'} ${formatValue(threshold.value, threshold.unit)}`
+    : '';
+
+  return `${label}${thresholdText} ${formatValue(value, unit)}${limitText} – ${violatingDays} of ${days} days ${violation}${likelihoodText}`;
+}
+
+function formatDate(date: string): string {
+  return new Date(`${date}T00:00:00`).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+}
+
 function formatRegion(region: string): string {
   return region
     .split('_')
@@ -37,7 +72,8 @@ export default function ResultsList({
   onSelectResult,
   isLoading,
 }: ResultsListProps) {
-  if (isLoading) {
+  // Partial results from a running search are shown as they arrive
+  if (isLoading && results.length === 0) {
     return (
       <div className="space-y-4">
         {[...Array(3)].map((_, i) => (
@@ -100,24 +136,35 @@ export default function ResultsList({
               </div>
               <p className="text-sm text-gray-600">
                 {result.state} - {formatRegion(result.region)}
+                {result.distanceMiles !== undefined && ` · ${Math.round(result.distanceMiles)} mi away`}
               </p>
-              <div className="mt-2 flex flex-wrap gap-2">
-                <span className="inline-flex items-center text-xs text-gray-500">
-                  <span className="mr-1">Temp:</span>
-                  <span className="font-medium">{result.scoreBreakdown.temperature}%</span>
-                </span>
-                <span className="inline-flex items-center text-xs text-gray-500">
-                  <span className="mr-1">Humidity:</span>
-                  <span className="font-medium">{result.scoreBreakdown.humidity}%</span>
-                </span>
-                <span className="inline-flex items-center text-xs text-gray-500">
-                  <span className="mr-1">Wind:</span>
-                  <span className="font-medium">{result.scoreBreakdown.wind}%</span>
-                </span>
-                <span className="inline-flex items-center text-xs text-gray-500">
-                  <span className="mr-1">Precip:</span>
-                  <span className="font-medium">{result.scoreBreakdown.precipitation}%</span>
-                </span>
+              {result.dailyScores.length > 1 && (
+                <p className="text-xs text-gray-500">
+                  {result.longestPassingStreak} {result.longestPassingStreak === 1 ? 'day' : 'days'} in a row meet all filters
+                </p>
+              )}
+              {result.window && (
+                <p className="text-sm text-blue-700">
+                  Best {result.window.dailyScores.length} days: {formatDate(result.window.startDate)} – {formatDate(result.window.endDate)}
+                </p>
+              )}
+              {result.dailyScores.length > 1 && (
+                <div className="mt-2">
+                  <DailyScoreStrip dailyScores={result.dailyScores} />
+                </div>
+              )}
+              <div className="mt-2 space-y-0.5">
+                {BREAKDOWN_LABELS.map(({ key, label }) => {
+                  const filterScore = result.scoreBreakdown[key];
+                  return filterScore ? (
+                    <p
+                      key={key}
+                      className={`text-xs ${filterScore.violatingDays > 0 ? 'text-gray-700' : 'text-gray-500'}`}
+                    >
+                      {describeFilterScore(label, filterScore)}
+                    </p>
+                  ) : null;
+                })}
               </div>
             </div>
             <div className="flex flex-col items-center">
@@ -2,3 +2,4 @@ export { default as FilterPanel } from './FilterPanel';
 export { default as DateRangePicker } from './DateRangePicker';
 export { default as MapView } from './MapView';
 export { default as ResultsList } from './ResultsList';
+export { default as LocationDetail } from './LocationDetail';
@@ -6,17 +6,50 @@ export interface SearchResult {
   state: string;
   region: string;
   score: number;
+  // null for categories that were not filtered on
   scoreBreakdown: {
-    temperature: number;
-    humidity: number;
-    wind: number;
-    precipitation: number;
-    aqi: number | null;
+    tempHigh: FilterScore | null;
+    tempLow: FilterScore | null;
+    feelsLike: FilterScore | null;
+    dewPoint: FilterScore | null;
+    humidity: FilterScore | null;
+    wind: FilterScore | null;
+    precipitation: FilterScore | null;
+    aqi: FilterScore | null;
+    coldNightHours: FilterScore | null;
+    windyDaylightHours: FilterScore | null;
+    dryDaytimeHours: FilterScore | null;
   };
-  dailyScores: Array<{
-    date: string;
-    score: number;
-    passesFilters: boolean;
-  }>;
+  dailyScores: DailyScore[];
   dataSource: 'forecast' | 'historical' | 'mixed';
+  longestPassingStreak: number; // Most consecutive days passing every filter
+  distanceMiles?: number; // Only for searches around a location
+  // Best consecutive days, when searching with a window length
+  window?: {
+    startDate: string;
+    endDate: string;
+    dailyScores: DailyScore[];
+  };
+}
+
+// A category's score and the weather it was scored on
+export interface FilterScore {
+  score: number;
+  value: number; // Mean high/low/humidity, or the worst day for the other categories
+  unit: string;
+  limit: { min?: number; max?: number };
+  violatingDays: number;
+  days: number;
+  likelihood?: number; // Chance (0-100) of staying in range, for days scored from climatology
+  threshold?: { value: number; unit: string }; // What cold night and windy daylight hours are counted against
+}
+
+// A day's score, and where its weather came from
+export interface DailyScore {
+  date: string;
+  score: number;
+  passesFilters: boolean;
+  source?: 'forecast' | 'observed' | 'climatology';
+  leadDays?: number; // Days from today, negative for past dates
+  confidence?: number; // 0-1
 }
@@ -1,14 +1,61 @@
-import { useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import FilterPanel from '../components/weather/FilterPanel';
 import DateRangePicker from '../components/weather/DateRangePicker';
 import MapView from '../components/weather/MapView';
 import ResultsList from '../components/weather/ResultsList';
+import LocationDetail from '../components/weather/LocationDetail';
 import type { SearchResult } from '../components/weather/types';
 import { weatherApi, ApiError } from '../services/api';
-import type { WeatherFilters } from '../services/api';
+import type { SearchJob, WeatherFilters } from '../services/api';
 
 interface ExtendedFilters extends WeatherFilters {
   region?: string;
+  center?: { lat: number; lon: number };
+  radiusMiles?: number;
+  sortBy?: 'score' | 'distance';
+  windowDays?: number;
+  units?: 'imperial' | 'metric';
+  climatologyYears?: number;
+}
+
+// Transform an API search result to our SearchResult type
+function toSearchResult(r: unknown): SearchResult {
+  const result = r as {
+    gridPointId: string;
+    latitude: number;
+    longitude: number;
+    nearestCity: string | null;
+    state: string;
+    region: string;
+    score: number;
+    scoreBreakdown: SearchResult['scoreBreakdown'];
+    dailyScores?: SearchResult['dailyScores'];
+    dataSource: 'forecast' | 'historical' | 'mixed';
+    longestPassingStreak?: number;
+    distanceMiles?: number;
+    window?: SearchResult['window'];
+  };
+  return {
+    gridPointId: result.gridPointId,
+    latitude: result.latitude,
+    longitude: result.longitude,
+    nearestCity: result.nearestCity,
+    state: result.state,
+    region: result.region,
+    score: result.score,
+    scoreBreakdown: result.scoreBreakdown,
+    dailyScores: result.dailyScores || [],
+    dataSource: result.dataSource,
+    longestPassingStreak: result.longestPassingStreak ?? 0,
+    distanceMiles: result.distanceMiles,
+    window: result.window,
+  };
+}
+
+function formatEta(seconds: number | null): string {
+  if (seconds === null) return 'estimating time remaining...';
+  if (seconds < 60) return `about ${seconds}s remaining`;
+  return `about ${Math.ceil(seconds / 60)} min remaining`;
 }
 
 export default function WeatherFinder() {
@@ -28,6 +75,41 @@ export default function WeatherFinder() {
   const [selectedResult, setSelectedResult] = useState<SearchResult | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [jobId, setJobId] = useState<string | null>(null);
+  const [progress, setProgress] = useState<SearchJob['progress'] | null>(null);
+  // Dates, units and climatology span the current results were searched with
+  // (the filters may have changed since)
+  const [lastSearch, setLastSearch] = useState<{
+    startDate: string;
+    endDate: string;
+    units: 'imperial' | 'metric';
+    climatologyYears?: number;
+  } | null>(null);
+
+  // Closes the active job's event stream
+  const stopWatchingRef = useRef<(() => void) | null>(null);
+
+  // Stop listening when leaving the page
+  useEffect(() => () => stopWatchingRef.current?.(), []);
+
+  // Apply a job snapshot - results render as soon as the first batch is scored
+  const applyJobUpdate = (type: 'progress' | 'completed' | 'failed' | 'cancelled', job: SearchJob) => {
+    const transformedResults = (job.results || []).map(toSearchResult);
+    setResults(transformedResults);
+    setProgress(job.progress);
+
+    if (type === 'progress') return;
+
+    setIsLoading(false);
+    setJobId(null);
+    stopWatchingRef.current = null;
+
+    if (type === 'failed') {
+      setError(job.error || 'An unexpected error occurred. Please try again.');
+    } else if (type === 'completed' && transformedResults.length === 0) {
+      setError('No locations found matching your criteria. Try adjusting your filters.');
+    }
+  };
 
   // Handle search
   const handleSearch = async () => {
@@ -50,15 +132,30 @@ export default function WeatherFinder() {
       return;
     }
 
+    // Abandon any search still running
+    stopWatchingRef.current?.();
+    if (jobId) {
+      weatherApi.cancelSearchJob(jobId).catch(() => {});
+    }
+
     setIsLoading(true);
     setError(null);
     setSelectedResult(null);
+    setResults([]);
+    setProgress(null);
+    setLastSearch({
+      startDate,
+      endDate,
+      units: filters.units ?? 'imperial',
+      climatologyYears: filters.climatologyYears,
+    });
 
     try {
-      // Extract region from extended filters
-      const { region, ...weatherFilters } = filters;
+      // Extract search options from extended filters
+      const { region, center, radiusMiles, sortBy, windowDays, units, climatologyYears, ...weatherFilters } =
+        filters;
 
-      const response = await weatherApi.search({
+      const job = await weatherApi.startSearchJob({
         filters: weatherFilters,
         dateRange: {
           startDate,
@@ -66,56 +163,24 @@ export default function WeatherFinder() {
         },
         options: {
           limit: 50,
+          minScore: 0,
           region: region as 'northeast' | 'southeast' | 'midwest' | 'southwest' | 'west' | 'pacific_northwest' | undefined,
+          center,
+          radiusMiles: center ? radiusMiles : undefined,
+          sortBy: sortBy ?? 'score',
+          windowDays,
+          units: units ?? 'imperial',
+          climatologyYears,
         },
       });
 
-      // Transform API response to our SearchResult type
-      console.log('API Response:', response);
-      const apiResults = response?.results || [];
-      console.log('API Results:', apiResults);
-      const transformedResults: SearchResult[] = apiResults.map((r: unknown) => {
-        const result = r as {
-          gridPointId: string;
-          latitude: number;
-          longitude: number;
-          nearestCity: string | null;
-          state: string;
-          region: string;
-          score: number;
-          scoreBreakdown: {
-            temperature: number;
-            humidity: number;
-            wind: number;
-            precipitation: number;
-            aqi: number | null;
-          };
-          dailyScores?: Array<{
-            date: string;
-            score: number;
-            passesFilters: boolean;
-          }>;
-          dataSource: 'forecast' | 'historical' | 'mixed';
-        };
-        return {
-          gridPointId: result.gridPointId,
-          latitude: result.latitude,
-          longitude: result.longitude,
-          nearestCity: result.nearestCity,
-          state: result.state,
-          region: result.region,
-          score: result.score,
-          scoreBreakdown: result.scoreBreakdown,
-          dailyScores: result.dailyScores || [],
-          dataSource: result.dataSource,
-        };
+      setJobId(job.id);
+      stopWatchingRef.current = weatherApi.watchSearchJob(job.id, applyJobUpdate, () => {
+        setIsLoading(false);
+        setJobId(null);
+        stopWatchingRef.current = null;
+        setError('Lost connection to the search. Please try again.');
       });
-
-      setResults(transformedResults);
-
-      if (transformedResults.length === 0) {
-        setError('No locations found matching your criteria. Try adjusting your filters.');
-      }
     } catch (err) {
       if (err instanceof ApiError) {
         setError(err.message);
@@ -123,11 +188,23 @@ export default function WeatherFinder() {
         setError('An unexpected error occurred. Please try again.');
       }
       console.error('Search error:', err);
-    } finally {
       setIsLoading(false);
     }
   };
 
+  // Cancel the running search, keeping the results found so far
+  const handleCancel = async () => {
+    if (!jobId) return;
+
+    try {
+      const job = await weatherApi.cancelSearchJob(jobId);
+      stopWatchingRef.current?.();
+      applyJobUpdate('cancelled', job);
+    } catch (err) {
+      console.error('Cancel error:', err);
+    }
+  };
+
   return (
     <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
       <div className="mb-8">
@@ -173,10 +250,35 @@ export default function WeatherFinder() {
                   <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
                   <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
                 </svg>
-                <div>
+                <div className="flex-1">
                   <p className="text-sm font-medium text-blue-800">Searching for locations...</p>
-                  <p className="text-xs text-blue-600">This may take a moment as we fetch weather data.</p>
+                  {progress && progress.pointsScored > 0 ? (
+                    <>
+                      <p className="text-xs text-blue-600">
+                        Scored {progress.pointsScored} of ~{Math.max(progress.pointsPlanned, progress.pointsScored)} locations, {formatEta(progress.etaSeconds)}
+                      </p>
+                      <div className="mt-2 h-1.5 bg-blue-100 rounded-full overflow-hidden">
+                        <div
+                          className="h-full bg-blue-600 transition-all"
+                          style={{
+                            width: `${Math.min(100, (progress.pointsScored / Math.max(1, progress.pointsPlanned)) * 100)}%`,
+                          }}
+                        />
+                      </div>
+                    </>
+                  ) : (
+                    <p className="text-xs text-blue-600">This may take a moment as we fetch weather data.</p>
+                  )}
                 </div>
+                {jobId && (
+                  <button
+                    type="button"
+                    onClick={handleCancel}
+                    className="px-3 py-1 text-sm font-medium text-blue-700 border border-blue-300 rounded-md hover:bg-blue-100"
+                  >
+                    Cancel
+                  </button>
+                )}
               </div>
             </div>
           )}
@@ -198,7 +300,7 @@ export default function WeatherFinder() {
                 onSelectResult={setSelectedResult}
               />
             </div>
-            {isLoading && (
+            {isLoading && results.length === 0 && (
               <div className="absolute inset-0 bg-white/50 rounded-lg flex items-center justify-center">
                 <div className="bg-white rounded-lg shadow-lg p-4 flex items-center gap-3">
                   <svg className="animate-spin h-6 w-6 text-blue-600" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
@@ -223,6 +325,20 @@ export default function WeatherFinder() {
               />
             </div>
           </div>
+
+          {/* Selected location's daily weather */}
+          {selectedResult && lastSearch && (
+            <div className="bg-white rounded-lg shadow p-6">
+              <LocationDetail
+                gridPointId={selectedResult.gridPointId}
+                title={selectedResult.nearestCity || `${selectedResult.state} (${selectedResult.latitude.toFixed(2)}°, ${selectedResult.longitude.toFixed(2)}°)`}
+                startDate={lastSearch.startDate}
+                endDate={lastSearch.endDate}
+                units={lastSearch.units}
+                climatologyYears={lastSearch.climatologyYears}
+              />
+            </div>
+          )}
         </div>
       </div>
     </div>
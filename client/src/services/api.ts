@@ -7,6 +7,7 @@ export type GridPoint = components['schemas']['GridPoint'];
 export type WeatherFilters = components['schemas']['WeatherFilters'];
 export type DateRange = components['schemas']['DateRange'];
 export type WeatherSearchResult = components['schemas']['WeatherSearchResult'];
+export type SearchJob = components['schemas']['SearchJob'];
 export type DailyWeather = components['schemas']['DailyWeather'];
 export type SavedSearch = components['schemas']['SavedSearch'];
 export type ElectricalConfig = components['schemas']['ElectricalConfig'];
@@ -104,6 +105,7 @@ type WeatherSearchRequest =
   paths['/weather/search']['post']['requestBody']['content']['application/json'];
 type WeatherSearchResponse =
   paths['/weather/search']['post']['responses']['200']['content']['application/json']['data'];
+type SearchJobEventType = 'progress' | 'completed' | 'failed' | 'cancelled';
 type GridPointsResponse =
   paths['/weather/grid-points']['get']['responses']['200']['content']['application/json']['data'];
 type GridPointWeatherResponse =
@@ -118,6 +120,45 @@ export const weatherApi = {
       body: JSON.stringify(params),
     }),
 
+  startSearchJob: (params: WeatherSearchRequest) =>
+    apiFetch<SearchJob>('/weather/search/jobs', {
+      method: 'POST',
+      body: JSON.stringify(params),
+    }),
+
+  getSearchJob: (id: string) => apiFetch<SearchJob>(`/weather/search/jobs/${id}`),
+
+  cancelSearchJob: (id: string) =>
+    apiFetch<SearchJob>(`/weather/search/jobs/${id}`, {
+      method: 'DELETE',
+    }),
+
+  // Subscribe to a job's server-sent events. Returns a function that closes the stream.
+  watchSearchJob: (
+    id: string,
+    onEvent: (type: SearchJobEventType, job: SearchJob) => void,
+    onError: () => void
+  ) => {
+    const source = new EventSource(`${API_BASE_URL}/weather/search/jobs/${id}/events`);
+    const eventTypes: SearchJobEventType[] = ['progress', 'completed', 'failed', 'cancelled'];
+
+    for (const type of eventTypes) {
+      source.addEventListener(type, event => {
+        if (type !== 'progress') source.close();
+        onEvent(type, JSON.parse((event as MessageEvent<string>).data) as SearchJob);
+      });
+    }
+
+    // The stream is closed above after the final event, so any error is a dropped
+    // connection - don't let EventSource reconnect and replay the job from the start
+    source.onerror = () => {
+      source.close();
+      onError();
+    };
+
+    return () => source.close();
+  },
+
   getGridPoints: (params?: {
     region?: string;
     states?: string[];
@@ -131,9 +172,16 @@ export const weatherApi = {
     return apiFetch<GridPointsResponse>(`/weather/grid-points${query ? `?${query}` : ''}`);
   },
 
-  getGridPointWeather: (id: string, startDate: string, endDate: string) =>
+  getGridPointWeather: (
+    id: string,
+    startDate: string,
+    endDate: string,
+    units: 'imperial' | 'metric' = 'imperial',
+    climatologyYears?: number
+  ) =>
     apiFetch<GridPointWeatherResponse>(
-      `/weather/grid-points/${id}?startDate=${startDate}&endDate=${endDate}`
+      `/weather/grid-points/${id}?startDate=${startDate}&endDate=${endDate}&units=${units}` +
+        (climatologyYears ? `&climatologyYears=${climatologyYears}` : '')
     ),
 
   findNearest: (lat: number, lon: number) =>
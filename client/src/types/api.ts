@@ -45,8 +45,12 @@ export interface paths {
          *
          *     **Scoring:**
          *     - Only filters you explicitly provide are used in scoring
-         *     - Each filter is weighted equally
+         *     - Each filter is weighted equally unless `scoring.weights` is provided
+         *     - The applied (normalized) weights and curves are echoed in `searchCriteria.scoring`
          *     - Results are sorted by score descending
+         *     - Locations whose cached weather fails a filter outright (scoring 0 in that
+         *       category) on too many days to have a passing day, or to meet
+         *       `minConsecutivePassingDays`/`minPassingDayRatio`, are skipped without scoring
          */
         post: operations["searchWeather"];
         delete?: never;
@@ -55,6 +59,104 @@ export interface paths {
         patch?: never;
         trace?: never;
     };
+    "/weather/search/route": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /**
+         * Find stops along a driving route
+         * @description Evaluates grid points within `corridorMiles` of a route. Each point is scored
+         *     against the weather on the day the traveller reaches it, assuming `dailyMiles`
+         *     of driving per day from `departureDate`. Returns the best stop candidates for
+         *     each driving day.
+         *
+         *     Very large corridors are thinned to a coarser grid before scoring.
+         */
+        post: operations["searchWeatherAlongRoute"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/weather/search/jobs": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /**
+         * Start a background weather search
+         * @description Starts the same search as `POST /weather/search` as a background job and
+         *     returns immediately. Follow the job by polling `GET /weather/search/jobs/{id}`
+         *     or by subscribing to `GET /weather/search/jobs/{id}/events`.
+         *
+         *     A user (or IP address, without a token) can run 2 jobs at once, and the
+         *     server 20 in total. Starting more returns 429 until a job finishes or is
+         *     cancelled.
+         */
+        post: operations["startWeatherSearchJob"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/weather/search/jobs/{id}": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /**
+         * Get a search job
+         * @description Returns the job's status, progress and current ranked results.
+         */
+        get: operations["getWeatherSearchJob"];
+        put?: never;
+        post?: never;
+        /**
+         * Cancel a search job
+         * @description Cancels a running search job. Results scored so far stay on the job.
+         *     Cancelling a finished job has no effect.
+         */
+        delete: operations["cancelWeatherSearchJob"];
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/weather/search/jobs/{id}/events": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /**
+         * Stream search job progress
+         * @description Server-sent events stream. Every event's `data` is a JSON `SearchJob` snapshot.
+         *     - `progress`: sent on connect and at most once per second while the job runs
+         *     - `completed`, `failed`, `cancelled`: final event, after which the stream closes
+         */
+        get: operations["streamWeatherSearchJob"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
     "/weather/grid-points": {
         parameters: {
             query?: never;
@@ -88,7 +190,11 @@ export interface paths {
         };
         /**
          * Get weather detail for a grid point
-         * @description Returns detailed weather data for a specific grid point and date range.
+         * @description Returns a grid point with its daily weather for a date range. Each day is
+         *     labelled forecast or historical, and `dataSourceExplanation` describes why
+         *     each kind of data is shown.
+         *
+         *     Without `startDate` and `endDate`, only the grid point itself is returned.
          */
         get: operations["getGridPointWeather"];
         put?: never;
@@ -120,6 +226,97 @@ export interface paths {
         patch?: never;
         trace?: never;
     };
+    "/weather/cache-warmer": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /**
+         * Get forecast cache warmer status
+         * @description Progress of the latest forecast cache warmer run and the outcome of the last
+         *     finished run. The warmer keeps forecasts fresh for every grid point and runs
+         *     separately from the API (scripts/warm-forecast-cache.ts).
+         */
+        get: operations["getCacheWarmerStatus"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/weather/forecast-accuracy": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /**
+         * Get forecast accuracy
+         * @description Forecast error per region and lead time. Forecasts are snapshotted when they're
+         *     fetched and compared with recorded weather once the archive has the date (5 days
+         *     after it, by scripts/verify-forecasts.ts). Groups with at least 50 verified
+         *     forecasts set the `confidence` of forecast days in search results.
+         */
+        get: operations["getForecastAccuracy"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/admin/weather-cache/stats": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /**
+         * Get weather cache stats
+         * @description Row counts and date/fetch ranges per cache table (weather, air quality,
+         *     hourly weather and climatology), region and data type.
+         *     Admins are Supabase users with `app_metadata.role` set to `admin`.
+         */
+        get: operations["getWeatherCacheStats"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/admin/weather-cache/invalidate": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /**
+         * Invalidate cached weather
+         * @description Deletes cached weather, air quality, hourly weather and climatology rows
+         *     matching every given scope, so they're refetched on the next lookup. At
+         *     least a grid point, region or date bound is required. Climatology is cached
+         *     per day of year, so it's only deleted when no date bound is given and
+         *     `dataType` isn't `forecast`.
+         */
+        post: operations["invalidateWeatherCache"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
     "/searches": {
         parameters: {
             query?: never;
@@ -329,22 +526,53 @@ export interface components {
          */
         WeatherFilters: {
             /**
-             * @description Minimum temperature in °F
+             * @description Minimum daytime high in °F (°C with metric units)
              * @example 65
              */
+            highMin?: number;
+            /**
+             * @description Maximum daytime high in °F (°C with metric units)
+             * @example 85
+             */
+            highMax?: number;
+            /**
+             * @description Minimum overnight low in °F (°C with metric units)
+             * @example 40
+             */
+            lowMin?: number;
+            /**
+             * @description Maximum overnight low in °F (°C with metric units)
+             * @example 60
+             */
+            lowMax?: number;
+            /**
+             * @deprecated
+             * @description Use `highMin`. Treated as `highMin` when that isn't set.
+             */
             tempMin?: number;
             /**
-             * @description Maximum temperature in °F
-             * @example 80
+             * @deprecated
+             * @description Use `lowMax`. Treated as `lowMax` when that isn't set.
              */
             tempMax?: number;
+            /**
+             * @description Maximum "feels like" (apparent) daytime high in °F (°C with metric units)
+             * @example 90
+             */
+            feelsLikeMax?: number;
+            /**
+             * @description Maximum daily mean dew point in °F (°C with metric units). Dew points above
+             *     ~60°F feel muggy and make for stuffy nights.
+             * @example 60
+             */
+            dewPointMax?: number;
             /**
              * @description Maximum humidity percentage
              * @example 50
              */
             humidityMax?: number;
             /**
-             * @description Maximum wind speed in mph
+             * @description Maximum wind speed in mph (km/h with metric units)
              * @example 15
              */
             windSpeedMax?: number;
@@ -375,6 +603,366 @@ export interface components {
              * @example 50
              */
             aqiMax?: number;
+            /**
+             * @description Maximum night-time hours below 40°F (4.4°C) per day (uses hourly weather)
+             * @example 2
+             */
+            coldNightHoursMax?: number;
+            /**
+             * @description Maximum daylight hours with wind over 20 mph (32 km/h) per day (uses hourly
+             *     weather)
+             * @example 1
+             */
+            windyDaylightHoursMax?: number;
+            /**
+             * @description Minimum dry hours between 8am and 6pm local time per day (uses hourly weather)
+             * @example 8
+             */
+            dryDaytimeHoursMin?: number;
+            /**
+             * @description Only return locations with at least this many consecutive days passing every
+             *     other filter (e.g. 4 dry days in a row). Not accepted by route search.
+             * @example 4
+             */
+            minConsecutivePassingDays?: number;
+            /**
+             * @description Only return locations where at least this share of days pass every other filter.
+             *     Not accepted by route search.
+             * @example 0.75
+             */
+            minPassingDayRatio?: number;
+        };
+        /**
+         * @description Units for filters and weather values. `imperial`: °F, mph, inches.
+         *     `metric`: °C, km/h, mm. Humidity, precipitation chance and AQI are unitless.
+         * @default imperial
+         * @enum {string}
+         */
+        UnitSystem: "imperial" | "metric";
+        /**
+         * @description Climatology mode. Dates beyond the forecast range are scored against
+         *     p10/p50/p90 percentiles from this many years of recorded weather: high/low
+         *     temperature and wind scores become the chance (0-100) of staying within the
+         *     filter, and precipitation chance becomes the share of wet days over the span.
+         *     Penalty curves don't apply to those scores.
+         * @example 30
+         */
+        ClimatologyYears: number;
+        /** @description How up to date a location's weather data is */
+        DataFreshness: {
+            /**
+             * @description Age of the oldest fetched day's data in minutes. Days from precomputed
+             *     climate normals don't count, as they're rebuilt offline rather than
+             *     fetched; null without any fetched days.
+             * @example 380
+             */
+            ageMinutes: number | null;
+            /**
+             * @description Days served past their refresh time
+             * @example 2
+             */
+            staleDays: number;
+            /** @description Whether a background refresh is running for the stale days */
+            refreshing: boolean;
+        };
+        /**
+         * @description Where a day's weather comes from:
+         *     - `forecast`: provider forecast
+         *     - `observed`: recorded weather for a past date
+         *     - `climatology`: multi-year averages for a date beyond the forecast range
+         * @enum {string}
+         */
+        DaySource: "forecast" | "observed" | "climatology";
+        Percentiles: {
+            p10: number;
+            p50: number;
+            p90: number;
+        };
+        /** @description Multi-year percentiles for one day of the year */
+        DailyClimatology: {
+            /** @description Day of the year (Feb 29 shares Feb 28) */
+            dayOfYear: number;
+            /** @description Archive years summarized */
+            years: number;
+            tempHigh: components["schemas"]["Percentiles"];
+            tempLow: components["schemas"]["Percentiles"];
+            windSpeed: components["schemas"]["Percentiles"];
+            precipAmount: components["schemas"]["Percentiles"];
+            /** @description Share of sampled days with measurable precipitation (0-100) */
+            precipChance: number;
+        };
+        /**
+         * @description How a filter's score falls off once a value is outside the desired range:
+         *     - `linear`: loses a fixed number of points per unit past the limit
+         *     - `sigmoid`: forgiving just past the limit, steeper further out
+         *     - `cutoff`: any violation scores 0
+         * @enum {string}
+         */
+        PenaltyCurve: "linear" | "sigmoid" | "cutoff";
+        /**
+         * @description Optional scoring configuration. Weights are relative and normalized across the
+         *     categories that have an active filter; categories without a filter are ignored.
+         */
+        ScoringOptions: {
+            /**
+             * @example {
+             *       "tempHigh": 30,
+             *       "tempLow": 30,
+             *       "precipitation": 25,
+             *       "wind": 15
+             *     }
+             */
+            weights?: {
+                tempHigh?: number;
+                tempLow?: number;
+                /**
+                 * @deprecated
+                 * @description Applies to both `tempHigh` and `tempLow` unless they are set
+                 */
+                temperature?: number;
+                feelsLike?: number;
+                dewPoint?: number;
+                humidity?: number;
+                wind?: number;
+                precipitation?: number;
+                aqi?: number;
+                coldNightHours?: number;
+                windyDaylightHours?: number;
+                dryDaytimeHours?: number;
+            };
+            /**
+             * @example {
+             *       "precipitation": "cutoff"
+             *     }
+             */
+            curves?: {
+                tempHigh?: components["schemas"]["PenaltyCurve"];
+                tempLow?: components["schemas"]["PenaltyCurve"];
+                /**
+                 * @deprecated
+                 * @description Applies to both `tempHigh` and `tempLow` unless they are set
+                 */
+                temperature?: components["schemas"]["PenaltyCurve"];
+                feelsLike?: components["schemas"]["PenaltyCurve"];
+                dewPoint?: components["schemas"]["PenaltyCurve"];
+                humidity?: components["schemas"]["PenaltyCurve"];
+                wind?: components["schemas"]["PenaltyCurve"];
+                precipitation?: components["schemas"]["PenaltyCurve"];
+                aqi?: components["schemas"]["PenaltyCurve"];
+                coldNightHours?: components["schemas"]["PenaltyCurve"];
+                windyDaylightHours?: components["schemas"]["PenaltyCurve"];
+                dryDaytimeHours?: components["schemas"]["PenaltyCurve"];
+            };
+            /**
+             * @description Count each day towards the category averages in proportion to its
+             *     `confidence`, so distant forecasts and climatology weigh less than
+             *     near-term days. Daily scores and pass/fail checks are unaffected.
+             * @default false
+             */
+            confidenceWeighting: boolean;
+        };
+        WeatherSearchRequest: {
+            filters: components["schemas"]["WeatherFilters"];
+            dateRange: components["schemas"]["DateRange"];
+            options?: {
+                /**
+                 * @description Maximum number of results to return
+                 * @default 50
+                 */
+                limit: number;
+                /**
+                 * @description Minimum match score to include in results
+                 * @default 0
+                 */
+                minScore: number;
+                /**
+                 * @description Limit search to a specific region
+                 * @enum {string}
+                 */
+                region?: "northeast" | "southeast" | "midwest" | "southwest" | "west" | "pacific_northwest";
+                /** @description Limit search to specific states (2-letter codes) */
+                states?: string[];
+                /** @description Search around this coordinate. Results include `distanceMiles` from it. */
+                center?: {
+                    /** @example 38.5733 */
+                    lat: number;
+                    /** @example -109.5498 */
+                    lon: number;
+                };
+                /**
+                 * @description Only consider grid points within this great-circle distance of `center` (requires `center`)
+                 * @example 300
+                 */
+                radiusMiles?: number;
+                /**
+                 * @description Result order. `distance` returns the nearest points meeting `minScore` first
+                 *     (requires `center`); ties are broken by score.
+                 * @default score
+                 * @enum {string}
+                 */
+                sortBy: "score" | "distance";
+                /**
+                 * @description Score each location by its best run of this many consecutive days within
+                 *     the date range instead of the whole range. Results include the `window`.
+                 */
+                windowDays?: number;
+                units?: components["schemas"]["UnitSystem"];
+                climatologyYears?: components["schemas"]["ClimatologyYears"];
+            };
+            scoring?: components["schemas"]["ScoringOptions"];
+        };
+        /**
+         * @description Driving route as a GeoJSON LineString (`[lon, lat]` pairs) or an encoded polyline
+         *     (Google polyline algorithm, precision 5 or 6).
+         */
+        RouteGeometry: {
+            /** @enum {string} */
+            type: "LineString";
+            coordinates: number[][];
+        } | {
+            /** @example _p~iF~ps|U_ulLnnqC_mqNvxq`@ */
+            encodedPolyline: string;
+            /**
+             * @default 5
+             * @enum {integer}
+             */
+            precision: 5 | 6;
+        };
+        /** @description One day's driving along a route, with the best places to stop */
+        RouteDaySegment: {
+            day: number;
+            /**
+             * Format: date
+             * @description Date the traveller drives this segment
+             */
+            date: string;
+            startMile: number;
+            endMile: number;
+            /** @description Best stop candidates for the day, by score */
+            stops: (components["schemas"]["WeatherSearchResult"] & {
+                /** @description Distance along the route to the point nearest this stop */
+                routeMile: number;
+                /** @description Distance from the route to the stop */
+                detourMiles: number;
+            })[];
+        };
+        /** @description Cache size and age for one cache table, region and data type */
+        WeatherCacheStats: {
+            /** @enum {string} */
+            cache: "weather" | "air_quality" | "hourly_weather" | "climatology";
+            /** @enum {string} */
+            region: "northeast" | "southeast" | "midwest" | "southwest" | "west" | "pacific_northwest";
+            /**
+             * @description Air quality and hourly rows for past dates count as historical.
+             *     Null for climatology, which is cached per day of year.
+             * @enum {string|null}
+             */
+            dataType: "forecast" | "historical" | null;
+            rows: number;
+            /** @description Grid points with at least one cached row */
+            gridPoints: number;
+            /**
+             * Format: date
+             * @description Null for climatology
+             */
+            oldestDate: string | null;
+            /**
+             * Format: date
+             * @description Null for climatology
+             */
+            newestDate: string | null;
+            /** Format: date-time */
+            oldestFetchedAt: string;
+            /** Format: date-time */
+            newestFetchedAt: string;
+        };
+        /** @description A forecast cache warmer run */
+        CacheWarmerRun: {
+            /** Format: uuid */
+            id: string;
+            /** @enum {string} */
+            status: "running" | "completed" | "failed";
+            /** @description Grid points the run will check */
+            pointsPlanned: number;
+            /** @description Grid points checked so far */
+            pointsChecked: number;
+            /** @description Grid points whose forecast was refetched (the rest were still fresh) */
+            pointsRefreshed: number;
+            /** @description Batches of grid points that failed to refresh */
+            errors: number;
+            /** @description Why the run failed */
+            error: string | null;
+            /** Format: date-time */
+            startedAt: string;
+            /** Format: date-time */
+            finishedAt: string | null;
+        };
+        /** @description Forecast error for one region and lead time, over verified forecasts */
+        ForecastAccuracyStats: {
+            /** @enum {string} */
+            region: "northeast" | "southeast" | "midwest" | "southwest" | "west" | "pacific_northwest";
+            /**
+             * @description Days between fetching the forecast and its date
+             * @example 10
+             */
+            leadDays: number;
+            /**
+             * @description Verified forecasts (grid point days) in this group
+             * @example 1240
+             */
+            samples: number;
+            /**
+             * @description Mean absolute error of the forecast high, in °F
+             * @example 4.2
+             */
+            tempHighMae: number;
+            /**
+             * @description Mean absolute error of the forecast low, in °F
+             * @example 3.8
+             */
+            tempLowMae: number;
+            /**
+             * @description Share of days where the forecast called it right: a precipitation chance of
+             *     50% or more on days with at least 0.01 in. of recorded precipitation, or
+             *     under 50% on dry days
+             * @example 0.71
+             */
+            precipHitRate: number;
+        };
+        /**
+         * @description A weather search running in the background. Jobs are kept in memory and
+         *     expire 15 minutes after they finish.
+         */
+        SearchJob: {
+            /** Format: uuid */
+            id: string;
+            /** @enum {string} */
+            status: "running" | "completed" | "failed" | "cancelled";
+            /** Format: date-time */
+            createdAt: string;
+            /** Format: date-time */
+            finishedAt?: string | null;
+            progress: {
+                /** @description Grid points scored so far */
+                pointsScored: number;
+                /** @description Grid points the search expects to score (estimated until the refine pass is planned) */
+                pointsPlanned: number;
+                /** @description Estimated seconds remaining, null before the first batch is scored */
+                etaSeconds: number | null;
+            };
+            /** @description Current ranked results while running; final results once completed */
+            results: components["schemas"]["WeatherSearchResult"][];
+            /** @description Search coverage statistics, available once the job completes */
+            meta?: {
+                totalGridPoints?: number;
+                prefilteredPoints?: number;
+                coarsePoints?: number;
+                refinedCells?: number;
+                pointsScored?: number;
+            } | null;
+            /** @description The validated search request, with scoring resolved to applied weights and curves */
+            searchCriteria?: Record<string, never>;
+            error?: string | null;
         };
         DateRange: {
             /**
@@ -438,6 +1026,42 @@ export interface components {
              * @example 92
              */
             score: number;
+            /**
+             * @description Most consecutive days passing every filter, over the whole date range
+             * @example 4
+             */
+            longestPassingStreak?: number;
+            /**
+             * @description Share of days passing every filter (0-1), over the whole date range
+             * @example 0.71
+             */
+            passingDayRatio?: number;
+            /** @description Whether `minConsecutivePassingDays` and `minPassingDayRatio` are met. Search results always meet them. */
+            meetsDayRequirements?: boolean;
+            /** @description Best run of `windowDays` consecutive days (only for searches with `windowDays`). `score` and `breakdown` are for this window. */
+            window?: {
+                /** Format: date */
+                startDate: string;
+                /** Format: date */
+                endDate: string;
+                dailyScores: {
+                    /** Format: date */
+                    date?: string;
+                    score?: number;
+                    passesFilters?: boolean;
+                    source?: components["schemas"]["DaySource"];
+                    /** @description Days from today to this date (negative for past dates) */
+                    leadDays?: number;
+                    /** @description How far the day's weather can be relied on */
+                    confidence?: number;
+                }[];
+            };
+            /**
+             * @description Great-circle distance from the search center in miles (only for searches with a `center`)
+             * @example 142.6
+             */
+            distanceMiles?: number;
+            freshness?: components["schemas"]["DataFreshness"];
             /**
              * @description Source of weather data:
              *     - `forecast`: NWS forecast data (typically 7-14 days out)
@@ -448,36 +1072,93 @@ export interface components {
             dataType: "forecast" | "historical" | "mixed";
             /** @description Individual scores for each filter criterion */
             breakdown: {
-                temperature?: components["schemas"]["FilterScore"];
+                tempHigh?: components["schemas"]["FilterScore"];
+                tempLow?: components["schemas"]["FilterScore"];
+                feelsLike?: components["schemas"]["FilterScore"];
+                dewPoint?: components["schemas"]["FilterScore"];
                 humidity?: components["schemas"]["FilterScore"];
                 wind?: components["schemas"]["FilterScore"];
                 precipitation?: components["schemas"]["FilterScore"];
                 aqi?: components["schemas"]["FilterScore"];
+                coldNightHours?: components["schemas"]["FilterScore"];
+                windyDaylightHours?: components["schemas"]["FilterScore"];
+                dryDaytimeHours?: components["schemas"]["FilterScore"];
             };
         };
         FilterScore: {
             /** @description Score for this specific filter (0-100) */
             score: number;
-            /** @description Actual average value for this metric */
+            /**
+             * @description Representative observed value for this category: mean daily high
+             *     (tempHigh), mean overnight low (tempLow), highest feels-like high,
+             *     highest dew point, most cold night or windy daylight hours, fewest dry
+             *     daytime hours, mean humidity, highest wind speed, highest precipitation
+             *     chance, or highest AQI over the scored days
+             * @example 82
+             */
             value: number;
-            /** @description Unit of measurement */
-            unit?: string;
+            /**
+             * @description Unit of measurement, in the request's unit system (e.g. °F or °C); `h` for hourly-derived counts
+             * @example %
+             */
+            unit: string;
+            /** @description The filter bounds the value was scored against */
+            limit: {
+                min?: number;
+                max?: number;
+            };
+            /**
+             * @description Number of scored days outside the filter
+             * @example 3
+             */
+            violatingDays: number;
+            /**
+             * @description Number of days scored in this category (AQI skips days without data)
+             * @example 7
+             */
+            days: number;
+            /**
+             * @description Chance (0-100) of staying within the filter, averaged over days scored from
+             *     climatology. Only present in climatology mode for tempHigh, tempLow and wind;
+             *     those days count as violating when the chance is under 50.
+             * @example 72
+             */
+            likelihood?: number;
+            /**
+             * @description The temperature (coldNightHours) or wind speed (windyDaylightHours) that hours
+             *     are counted against, in the request's unit system. Only present for those
+             *     two categories.
+             */
+            threshold?: {
+                /** @example 4.4 */
+                value?: number;
+                /** @example °C */
+                unit?: string;
+            };
         };
         DailyWeather: {
             /** Format: date */
             date: string;
             /**
-             * @description Whether this day's data is from forecast or historical averages
+             * @description Whether this day's data is a forecast or historical. Historical days are
+             *     recorded weather for past dates, or multi-year averages for dates beyond
+             *     the forecast range.
              * @enum {string}
              */
             dataType: "forecast" | "historical";
-            /** @description High temperature in °F */
+            /** @description High temperature in °F (°C with metric units) */
             tempHigh: number;
-            /** @description Low temperature in °F */
+            /** @description Low temperature in °F (°C with metric units) */
             tempLow: number;
+            /** @description "Feels like" high in °F (°C with metric units), accounting for humidity and wind */
+            apparentTempHigh?: number | null;
+            /** @description "Feels like" low in °F (°C with metric units) */
+            apparentTempLow?: number | null;
+            /** @description Daily mean dew point in °F (°C with metric units) */
+            dewPoint?: number | null;
             /** @description Average humidity percentage */
             humidity: number;
-            /** @description Average wind speed in mph */
+            /** @description Average wind speed in mph (km/h with metric units) */
             windSpeed: number;
             /**
              * @description Predominant wind direction
@@ -487,13 +1168,62 @@ export interface components {
             /** @description Precipitation chance percentage */
             precipChance: number;
             precipType: components["schemas"]["PrecipitationType"];
-            /** @description Air Quality Index value */
-            aqi: number;
+            /** @description Air Quality Index value (null when no air quality data covers the day) */
+            aqi: number | null;
             /**
              * @description EPA AQI category
-             * @enum {string}
+             * @enum {string|null}
+             */
+            aqiCategory: "Good" | "Moderate" | "Unhealthy for Sensitive Groups" | "Unhealthy" | "Very Unhealthy" | "Hazardous" | null;
+            /**
+             * @description Daily figures derived from hourly weather. Only attached for searches using
+             *     hourly filters; null when hourly data isn't available for the whole day
+             *     (e.g. beyond the forecast range, or a partial day at its end).
+             */
+            hourlyMetrics?: {
+                /** @description Night-time hours below 40°F (4.4°C) */
+                coldNightHours?: number;
+                /** @description Daylight hours with wind over 20 mph (32 km/h) */
+                windyDaylightHours?: number;
+                /** @description Hours from 8am to 6pm without precipitation (of 10) */
+                dryDaytimeHours?: number;
+            } | null;
+            /**
+             * @description Percentiles for this day of the year, in the request's units. Only attached
+             *     in climatology mode, for days beyond the forecast range.
+             */
+            climatology?: components["schemas"]["DailyClimatology"] | null;
+            /**
+             * @description Weather provider that produced this day
+             * @example nws
+             */
+            provider: string;
+            /**
+             * @description Minutes since this day was fetched from its provider, or since its climate
+             *     normal was built for days from precomputed normals
+             * @example 95
+             */
+            ageMinutes?: number;
+            /**
+             * @description Past its refresh time (6 hours for forecasts) and being refreshed in the
+             *     background. Stale days are served up to the server's configured maximum
+             *     staleness; older days are refetched before responding.
              */
-            aqiCategory: "Good" | "Moderate" | "Unhealthy for Sensitive Groups" | "Unhealthy" | "Very Unhealthy" | "Hazardous";
+            stale?: boolean;
+            source?: components["schemas"]["DaySource"];
+            /**
+             * @description Days from today to this date (negative for past dates)
+             * @example 3
+             */
+            leadDays?: number;
+            /**
+             * @description How far this day's values can be relied on: 1 for recorded weather and 0.25
+             *     for climatology. Forecasts use the measured accuracy for their region and
+             *     lead time (see `/weather/forecast-accuracy`) once enough have been verified,
+             *     and otherwise fall from 1 to 0.4 across the forecast range with lead time.
+             * @example 0.91
+             */
+            confidence?: number;
         };
         SavedSearch: {
             /** Format: uuid */
@@ -641,6 +1371,24 @@ export interface components {
                 "application/json": components["schemas"]["ErrorResponse"];
             };
         };
+        /** @description Authenticated user is not an admin */
+        ForbiddenError: {
+            headers: {
+                [name: string]: unknown;
+            };
+            content: {
+                /**
+                 * @example {
+                 *       "success": false,
+                 *       "error": {
+                 *         "code": "FORBIDDEN",
+                 *         "message": "Admin access is required"
+                 *       }
+                 *     }
+                 */
+                "application/json": components["schemas"]["ErrorResponse"];
+            };
+        };
         /** @description Rate limit exceeded */
         RateLimitError: {
             headers: {
@@ -719,29 +1467,7 @@ export interface operations {
         };
         requestBody: {
             content: {
-                "application/json": {
-                    filters: components["schemas"]["WeatherFilters"];
-                    dateRange: components["schemas"]["DateRange"];
-                    options?: {
-                        /**
-                         * @description Maximum number of results to return
-                         * @default 50
-                         */
-                        limit?: number;
-                        /**
-                         * @description Minimum match score to include in results
-                         * @default 0
-                         */
-                        minScore?: number;
-                        /**
-                         * @description Limit search to a specific region
-                         * @enum {string}
-                         */
-                        region?: "northeast" | "southeast" | "midwest" | "southwest" | "west" | "pacific_northwest";
-                        /** @description Limit search to specific states (2-letter codes) */
-                        states?: string[];
-                    };
-                };
+                "application/json": components["schemas"]["WeatherSearchRequest"];
             };
         };
         responses: {
@@ -755,8 +1481,20 @@ export interface operations {
                         data?: {
                             results?: components["schemas"]["WeatherSearchResult"][];
                             meta?: {
-                                /** @description Total grid points searched */
+                                /** @description Total grid points matching the region/state options */
                                 totalGridPoints?: number;
+                                /**
+                                 * @description Grid points skipped without scoring because their cached weather
+                                 *     already fails the filters outright on too many days to meet the
+                                 *     day requirements or to reach minScore
+                                 */
+                                prefilteredPoints?: number;
+                                /** @description Points scored in the coarse (1° cell) pass */
+                                coarsePoints?: number;
+                                /** @description Coarse cells re-scored at full 0.25° resolution */
+                                refinedCells?: number;
+                                /** @description Total grid points scored across both passes */
+                                pointsScored?: number;
                                 /** @description Grid points meeting minimum score */
                                 matchingPoints?: number;
                                 /** @enum {string} */
@@ -784,6 +1522,190 @@ export interface operations {
             429: components["responses"]["RateLimitError"];
         };
     };
+    searchWeatherAlongRoute: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": {
+                    route: components["schemas"]["RouteGeometry"];
+                    /**
+                     * @description How far either side of the route to look for stops
+                     * @default 25
+                     */
+                    corridorMiles?: number;
+                    /** Format: date */
+                    departureDate: string;
+                    /**
+                     * @description Assumed driving distance per day
+                     * @default 300
+                     */
+                    dailyMiles?: number;
+                    filters: components["schemas"]["WeatherFilters"];
+                    options?: {
+                        /** @default 5 */
+                        stopsPerDay?: number;
+                        /** @default 0 */
+                        minScore?: number;
+                        units?: components["schemas"]["UnitSystem"];
+                        climatologyYears?: components["schemas"]["ClimatologyYears"];
+                    };
+                    scoring?: components["schemas"]["ScoringOptions"];
+                };
+            };
+        };
+        responses: {
+            /** @description Route search completed successfully */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["SuccessResponse"] & {
+                        data?: {
+                            segments?: components["schemas"]["RouteDaySegment"][];
+                            meta?: {
+                                routeMiles?: number;
+                                /** @description Grid points inside the corridor */
+                                corridorPoints?: number;
+                                /** @description Grid points scored after thinning */
+                                pointsScored?: number;
+                            };
+                            searchCriteria?: Record<string, never>;
+                        };
+                    };
+                };
+            };
+            /** @description Invalid request, invalid route geometry (INVALID_ROUTE), or a trip longer than 90 days (DATE_RANGE_TOO_LARGE) */
+            400: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponse"];
+                };
+            };
+            429: components["responses"]["RateLimitError"];
+        };
+    };
+    startWeatherSearchJob: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["WeatherSearchRequest"];
+            };
+        };
+        responses: {
+            /** @description Search job started */
+            202: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["SuccessResponse"] & {
+                        data?: components["schemas"]["SearchJob"];
+                    };
+                };
+            };
+            /** @description Invalid request parameters */
+            400: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponse"];
+                };
+            };
+            429: components["responses"]["RateLimitError"];
+        };
+    };
+    getWeatherSearchJob: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                /** @description Search job ID */
+                id: string;
+            };
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description Search job retrieved successfully */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["SuccessResponse"] & {
+                        data?: components["schemas"]["SearchJob"];
+                    };
+                };
+            };
+            404: components["responses"]["NotFoundError"];
+            429: components["responses"]["RateLimitError"];
+        };
+    };
+    cancelWeatherSearchJob: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                /** @description Search job ID */
+                id: string;
+            };
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description Search job cancelled */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["SuccessResponse"] & {
+                        data?: components["schemas"]["SearchJob"];
+                    };
+                };
+            };
+            404: components["responses"]["NotFoundError"];
+            429: components["responses"]["RateLimitError"];
+        };
+    };
+    streamWeatherSearchJob: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                /** @description Search job ID */
+                id: string;
+            };
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description Event stream */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "text/event-stream": string;
+                };
+            };
+            404: components["responses"]["NotFoundError"];
+        };
+    };
     getGridPoints: {
         parameters: {
             query?: {
@@ -822,11 +1744,13 @@ export interface operations {
     };
     getGridPointWeather: {
         parameters: {
-            query: {
+            query?: {
                 /** @description Start date (ISO 8601) */
-                startDate: string;
+                startDate?: string;
                 /** @description End date (ISO 8601) */
-                endDate: string;
+                endDate?: string;
+                units?: components["schemas"]["UnitSystem"];
+                climatologyYears?: components["schemas"]["ClimatologyYears"];
             };
             header?: never;
             path: {
@@ -847,13 +1771,19 @@ export interface operations {
                         data?: {
                             gridPoint?: components["schemas"]["GridPoint"];
                             dailyData?: components["schemas"]["DailyWeather"][];
+                            /** @enum {string} */
+                            dataSource?: "forecast" | "historical" | "mixed";
+                            /** @example 7 days use forecast data (nws), refreshed every 6 hours. 3 days are beyond the forecast range, so they show historical averages for the same dates in previous years. */
+                            dataSourceExplanation?: string;
+                            freshness?: components["schemas"]["DataFreshness"];
+                            units?: components["schemas"]["UnitSystem"];
                             summary?: {
                                 avgTempHigh?: number;
                                 avgTempLow?: number;
                                 avgHumidity?: number;
                                 avgWindSpeed?: number;
                                 avgPrecipChance?: number;
-                                avgAqi?: number;
+                                avgAqi?: number | null;
                             };
                         };
                     };
@@ -903,6 +1833,168 @@ export interface operations {
             };
         };
     };
+    getCacheWarmerStatus: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description Cache warmer status retrieved successfully */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["SuccessResponse"] & {
+                        data?: {
+                            /** @description Most recent run, possibly still running (null if the warmer has never run) */
+                            latestRun: components["schemas"]["CacheWarmerRun"] | null;
+                            /** @description Most recent run that completed or failed */
+                            lastFinishedRun: components["schemas"]["CacheWarmerRun"] | null;
+                        };
+                    };
+                };
+            };
+            429: components["responses"]["RateLimitError"];
+        };
+    };
+    getForecastAccuracy: {
+        parameters: {
+            query?: {
+                /** @description Only this region */
+                region?: "northeast" | "southeast" | "midwest" | "southwest" | "west" | "pacific_northwest";
+                /**
+                 * @description Only forecasts from this weather provider
+                 * @example open-meteo
+                 */
+                provider?: string;
+                /** @description Only forecasts for dates in the last this many days */
+                days?: number;
+            };
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description Forecast accuracy retrieved successfully */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["SuccessResponse"] & {
+                        data?: components["schemas"]["ForecastAccuracyStats"][];
+                    };
+                };
+            };
+            /** @description Invalid query parameters */
+            400: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponse"];
+                };
+            };
+            429: components["responses"]["RateLimitError"];
+        };
+    };
+    getWeatherCacheStats: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description Cache stats retrieved successfully */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["SuccessResponse"] & {
+                        data?: components["schemas"]["WeatherCacheStats"][];
+                    };
+                };
+            };
+            401: components["responses"]["UnauthorizedError"];
+            403: components["responses"]["ForbiddenError"];
+        };
+    };
+    invalidateWeatherCache: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                /**
+                 * @example {
+                 *       "region": "west",
+                 *       "startDate": "2026-07-01",
+                 *       "endDate": "2026-07-14"
+                 *     }
+                 */
+                "application/json": {
+                    /** Format: uuid */
+                    gridPointId?: string;
+                    /** @enum {string} */
+                    region?: "northeast" | "southeast" | "midwest" | "southwest" | "west" | "pacific_northwest";
+                    /**
+                     * Format: date
+                     * @description Earliest cached date to delete
+                     */
+                    startDate?: string;
+                    /**
+                     * Format: date
+                     * @description Latest cached date to delete
+                     */
+                    endDate?: string;
+                    /**
+                     * @description Only delete this kind of data (default both). Air quality and
+                     *     hourly rows for past dates count as historical.
+                     * @enum {string}
+                     */
+                    dataType?: "forecast" | "historical";
+                };
+            };
+        };
+        responses: {
+            /** @description Cache invalidated */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["SuccessResponse"] & {
+                        data?: {
+                            /** @description Cached rows deleted */
+                            deleted: number;
+                        };
+                    };
+                };
+            };
+            /** @description No scope given or invalid dates */
+            400: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponse"];
+                };
+            };
+            401: components["responses"]["UnauthorizedError"];
+            403: components["responses"]["ForbiddenError"];
+        };
+    };
     getSavedSearches: {
         parameters: {
             query?: never;
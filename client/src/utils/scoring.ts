@@ -0,0 +1,32 @@
+import type { SearchResult } from '../components/weather/types';
+
+// Breakdown categories in display order (only filtered categories are shown)
+export const BREAKDOWN_LABELS: Array<{ key: keyof SearchResult['scoreBreakdown']; label: string }> =
+  [
+    { key: 'tempHigh', label: 'Avg high' },
+    { key: 'tempLow', label: 'Avg low' },
+    { key: 'feelsLike', label: 'Feels like' },
+    { key: 'dewPoint', label: 'Dew point' },
+    { key: 'humidity', label: 'Humidity' },
+    { key: 'wind', label: 'Wind' },
+    { key: 'precipitation', label: 'Precipitation' },
+    { key: 'aqi', label: 'Air quality' },
+    { key: 'coldNightHours', label: 'Cold night hours' },
+    { key: 'windyDaylightHours', label: 'Windy daylight hours' },
+    { key: 'dryDaytimeHours', label: 'Dry daytime hours' },
+  ];
+
+// Score to color mapping (red -> yellow -> green)
+export function getScoreColor(score: number): string {
+  if (score >= 80) return '#22c55e'; // green-500
+  if (score >= 60) return '#84cc16'; // lime-500
+  if (score >= 40) return '#eab308'; // yellow-500
+  if (score >= 20) return '#f97316'; // orange-500
+  return '#ef4444'; // red-500
+}
+
+// "82%", "74°F", "18 mph", "AQI 120"
+export function formatValue(value: number, unit: string): string {
+  if (unit === 'AQI') return `AQI ${value}`;
+  return unit === '%' || unit.startsWith('°') ? `${value}${unit}` : `${value} ${unit}`;
+}
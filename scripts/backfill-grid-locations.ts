@@ -0,0 +1,32 @@
+/**
+ * Populate the PostGIS location column on grid_points from latitude/longitude.
+ * Radius searches only consider points with a location, so run this once after
+ * `db:push` adds the column to an existing database. Safe to re-run.
+ *
+ * Usage: npx tsx scripts/backfill-grid-locations.ts
+ */
+
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+async function main() {
+  console.log('🌍 Backfilling grid point locations...');
+
+  const updated = await prisma.$executeRaw`
+    UPDATE grid_points
+    SET location = ST_SetSRID(ST_MakePoint(longitude, latitude), 4326)::geography
+    WHERE location IS NULL
+  `;
+
+  console.log(`✅ Set location on ${updated} grid points`);
+}
+
+main()
+  .catch(e => {
+    console.error('❌ Error:', e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
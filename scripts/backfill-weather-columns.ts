@@ -0,0 +1,49 @@
+/**
+ * Populate the typed weather columns on weather_cache rows cached before they
+ * were added, from each row's JSON data (and AQI from air_quality_cache).
+ * Searches only prefilter on rows with the columns set, so run this once after
+ * `db:push` adds them to an existing database. Safe to re-run.
+ *
+ * Usage: npx tsx scripts/backfill-weather-columns.ts
+ */
+
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+async function main() {
+  console.log('🌦️  Backfilling weather cache columns...');
+
+  const updated = await prisma.$executeRaw`
+    UPDATE weather_cache
+    SET temp_high = (data->>'tempHigh')::float,
+        temp_low = (data->>'tempLow')::float,
+        humidity = (data->>'humidity')::float,
+        wind_speed = (data->>'windSpeed')::float,
+        wind_gust = (data->>'windGust')::float,
+        precip_chance = (data->>'precipChance')::float,
+        precip_type = data->>'precipType',
+        precip_amount = (data->>'precipAmount')::float
+    WHERE temp_high IS NULL
+  `;
+
+  const withAqi = await prisma.$executeRaw`
+    UPDATE weather_cache w
+    SET aqi = a.aqi
+    FROM air_quality_cache a
+    WHERE a.grid_point_id = w.grid_point_id
+      AND a.date = w.date
+      AND w.aqi IS NULL
+  `;
+
+  console.log(`✅ Set weather columns on ${updated} rows and AQI on ${withAqi} rows`);
+}
+
+main()
+  .catch(e => {
+    console.error('❌ Error:', e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
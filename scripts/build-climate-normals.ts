@@ -0,0 +1,149 @@
+/**
+ * Build the climate_normals table: mean weather per grid point and day of year,
+ * averaged over the last N full years of Open-Meteo archive data. Searches read
+ * dates beyond the forecast window from this table instead of the archive API.
+ * The same archive data also fills climatology_cache for that span, so
+ * climatology-mode searches with the same number of years skip the API too.
+ *
+ * Usage: npx tsx scripts/build-climate-normals.ts [--years 10] [--region west] [--rebuild]
+ *
+ * One archive request per grid point, paced by the shared Open-Meteo rate limiter.
+ * Points that already have normals are skipped, so the script can be safely
+ * interrupted and resumed; --rebuild recomputes every point (e.g. after a new
+ * year or a different --years).
+ */
+
+import { PrismaClient, Prisma, GridRegion } from '@prisma/client';
+import { openMeteoProvider } from '../server/src/providers/openmeteo.provider.js';
+import { summarizeClimatology, summarizeNormals } from '../server/src/providers/climatology.js';
+
+const prisma = new PrismaClient();
+
+// Grid points loaded per database query
+const BATCH_SIZE = 50;
+
+const DEFAULT_YEARS = 10;
+
+/**
+ * Value following a --flag on the command line
+ */
+function argValue(flag: string): string | undefined {
+  const index = process.argv.indexOf(flag);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+}
+
+/**
+ * Fetch the archive for one grid point and replace its normals and climatology
+ */
+async function buildGridPoint(
+  point: { id: string; latitude: number; longitude: number },
+  years: number
+): Promise<void> {
+  const samples = await openMeteoProvider.getArchiveYears(point.latitude, point.longitude, years);
+  if (samples.length === 0) {
+    throw new Error('No archive data returned');
+  }
+
+  const normals = summarizeNormals(samples, years);
+  const climatology = summarizeClimatology(samples, years);
+
+  await prisma.$transaction([
+    prisma.climateNormal.deleteMany({ where: { gridPointId: point.id } }),
+    prisma.climateNormal.createMany({
+      data: normals.map(normal => ({ gridPointId: point.id, ...normal })),
+    }),
+    prisma.climatologyCache.deleteMany({ where: { gridPointId: point.id, years } }),
+    prisma.climatologyCache.createMany({
+      data: climatology.map(day => ({
+        gridPointId: point.id,
+        years,
+        dayOfYear: day.dayOfYear,
+        data: day as unknown as Prisma.InputJsonValue,
+      })),
+    }),
+  ]);
+}
+
+/**
+ * Main function to build climate normals
+ */
+async function main() {
+  const years = Number(argValue('--years') ?? DEFAULT_YEARS);
+  const region = argValue('--region') as GridRegion | undefined;
+  const rebuild = process.argv.includes('--rebuild');
+
+  if (!Number.isInteger(years) || years < 1 || years > 40) {
+    throw new Error('--years must be a whole number from 1 to 40');
+  }
+
+  if (region && !Object.values(GridRegion).includes(region)) {
+    throw new Error(`--region must be one of: ${Object.values(GridRegion).join(', ')}`);
+  }
+
+  const where: Prisma.GridPointWhereInput = {
+    ...(region && { region }),
+    ...(!rebuild && { climateNormals: { none: {} } }),
+  };
+
+  const total = await prisma.gridPoint.count({ where });
+  console.log(`🌡️  Building ${years}-year climate normals for ${total} grid points${region ? ` in ${region}` : ''}...\n`);
+
+  if (total === 0) {
+    console.log('✅ Every grid point already has climate normals (use --rebuild to recompute)');
+    return;
+  }
+
+  let processed = 0;
+  let built = 0;
+  let errors = 0;
+  let cursor: string | undefined;
+  const startedAt = Date.now();
+
+  while (true) {
+    // Page by id so failed points are skipped for the rest of this run
+    const points = await prisma.gridPoint.findMany({
+      where: { ...where, ...(cursor && { id: { gt: cursor } }) },
+      select: { id: true, latitude: true, longitude: true, state: true },
+      orderBy: { id: 'asc' },
+      take: BATCH_SIZE,
+    });
+
+    if (points.length === 0) {
+      break;
+    }
+
+    for (const point of points) {
+      try {
+        await buildGridPoint(point, years);
+        built++;
+      } catch (error) {
+        errors++;
+        console.error(`  ✗ ${point.state} (${point.latitude}, ${point.longitude}):`, error);
+      }
+
+      processed++;
+    }
+
+    cursor = points[points.length - 1].id;
+
+    const perPointMs = (Date.now() - startedAt) / processed;
+    const remainingMin = Math.ceil(((total - processed) * perPointMs) / 1000 / 60);
+    console.log(
+      `📈 Progress: ${processed}/${total} (${Math.round((processed / total) * 100)}%) - ~${remainingMin} min remaining`
+    );
+  }
+
+  console.log('\n' + '='.repeat(50));
+  console.log('✅ Climate normals complete!');
+  console.log(`📊 Built: ${built}`);
+  console.log(`📊 Errors: ${errors}${errors > 0 ? ' (re-run to retry them)' : ''}`);
+}
+
+main()
+  .catch(e => {
+    console.error('❌ Error building climate normals:', e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
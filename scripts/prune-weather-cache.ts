@@ -0,0 +1,54 @@
+/**
+ * Apply the weather cache retention policy:
+ * - forecasts for past dates are dropped once historical data exists for them
+ * - historical, air quality and hourly weather rows fetched more than
+ *   --retention-days ago are dropped (they stop being served after 7 days, so
+ *   older rows only take up space)
+ * - climatology fetched before this year is dropped (it's refetched once the
+ *   archive span gains a year)
+ * - forecast snapshots (for accuracy tracking) are dropped a year after their date
+ *
+ * Usage: npx tsx scripts/prune-weather-cache.ts [--retention-days 30]
+ *
+ * Run it daily, e.g. from cron. Deleted rows are simply refetched if a search
+ * needs them again.
+ */
+
+import {
+  cacheMaintenanceService,
+  DEFAULT_HISTORICAL_RETENTION_DAYS,
+} from '../server/src/services/cache-maintenance.service.js';
+
+/**
+ * Value following a --flag on the command line
+ */
+function argValue(flag: string): string | undefined {
+  const index = process.argv.indexOf(flag);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+}
+
+/**
+ * Main function to prune the weather cache
+ */
+async function main() {
+  const retentionDays = Number(argValue('--retention-days') ?? DEFAULT_HISTORICAL_RETENTION_DAYS);
+
+  console.log(`🧹 Pruning weather cache (keeping historical rows for ${retentionDays} days)...\n`);
+
+  const result = await cacheMaintenanceService.prune(retentionDays);
+
+  console.log('✅ Weather cache pruned!');
+  console.log(`📊 Superseded forecasts removed: ${result.supersededForecasts}`);
+  console.log(`📊 Expired historical rows removed: ${result.expiredHistorical}`);
+  console.log(`📊 Expired air quality rows removed: ${result.expiredAirQuality}`);
+  console.log(`📊 Expired hourly weather rows removed: ${result.expiredHourly}`);
+  console.log(`📊 Expired climatology rows removed: ${result.expiredClimatology}`);
+  console.log(`📊 Expired forecast snapshots removed: ${result.expiredSnapshots}`);
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch(e => {
+    console.error('❌ Error pruning weather cache:', e);
+    process.exit(1);
+  });
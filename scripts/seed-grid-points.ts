@@ -264,7 +264,15 @@ async function main() {
     process.stdout.write(`\r   Progress: ${inserted}/${points.length} (${progress}%)`);
   }
 
-  console.log('\n\n✅ Grid points seeded successfully!');
+  // Populate the PostGIS point used by radius searches
+  console.log('\n\n📐 Setting grid point locations...');
+  await prisma.$executeRaw`
+    UPDATE grid_points
+    SET location = ST_SetSRID(ST_MakePoint(longitude, latitude), 4326)::geography
+    WHERE location IS NULL
+  `;
+
+  console.log('\n✅ Grid points seeded successfully!');
 
   // Verify count
   const count = await prisma.gridPoint.count();
@@ -0,0 +1,39 @@
+/**
+ * Verify forecast snapshots against recorded weather. Snapshots for dates at
+ * least 5 days past (the Open-Meteo archive lags behind) get the observed
+ * temperatures and precipitation, which feed the per-region, per-lead-time
+ * stats at GET /api/weather/forecast-accuracy and the confidence of forecast
+ * days in search.
+ *
+ * Usage: npx tsx scripts/verify-forecasts.ts
+ *
+ * Run it daily, e.g. from cron. Dates the archive doesn't cover yet are
+ * retried on the next run.
+ */
+
+import { forecastAccuracyService } from '../server/src/services/forecast-accuracy.service.js';
+
+/**
+ * Main function to verify forecast snapshots
+ */
+async function main() {
+  console.log('🔍 Verifying forecast snapshots against recorded weather...\n');
+
+  const result = await forecastAccuracyService.verify(progress => {
+    console.log(
+      `📈 Progress: ${progress.pointsChecked} grid points, ${progress.snapshotsVerified} snapshots verified`
+    );
+  });
+
+  console.log('\n' + '='.repeat(50));
+  console.log('✅ Forecast verification complete!');
+  console.log(`📊 Grid points checked: ${result.pointsChecked}`);
+  console.log(`📊 Snapshots verified: ${result.snapshotsVerified}`);
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch(e => {
+    console.error('❌ Error verifying forecasts:', e);
+    process.exit(1);
+  });
@@ -0,0 +1,94 @@
+/**
+ * Keep the forecast cache warm for every grid point, so the first search of the
+ * day doesn't wait on provider requests. Forecasts that would expire before the
+ * next run are refetched, using multi-location Open-Meteo requests paced by the
+ * shared rate limiter. A run that can't finish within --interval fails rather
+ * than overlap the next one. Progress and the last run's outcome are reported by
+ * GET /api/weather/cache-warmer.
+ *
+ * Usage: npx tsx scripts/warm-forecast-cache.ts [--interval 3] [--regions west,southwest] [--watch]
+ *
+ * Regions are warmed in --regions order first, then the most-searched regions.
+ * Without --watch the script does one run and exits (e.g. from cron every
+ * --interval hours); with --watch it starts a new run every --interval hours.
+ */
+
+import { GridRegion } from '@prisma/client';
+import {
+  cacheWarmerService,
+  DEFAULT_WARM_INTERVAL_HOURS,
+} from '../server/src/services/cache-warmer.service.js';
+
+/**
+ * Value following a --flag on the command line
+ */
+function argValue(flag: string): string | undefined {
+  const index = process.argv.indexOf(flag);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+}
+
+/**
+ * One warmer run, logging progress
+ */
+async function warm(intervalHours: number, regions: GridRegion[]): Promise<void> {
+  console.log(`🔥 Warming forecast cache${regions.length > 0 ? ` (${regions.join(', ')} first)` : ''}...\n`);
+
+  let lastLoggedPercent = -1;
+  const run = await cacheWarmerService.run({
+    intervalHours,
+    regions,
+    onProgress: progress => {
+      const percent = Math.floor((progress.pointsChecked / Math.max(1, progress.pointsPlanned)) * 100);
+      if (percent === lastLoggedPercent) return;
+      lastLoggedPercent = percent;
+      console.log(
+        `📈 Progress: ${progress.pointsChecked}/${progress.pointsPlanned} (${percent}%) - ${progress.pointsRefreshed} refreshed`
+      );
+    },
+  });
+
+  console.log('\n' + '='.repeat(50));
+  if (run.status === 'failed') {
+    console.log(`❌ Cache warmer failed: ${run.error}`);
+  } else {
+    console.log('✅ Cache warmer complete!');
+  }
+  console.log(`📊 Checked: ${run.pointsChecked}`);
+  console.log(`📊 Refreshed: ${run.pointsRefreshed}`);
+  console.log(`📊 Failed batches: ${run.errors}`);
+}
+
+/**
+ * Main function to warm the forecast cache
+ */
+async function main() {
+  const intervalHours = Number(argValue('--interval') ?? DEFAULT_WARM_INTERVAL_HOURS);
+  const regions = (argValue('--regions')?.split(',') ?? []) as GridRegion[];
+  const watch = process.argv.includes('--watch');
+
+  const unknown = regions.filter(region => !Object.values(GridRegion).includes(region));
+  if (unknown.length > 0) {
+    throw new Error(`--regions must be from: ${Object.values(GridRegion).join(', ')}`);
+  }
+
+  if (!watch) {
+    await warm(intervalHours, regions);
+    return;
+  }
+
+  while (true) {
+    const startedAt = Date.now();
+    await warm(intervalHours, regions);
+
+    const waitMs = Math.max(0, startedAt + intervalHours * 60 * 60 * 1000 - Date.now());
+    console.log(`\n⏳ Next run in ${Math.round(waitMs / 60000)} min\n`);
+    await new Promise(resolve => setTimeout(resolve, waitMs));
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch(e => {
+    console.error('❌ Error warming forecast cache:', e);
+    process.exit(1);
+  });
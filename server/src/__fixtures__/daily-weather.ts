@@ -0,0 +1,44 @@
+import type { DailyWeather, GridPointSummary } from '../types/weather.js';
+
+/**
+ * A mild, dry forecast day for tests, with any fields overridden
+ */
+export function dailyWeather(date: string, overrides: Partial<DailyWeather> = {}): DailyWeather {
+  return {
+    date,
+    tempHigh: 70,
+    tempLow: 50,
+    apparentTempHigh: null,
+    apparentTempLow: null,
+    dewPoint: null,
+    humidity: 40,
+    windSpeed: 5,
+    windGust: null,
+    precipChance: 0,
+    precipType: 'none',
+    precipAmount: 0,
+    uvIndex: null,
+    cloudCover: null,
+    sunrise: null,
+    sunset: null,
+    aqi: null,
+    aqiCategory: null,
+    hourlyMetrics: null,
+    climatology: null,
+    provider: 'open-meteo',
+    dataType: 'forecast',
+    ...overrides,
+  };
+}
+
+/**
+ * A grid point near Moab, UT for tests
+ */
+export const MOAB_GRID_POINT: GridPointSummary = {
+  id: '00000000-0000-4000-8000-000000000001',
+  latitude: 38.5733,
+  longitude: -109.5498,
+  nearestCity: 'Moab',
+  state: 'UT',
+  region: 'southwest',
+};
@@ -0,0 +1,57 @@
+import { vi, type Mock } from 'vitest';
+
+type FakeModel = Record<string, Mock>;
+
+/**
+ * Stand-in for PrismaClient in service tests. Every model method (and
+ * $queryRaw) resolves to [] and $executeRaw to 0 until a test sets it;
+ * $transaction runs the operations it's given. Every client shares the same
+ * models, so tests can set and inspect them through `fakePrisma`.
+ */
+export type FakePrisma = { [model: string]: FakeModel } & {
+  $transaction: Mock;
+  $queryRaw: Mock;
+  $executeRaw: Mock;
+};
+
+let models = new Map<string, FakeModel>();
+
+function fakeModel(): FakeModel {
+  return new Proxy({} as FakeModel, {
+    get: (methods, name: string) => (methods[name] ??= vi.fn(async () => [])),
+  });
+}
+
+export const fakePrisma = new Proxy({} as FakePrisma, {
+  get: (_target, name: string) => {
+    if (!models.has(name)) {
+      models.set(
+        name,
+        name === '$transaction'
+          ? (vi.fn(async (operations: unknown[]) => Promise.all(operations)) as never)
+          : name === '$queryRaw'
+            ? (vi.fn(async () => []) as never)
+            : name === '$executeRaw'
+              ? (vi.fn(async () => 0) as never)
+              : fakeModel()
+      );
+    }
+    return models.get(name);
+  },
+});
+
+/**
+ * Forget every stubbed method and recorded call
+ */
+export function resetFakePrisma(): void {
+  models = new Map();
+}
+
+/**
+ * PrismaClient replacement for vi.mock('@prisma/client')
+ */
+export class FakePrismaClient {
+  constructor() {
+    return fakePrisma;
+  }
+}
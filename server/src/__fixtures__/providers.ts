@@ -0,0 +1,40 @@
+import type { DailyWeather, WeatherLocation, WeatherProvider } from '../types/weather.js';
+import { dailyWeather } from './daily-weather.js';
+
+/**
+ * Weather provider for tests that covers every date, recording the calls it's given
+ */
+export class RecordingWeatherProvider implements WeatherProvider {
+  name: string;
+  calls: Array<{ locations: WeatherLocation[]; startDate: string; endDate: string }> = [];
+
+  constructor(name = 'open-meteo') {
+    this.name = name;
+  }
+
+  async getWeather(lat: number, lon: number, startDate: string, endDate: string) {
+    const [days] = await this.getWeatherBatch(
+      [{ latitude: lat, longitude: lon }],
+      startDate,
+      endDate
+    );
+    return days;
+  }
+
+  async getWeatherBatch(
+    locations: WeatherLocation[],
+    startDate: string,
+    endDate: string
+  ): Promise<DailyWeather[][]> {
+    this.calls.push({ locations, startDate, endDate });
+    const dates: string[] = [];
+    for (let d = new Date(startDate); d <= new Date(endDate); d.setUTCDate(d.getUTCDate() + 1)) {
+      dates.push(d.toISOString().split('T')[0]);
+    }
+    return locations.map(() => dates.map(date => dailyWeather(date, { provider: this.name })));
+  }
+
+  supportsDateRange(): boolean {
+    return true;
+  }
+}
@@ -13,6 +13,7 @@ interface SupabaseJwtPayload {
   app_metadata: {
     provider?: string;
     providers?: string[];
+    role?: string; // Set server-side in Supabase; 'admin' grants the admin endpoints
   };
   user_metadata: Record<string, unknown>;
   role: string;
@@ -28,6 +29,7 @@ declare global {
       user?: {
         id: string;
         email?: string;
+        isAdmin: boolean;
       };
     }
   }
@@ -96,6 +98,7 @@ export function requireAuth(req: Request, res: Response, next: NextFunction): vo
     req.user = {
       id: decoded.sub,
       email: decoded.email,
+      isAdmin: decoded.app_metadata?.role === 'admin',
     };
 
     next();
@@ -132,6 +135,26 @@ export function requireAuth(req: Request, res: Response, next: NextFunction): vo
   }
 }
 
+/**
+ * Middleware restricting a route to admins. Use after requireAuth.
+ * Admins have `app_metadata.role` set to 'admin' in Supabase, which users can't
+ * change themselves. Returns 403 for everyone else.
+ */
+export function requireAdmin(req: Request, res: Response, next: NextFunction): void {
+  if (!req.user?.isAdmin) {
+    res.status(403).json({
+      success: false,
+      error: {
+        code: 'FORBIDDEN',
+        message: 'Admin access is required',
+      },
+    });
+    return;
+  }
+
+  next();
+}
+
 /**
  * Optional authentication middleware.
  * Sets req.user if a valid token is provided, but doesn't require it.
@@ -157,6 +180,7 @@ export function optionalAuth(req: Request, _res: Response, next: NextFunction):
       req.user = {
         id: decoded.sub,
         email: decoded.email,
+        isAdmin: decoded.app_metadata?.role === 'admin',
       };
     }
   } catch {
@@ -0,0 +1,114 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  getAqiCategory,
+  OpenMeteoAirQualityProvider,
+  StubAirQualityProvider,
+} from './airquality.provider.js';
+
+describe('getAqiCategory', () => {
+  it('maps AQI values to EPA categories at the band edges', () => {
+    expect(getAqiCategory(50)).toBe('Good');
+    expect(getAqiCategory(51)).toBe('Moderate');
+    expect(getAqiCategory(150)).toBe('Unhealthy for Sensitive Groups');
+    expect(getAqiCategory(200)).toBe('Unhealthy');
+    expect(getAqiCategory(300)).toBe('Very Unhealthy');
+    expect(getAqiCategory(301)).toBe('Hazardous');
+  });
+});
+
+describe('StubAirQualityProvider', () => {
+  it('returns its fixed AQI for every date in the range', async () => {
+    const provider = new StubAirQualityProvider(120);
+
+    const days = await provider.getAirQuality(38.57, -109.55, '2025-03-30', '2025-04-01');
+
+    expect(days).toEqual([
+      { date: '2025-03-30', aqi: 120, aqiCategory: 'Unhealthy for Sensitive Groups' },
+      { date: '2025-03-31', aqi: 120, aqiCategory: 'Unhealthy for Sensitive Groups' },
+      { date: '2025-04-01', aqi: 120, aqiCategory: 'Unhealthy for Sensitive Groups' },
+    ]);
+  });
+});
+
+describe('OpenMeteoAirQualityProvider', () => {
+  const provider = new OpenMeteoAirQualityProvider();
+
+  beforeEach(() => {
+    // The shared rate limiter spaces requests out with setTimeout
+    vi.useFakeTimers({ toFake: ['Date', 'setTimeout'] });
+    vi.setSystemTime(new Date('2025-03-01T15:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    vi.unstubAllEnvs();
+  });
+
+  const getAirQuality = async (startDate: string, endDate: string) => {
+    const pending = provider.getAirQuality(38.57, -109.55, startDate, endDate);
+    await vi.runAllTimersAsync();
+    return pending;
+  };
+
+  it('reports the daily maximum of the hourly AQI, skipping missing hours', async () => {
+    const fetch = vi.fn(
+      async () =>
+        new Response(
+          JSON.stringify({
+            latitude: 38.57,
+            longitude: -109.55,
+            hourly: {
+              time: [
+                '2025-03-01T00:00',
+                '2025-03-01T13:00',
+                '2025-03-02T09:00',
+                '2025-03-02T10:00',
+              ],
+              us_aqi: [22, 61.6, null, 48],
+            },
+          })
+        )
+    );
+    vi.stubGlobal('fetch', fetch);
+
+    const days = await getAirQuality('2025-03-01', '2025-03-02');
+
+    expect(days).toEqual([
+      { date: '2025-03-01', aqi: 62, aqiCategory: 'Moderate' },
+      { date: '2025-03-02', aqi: 48, aqiCategory: 'Good' },
+    ]);
+  });
+
+  it('clamps requests to the 7-day forecast window', async () => {
+    const fetch = vi.fn(
+      async (_url: string) =>
+        new Response(
+          JSON.stringify({ latitude: 0, longitude: 0, hourly: { time: [], us_aqi: [] } })
+        )
+    );
+    vi.stubGlobal('fetch', fetch);
+
+    await getAirQuality('2025-03-05', '2025-03-20');
+    expect(new URL(fetch.mock.calls[0][0]).searchParams.get('end_date')).toBe('2025-03-07');
+
+    expect(await getAirQuality('2025-03-10', '2025-03-20')).toEqual([]);
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('clamps to the same day west of UTC, where the local date is a day behind', async () => {
+    vi.stubEnv('TZ', 'America/Denver');
+    vi.setSystemTime(new Date('2025-03-01T03:00:00Z')); // Feb 28, 8pm in Denver
+    const fetch = vi.fn(
+      async (_url: string) =>
+        new Response(
+          JSON.stringify({ latitude: 0, longitude: 0, hourly: { time: [], us_aqi: [] } })
+        )
+    );
+    vi.stubGlobal('fetch', fetch);
+
+    await getAirQuality('2025-03-01', '2025-03-20');
+
+    expect(new URL(fetch.mock.calls[0][0]).searchParams.get('end_date')).toBe('2025-03-07');
+  });
+});
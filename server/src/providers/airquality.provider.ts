@@ -0,0 +1,148 @@
+import type { AirQualityProvider, AqiCategory, DailyAirQuality } from '../types/weather.js';
+import { fetchWithRetry } from './http.js';
+import { openMeteoRateLimiter } from './openmeteo.provider.js';
+
+/**
+ * Open-Meteo air quality API response types
+ */
+interface OpenMeteoAirQualityResponse {
+  latitude: number;
+  longitude: number;
+  hourly: {
+    time: string[]; // Local time, e.g. "2025-03-01T14:00"
+    us_aqi: Array<number | null>;
+  };
+}
+
+/**
+ * Map a US EPA AQI value to its category
+ * https://www.airnow.gov/aqi/aqi-basics/
+ */
+export function getAqiCategory(aqi: number): AqiCategory {
+  if (aqi <= 50) return 'Good';
+  if (aqi <= 100) return 'Moderate';
+  if (aqi <= 150) return 'Unhealthy for Sensitive Groups';
+  if (aqi <= 200) return 'Unhealthy';
+  if (aqi <= 300) return 'Very Unhealthy';
+  return 'Hazardous';
+}
+
+/**
+ * Open-Meteo air quality provider
+ * Shares the Open-Meteo rate limiter; forecast covers ~7 days, history back to 2022
+ */
+export class OpenMeteoAirQualityProvider implements AirQualityProvider {
+  name = 'open-meteo-air-quality';
+
+  private readonly airQualityUrl = 'https://air-quality-api.open-meteo.com/v1/air-quality';
+
+  /**
+   * Maximum days ahead for air quality forecast data
+   */
+  private readonly maxForecastDays = 7;
+
+  async getAirQuality(
+    lat: number,
+    lon: number,
+    startDate: string,
+    endDate: string
+  ): Promise<DailyAirQuality[]> {
+    // Whole UTC days, to match formatDate
+    const today = new Date();
+    today.setUTCHours(0, 0, 0, 0);
+    const forecastEnd = new Date(today);
+    forecastEnd.setUTCDate(forecastEnd.getUTCDate() + this.maxForecastDays - 1);
+
+    // The API rejects dates past its forecast window, so clamp and leave the rest empty
+    const clampedEnd = endDate < this.formatDate(forecastEnd) ? endDate : this.formatDate(forecastEnd);
+    if (startDate > clampedEnd) {
+      return [];
+    }
+
+    const params = new URLSearchParams({
+      latitude: lat.toString(),
+      longitude: lon.toString(),
+      start_date: startDate,
+      end_date: clampedEnd,
+      hourly: 'us_aqi',
+      timezone: 'auto',
+    });
+
+    const response = await fetchWithRetry(`${this.airQualityUrl}?${params}`, openMeteoRateLimiter);
+
+    if (!response.ok) {
+      throw new Error(`Open-Meteo air quality API error: ${response.status} ${response.statusText}`);
+    }
+
+    const data = (await response.json()) as OpenMeteoAirQualityResponse;
+    return this.parseResponse(data);
+  }
+
+  /**
+   * Reduce hourly AQI to a daily maximum, matching how EPA reports daily AQI
+   */
+  private parseResponse(data: OpenMeteoAirQualityResponse): DailyAirQuality[] {
+    const dailyMax = new Map<string, number>();
+
+    for (let i = 0; i < data.hourly.time.length; i++) {
+      const aqi = data.hourly.us_aqi[i];
+      if (aqi === null || aqi === undefined) continue;
+
+      const date = data.hourly.time[i].split('T')[0];
+      dailyMax.set(date, Math.max(dailyMax.get(date) ?? 0, aqi));
+    }
+
+    return Array.from(dailyMax.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([date, max]) => {
+        const aqi = Math.round(max);
+        return { date, aqi, aqiCategory: getAqiCategory(aqi) };
+      });
+  }
+
+  private formatDate(date: Date): string {
+    return date.toISOString().split('T')[0];
+  }
+}
+
+/**
+ * Local stub provider - returns a fixed AQI for every date without any network calls.
+ * Used for tests and offline development (AIR_QUALITY_PROVIDER=stub).
+ */
+export class StubAirQualityProvider implements AirQualityProvider {
+  name = 'stub-air-quality';
+
+  private readonly aqi: number;
+
+  constructor(aqi: number = 35) {
+    this.aqi = aqi;
+  }
+
+  async getAirQuality(
+    _lat: number,
+    _lon: number,
+    startDate: string,
+    endDate: string
+  ): Promise<DailyAirQuality[]> {
+    const results: DailyAirQuality[] = [];
+    const current = new Date(startDate);
+    const end = new Date(endDate);
+
+    while (current <= end) {
+      results.push({
+        date: current.toISOString().split('T')[0],
+        aqi: this.aqi,
+        aqiCategory: getAqiCategory(this.aqi),
+      });
+      current.setUTCDate(current.getUTCDate() + 1);
+    }
+
+    return results;
+  }
+}
+
+// Export singleton instance
+export const airQualityProvider: AirQualityProvider =
+  process.env.AIR_QUALITY_PROVIDER === 'stub'
+    ? new StubAirQualityProvider()
+    : new OpenMeteoAirQualityProvider();
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { dailyWeather } from '../__fixtures__/daily-weather.js';
+import { chanceWithin, summarizeClimatology } from './climatology.js';
+
+describe('chanceWithin', () => {
+  // Tails run out to 57.5 (0) and 82.5 (1)
+  const highs = { p10: 60, p50: 70, p90: 80 };
+
+  it('interpolates between percentiles', () => {
+    expect(chanceWithin(highs, undefined, 70)).toBeCloseTo(0.5);
+    expect(chanceWithin(highs, undefined, 65)).toBeCloseTo(0.3);
+    expect(chanceWithin(highs, 60, 80)).toBeCloseTo(0.8);
+    expect(chanceWithin(highs, 75, undefined)).toBeCloseTo(0.3);
+  });
+
+  it('runs the tails out to 0 and 1', () => {
+    expect(chanceWithin(highs, undefined, 57.5)).toBe(0);
+    expect(chanceWithin(highs, undefined, 58.75)).toBeCloseTo(0.05);
+    expect(chanceWithin(highs, undefined, 82.5)).toBe(1);
+    expect(chanceWithin(highs, 82.5, undefined)).toBe(0);
+    expect(chanceWithin(highs, undefined, undefined)).toBe(1);
+  });
+
+  it('never goes negative for an empty range', () => {
+    expect(chanceWithin(highs, 75, 65)).toBe(0);
+  });
+
+  it('treats percentiles that are all the same as a certain value', () => {
+    const calm = { p10: 0, p50: 0, p90: 0 };
+
+    expect(chanceWithin(calm, undefined, 0)).toBe(1);
+    expect(chanceWithin(calm, undefined, -1)).toBe(0);
+  });
+});
+
+describe('summarizeClimatology', () => {
+  it('summarizes nothing without samples', () => {
+    expect(summarizeClimatology([], 10)).toEqual([]);
+  });
+
+  it('summarizes each day from the days around it in every year', () => {
+    // Mar 10 in five years, one of them a leap year; 2023 is missing from the archive
+    const samples = [
+      dailyWeather('2019-03-10', { tempHigh: 60, precipAmount: 0 }),
+      dailyWeather('2020-03-10', { tempHigh: 65, precipAmount: 0.01 }),
+      dailyWeather('2021-03-10', { tempHigh: 70, precipAmount: 0.005 }),
+      dailyWeather('2022-03-10', { tempHigh: 75, precipAmount: 0.2 }),
+      dailyWeather('2024-03-10', { tempHigh: 80, precipAmount: 0 }),
+    ];
+
+    const days = summarizeClimatology(samples, 6);
+
+    // Only days of the year within 3 days of Mar 10 (day 69) have samples
+    expect(days.map(day => day.dayOfYear)).toEqual([66, 67, 68, 69, 70, 71, 72]);
+    expect(days[3]).toEqual({
+      dayOfYear: 69,
+      years: 6,
+      tempHigh: { p10: 62, p50: 70, p90: 78 },
+      tempLow: { p10: 50, p50: 50, p90: 50 },
+      windSpeed: { p10: 5, p50: 5, p90: 5 },
+      precipAmount: { p10: 0, p50: 0.01, p90: 0.12 }, // Rounded to hundredths
+      // 0.01" is measurable, 0.005" isn't
+      precipChance: 40,
+    });
+  });
+
+  it('wraps the sample window around the new year, counting Feb 29 as Feb 28', () => {
+    const samples = [dailyWeather('2025-01-01'), dailyWeather('2024-02-29', { tempHigh: 40 })];
+
+    const days = summarizeClimatology(samples, 1);
+
+    expect(days.map(day => day.dayOfYear)).toEqual([
+      1, 2, 3, 4, 56, 57, 58, 59, 60, 61, 62, 363, 364, 365,
+    ]);
+    expect(days.find(day => day.dayOfYear === 59)?.tempHigh.p50).toBe(40);
+  });
+});
@@ -0,0 +1,193 @@
+import type { ClimateNormal, DailyClimatology, DailyWeather, Percentiles } from '../types/weather.js';
+
+/**
+ * Helpers for summarizing archive years into day-of-year climatology and normals.
+ * Each day of the year is summarized from the surrounding days in every year,
+ * which smooths out single-year noise without blurring the seasons.
+ */
+
+/**
+ * Days either side of a day of the year that count towards its summary
+ */
+const SAMPLE_WINDOW_DAYS = 3;
+
+/**
+ * Smallest daily precipitation counted as a wet day (inches)
+ */
+const MEASURABLE_PRECIP_INCHES = 0.01;
+
+/**
+ * Recorded values a climatology or normal is built from
+ */
+export type ClimatologySample = Pick<
+  DailyWeather,
+  | 'date'
+  | 'tempHigh'
+  | 'tempLow'
+  | 'apparentTempHigh'
+  | 'apparentTempLow'
+  | 'dewPoint'
+  | 'humidity'
+  | 'windSpeed'
+  | 'precipAmount'
+  | 'precipType'
+>;
+
+/**
+ * Day of the year (1-365) for a YYYY-MM-DD date, ignoring leap days so the same
+ * calendar date always maps to the same day (Feb 29 shares Feb 28)
+ */
+export function dayOfYear(date: string): number {
+  const [, month, day] = date.split('-').map(Number);
+  const start = Date.UTC(2001, 0, 1); // Any non-leap year
+  const target = Date.UTC(2001, month - 1, month === 2 && day === 29 ? 28 : day);
+  return Math.round((target - start) / 86400000) + 1;
+}
+
+/**
+ * 10th, 50th and 90th percentile of a set of values (linear interpolation)
+ */
+export function percentiles(values: number[]): Percentiles {
+  const sorted = [...values].sort((a, b) => a - b);
+  const at = (fraction: number) => {
+    const position = fraction * (sorted.length - 1);
+    const lower = Math.floor(position);
+    const upper = Math.ceil(position);
+    const value = sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+    return Math.round(value * 100) / 100;
+  };
+
+  return { p10: at(0.1), p50: at(0.5), p90: at(0.9) };
+}
+
+/**
+ * Chance (0-1) of a value falling between min and max, reading the
+ * distribution off its percentiles. Between percentiles it's interpolated
+ * linearly; the tails continue the outer slopes down to 0 and up to 1.
+ */
+export function chanceWithin(
+  values: Percentiles,
+  min: number | undefined,
+  max: number | undefined
+): number {
+  const { p10, p50, p90 } = values;
+  const points: Array<[number, number]> = [
+    [p10 - (p50 - p10) / 4, 0],
+    [p10, 0.1],
+    [p50, 0.5],
+    [p90, 0.9],
+    [p90 + (p90 - p50) / 4, 1],
+  ];
+
+  const cumulative = (x: number): number => {
+    if (x < points[0][0]) return 0;
+
+    for (let i = 1; i < points.length; i++) {
+      const [x0, y0] = points[i - 1];
+      const [x1, y1] = points[i];
+      if (x < x1) return y0 + ((x - x0) / (x1 - x0)) * (y1 - y0);
+    }
+
+    return 1;
+  };
+
+  const upper = max !== undefined ? cumulative(max) : 1;
+  const lower = min !== undefined ? cumulative(min) : 0;
+  return Math.max(0, upper - lower);
+}
+
+/**
+ * Summarize recorded days into percentiles for every day of the year.
+ * Days of the year without samples are omitted.
+ */
+export function summarizeClimatology(samples: ClimatologySample[], years: number): DailyClimatology[] {
+  return Array.from(windowsByDayOfYear(samples), ([day, window]) => ({
+    dayOfYear: day,
+    years,
+    tempHigh: percentiles(window.map(sample => sample.tempHigh)),
+    tempLow: percentiles(window.map(sample => sample.tempLow)),
+    windSpeed: percentiles(window.map(sample => sample.windSpeed)),
+    precipAmount: percentiles(window.map(sample => sample.precipAmount)),
+    precipChance: wetDayChance(window),
+  }));
+}
+
+/**
+ * Summarize recorded days into normals (means) for every day of the year.
+ * Days of the year without samples are omitted.
+ */
+export function summarizeNormals(samples: ClimatologySample[], years: number): ClimateNormal[] {
+  const mean = (values: number[]) =>
+    Math.round(values.reduce((sum, value) => sum + value, 0) / values.length);
+  const optionalMean = (values: Array<number | null>) => {
+    const present = values.filter((value): value is number => value !== null);
+    return present.length > 0 ? mean(present) : null;
+  };
+
+  return Array.from(windowsByDayOfYear(samples), ([day, window]) => {
+    const typeCounts = new Map<DailyWeather['precipType'], number>();
+    for (const sample of window) {
+      typeCounts.set(sample.precipType, (typeCounts.get(sample.precipType) ?? 0) + 1);
+    }
+    const [precipType] = Array.from(typeCounts).reduce((most, entry) => (entry[1] > most[1] ? entry : most));
+
+    return {
+      dayOfYear: day,
+      years,
+      tempHigh: mean(window.map(sample => sample.tempHigh)),
+      tempLow: mean(window.map(sample => sample.tempLow)),
+      apparentTempHigh: optionalMean(window.map(sample => sample.apparentTempHigh)),
+      apparentTempLow: optionalMean(window.map(sample => sample.apparentTempLow)),
+      dewPoint: optionalMean(window.map(sample => sample.dewPoint)),
+      humidity: mean(window.map(sample => sample.humidity)),
+      windSpeed: mean(window.map(sample => sample.windSpeed)),
+      precipChance: wetDayChance(window),
+      precipAmount:
+        Math.round(
+          (window.reduce((sum, sample) => sum + sample.precipAmount, 0) / window.length) * 100
+        ) / 100,
+      precipType,
+    };
+  });
+}
+
+/**
+ * Samples within SAMPLE_WINDOW_DAYS of each day of the year, across all years
+ */
+function windowsByDayOfYear(samples: ClimatologySample[]): Map<number, ClimatologySample[]> {
+  const byDay = new Map<number, ClimatologySample[]>();
+  for (const sample of samples) {
+    const day = dayOfYear(sample.date);
+    const existing = byDay.get(day);
+    if (existing) {
+      existing.push(sample);
+    } else {
+      byDay.set(day, [sample]);
+    }
+  }
+
+  const windows = new Map<number, ClimatologySample[]>();
+
+  for (let day = 1; day <= 365; day++) {
+    const window: ClimatologySample[] = [];
+    for (let offset = -SAMPLE_WINDOW_DAYS; offset <= SAMPLE_WINDOW_DAYS; offset++) {
+      // Wrap around the new year
+      const neighbour = ((day - 1 + offset + 365) % 365) + 1;
+      window.push(...(byDay.get(neighbour) ?? []));
+    }
+
+    if (window.length > 0) {
+      windows.set(day, window);
+    }
+  }
+
+  return windows;
+}
+
+/**
+ * Share of samples with measurable precipitation (0-100)
+ */
+function wetDayChance(samples: ClimatologySample[]): number {
+  const wetDays = samples.filter(sample => sample.precipAmount >= MEASURABLE_PRECIP_INCHES).length;
+  return Math.round((wetDays / samples.length) * 100);
+}
@@ -0,0 +1,99 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { WeatherProvider } from '../types/weather.js';
+import { RecordingWeatherProvider } from '../__fixtures__/providers.js';
+import { CompositeWeatherProvider } from './composite.provider.js';
+import { NwsProvider } from './nws.provider.js';
+import pointsFixture from './__fixtures__/nws-points.json';
+import gridpointFixture from './__fixtures__/nws-gridpoint.json';
+
+const MOAB = { latitude: 38.5733, longitude: -109.5498 };
+
+function stubNwsFetch(status = 200) {
+  vi.stubGlobal(
+    'fetch',
+    vi.fn(async (url: string) => {
+      if (status !== 200) {
+        return new Response('{}', { status, statusText: 'Service Unavailable' });
+      }
+      const body = url.includes('/points/') ? pointsFixture : gridpointFixture;
+      return new Response(JSON.stringify(body), { status: 200 });
+    })
+  );
+}
+
+describe('CompositeWeatherProvider', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2025-03-01T15:00:00Z'));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('fills the days NWS does not forecast from the next provider', async () => {
+    stubNwsFetch();
+    const fill = new RecordingWeatherProvider();
+    const chain = new CompositeWeatherProvider([new NwsProvider(), fill]);
+
+    const days = await chain.getWeather(MOAB.latitude, MOAB.longitude, '2025-03-01', '2025-03-04');
+
+    expect(days.map(d => [d.date, d.provider])).toEqual([
+      ['2025-03-01', 'nws'],
+      ['2025-03-02', 'nws'],
+      ['2025-03-03', 'open-meteo'], // Incomplete in the NWS gridpoint data
+      ['2025-03-04', 'open-meteo'],
+    ]);
+    // Only the missing span is requested from the fallback
+    expect(fill.calls.map(call => [call.startDate, call.endDate])).toEqual([
+      ['2025-03-03', '2025-03-04'],
+    ]);
+  });
+
+  it('falls back to the next provider for every date when NWS fails', async () => {
+    stubNwsFetch(503);
+    const fill = new RecordingWeatherProvider();
+    const chain = new CompositeWeatherProvider([new NwsProvider(), fill]);
+
+    const days = await chain.getWeather(MOAB.latitude, MOAB.longitude, '2025-03-01', '2025-03-03');
+
+    expect(days.map(d => d.provider)).toEqual(['open-meteo', 'open-meteo', 'open-meteo']);
+    expect(fill.calls.map(call => [call.startDate, call.endDate])).toEqual([
+      ['2025-03-01', '2025-03-03'],
+    ]);
+  });
+
+  it('falls back when a provider throws for the whole batch', async () => {
+    const failing: WeatherProvider = {
+      name: 'failing',
+      getWeather: async () => [],
+      getWeatherBatch: async () => {
+        throw new Error('upstream down');
+      },
+      supportsDateRange: () => true,
+    };
+    const fill = new RecordingWeatherProvider();
+    const chain = new CompositeWeatherProvider([failing, fill]);
+
+    const days = await chain.getWeatherBatch([MOAB, MOAB], '2025-03-01', '2025-03-02');
+
+    expect(days.map(location => location.map(d => d.provider))).toEqual([
+      ['open-meteo', 'open-meteo'],
+      ['open-meteo', 'open-meteo'],
+    ]);
+  });
+
+  it('groups locations missing the same span into one fallback call', async () => {
+    const fill = new RecordingWeatherProvider();
+    const chain = new CompositeWeatherProvider([fill]);
+    const locations = [MOAB, { latitude: 39.1, longitude: -108.5 }];
+
+    await chain.getWeatherBatch(locations, '2025-03-01', '2025-03-03');
+
+    expect(fill.calls).toHaveLength(1);
+    expect(fill.calls[0].locations).toEqual(locations);
+  });
+});
@@ -0,0 +1,108 @@
+import type { WeatherProvider, DailyWeather, WeatherLocation } from '../types/weather.js';
+import { nwsProvider } from './nws.provider.js';
+import { openMeteoProvider } from './openmeteo.provider.js';
+
+/**
+ * Composite weather provider - tries providers in priority order.
+ * Each provider is asked only for the dates still missing, so a provider that
+ * fails or returns partial days has its gaps filled by the next one.
+ */
+export class CompositeWeatherProvider implements WeatherProvider {
+  name: string;
+
+  private readonly providers: WeatherProvider[];
+
+  constructor(providers: WeatherProvider[]) {
+    this.providers = providers;
+    this.name = providers.map(p => p.name).join('+');
+  }
+
+  async getWeather(
+    lat: number,
+    lon: number,
+    startDate: string,
+    endDate: string
+  ): Promise<DailyWeather[]> {
+    const [days] = await this.getWeatherBatch([{ latitude: lat, longitude: lon }], startDate, endDate);
+    return days;
+  }
+
+  /**
+   * Each provider gets one batch call per distinct span of missing dates, so
+   * locations missing the same days share upstream requests
+   */
+  async getWeatherBatch(
+    locations: WeatherLocation[],
+    startDate: string,
+    endDate: string
+  ): Promise<DailyWeather[][]> {
+    const wanted = this.datesInRange(startDate, endDate);
+    const byDate = locations.map(() => new Map<string, DailyWeather>());
+
+    for (const provider of this.providers) {
+      // Indexes of locations still missing days, keyed by the span they're missing
+      const spans = new Map<string, number[]>();
+      byDate.forEach((days, i) => {
+        const missing = wanted.filter(date => !days.has(date));
+        if (missing.length === 0) return;
+
+        const span = `${missing[0]}/${missing[missing.length - 1]}`;
+        spans.set(span, [...(spans.get(span) ?? []), i]);
+      });
+
+      if (spans.size === 0) break;
+
+      for (const [span, indexes] of spans) {
+        const [spanStart, spanEnd] = span.split('/');
+        if (!provider.supportsDateRange(spanStart, spanEnd)) continue;
+
+        try {
+          const results = await provider.getWeatherBatch(
+            indexes.map(i => locations[i]),
+            spanStart,
+            spanEnd
+          );
+
+          results.forEach((days, j) => {
+            const found = byDate[indexes[j]];
+            for (const day of days) {
+              if (!found.has(day.date) && wanted.includes(day.date)) {
+                found.set(day.date, { ...day, provider: day.provider ?? provider.name });
+              }
+            }
+          });
+        } catch (error) {
+          console.error(`Weather provider ${provider.name} failed, trying next provider:`, error);
+        }
+      }
+    }
+
+    return byDate.map(found => wanted.filter(date => found.has(date)).map(date => found.get(date)!));
+  }
+
+  supportsDateRange(startDate: string, endDate: string): boolean {
+    return this.providers.some(p => p.supportsDateRange(startDate, endDate));
+  }
+
+  private datesInRange(startDate: string, endDate: string): string[] {
+    const dates: string[] = [];
+    const current = new Date(startDate);
+    const end = new Date(endDate);
+
+    while (current <= end) {
+      dates.push(current.toISOString().split('T')[0]);
+      current.setUTCDate(current.getUTCDate() + 1);
+    }
+
+    return dates;
+  }
+}
+
+// Default chain for single-point lookups: NWS is the primary forecast source,
+// Open-Meteo covers everything NWS can't (days 8-16, historical dates, and NWS outages)
+export const weatherProviderChain = new CompositeWeatherProvider([nwsProvider, openMeteoProvider]);
+
+// Chain for multi-point lookups (searches, cache warming). NWS needs a request
+// per location plus a /points lookup at 2 req/s, so these go straight to
+// Open-Meteo's multi-location requests.
+export const bulkWeatherProviderChain = new CompositeWeatherProvider([openMeteoProvider]);
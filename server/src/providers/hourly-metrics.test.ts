@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import type { HourlyWeather } from '../types/weather.js';
+import { deriveHourlyMetrics } from './hourly-metrics.js';
+
+/**
+ * A mild, calm, dry day's hours, daylight from 7am to 6pm, with overrides by hour
+ */
+function day(overrides: Record<number, Partial<HourlyWeather>> = {}, hours = 24): HourlyWeather[] {
+  return Array.from({ length: hours }, (_, hour) => ({
+    time: `2025-03-01T${String(hour).padStart(2, '0')}:00`,
+    temp: 55,
+    windSpeed: 5,
+    precipAmount: 0,
+    cloudCover: null,
+    isDay: hour >= 7 && hour < 18,
+    ...overrides[hour],
+  }));
+}
+
+describe('deriveHourlyMetrics', () => {
+  it('counts cold night, windy daylight and dry daytime hours at the thresholds', () => {
+    const metrics = deriveHourlyMetrics(
+      day({
+        2: { temp: 39 },
+        3: { temp: 40 }, // Not below 40°F
+        7: { temp: 30 }, // Daylight, however cold
+        12: { windSpeed: 21 },
+        13: { windSpeed: 20 }, // Not over 20 mph
+        22: { windSpeed: 30 }, // Night, however windy
+        8: { precipAmount: 0.01 },
+        18: { precipAmount: 0.2 }, // After 6pm
+      })
+    );
+
+    expect(metrics).toEqual({ coldNightHours: 1, windyDaylightHours: 1, dryDaytimeHours: 9 });
+  });
+
+  it('leaves out partial days at the ends of a forecast', () => {
+    expect(deriveHourlyMetrics(day({}, 12))).toBeNull();
+    expect(deriveHourlyMetrics([])).toBeNull();
+  });
+
+  it('counts the short day of the spring daylight saving change', () => {
+    const hours = day().filter(hour => hour.time !== '2025-03-01T02:00');
+
+    expect(deriveHourlyMetrics(hours)).toEqual({
+      coldNightHours: 0,
+      windyDaylightHours: 0,
+      dryDaytimeHours: 10,
+    });
+  });
+});
@@ -0,0 +1,55 @@
+import type { HourlyMetrics, HourlyWeather } from '../types/weather.js';
+
+/**
+ * Helpers for deriving a day's metrics from its hourly weather. The thresholds
+ * are shared by the weather service, which derives the metrics, and scoring,
+ * which reports them.
+ */
+
+/**
+ * Night-time hours colder than this count as cold (°F)
+ */
+export const COLD_NIGHT_TEMP_F = 40;
+
+/**
+ * Daylight hours with wind over this count as windy (mph)
+ */
+export const WINDY_DAYLIGHT_MPH = 20;
+
+/**
+ * Local hours counted towards dry daytime: 8am up to (not including) 6pm
+ */
+export const DRY_DAYTIME_START_HOUR = 8;
+export const DRY_DAYTIME_END_HOUR = 18;
+
+/**
+ * Fewest hours a day needs for its metrics. Days at the ends of a forecast can
+ * have fewer, and counting only those would undercount; 23 allows for the
+ * spring daylight saving change.
+ */
+const MIN_HOURS_PER_DAY = 23;
+
+/**
+ * Summarize a day's hours into the metrics used by hourly filters, or null when
+ * too few of its hours are known
+ */
+export function deriveHourlyMetrics(hours: HourlyWeather[]): HourlyMetrics | null {
+  if (hours.length < MIN_HOURS_PER_DAY) {
+    return null;
+  }
+
+  const isDaytime = (hour: HourlyWeather) => {
+    const localHour = Number(hour.time.split('T')[1].slice(0, 2));
+    return localHour >= DRY_DAYTIME_START_HOUR && localHour < DRY_DAYTIME_END_HOUR;
+  };
+
+  const coldNight = hours.filter(hour => !hour.isDay && hour.temp < COLD_NIGHT_TEMP_F);
+  const windyDaylight = hours.filter(hour => hour.isDay && hour.windSpeed > WINDY_DAYLIGHT_MPH);
+  const dryDaytime = hours.filter(hour => isDaytime(hour) && hour.precipAmount === 0);
+
+  return {
+    coldNightHours: coldNight.length,
+    windyDaylightHours: windyDaylight.length,
+    dryDaytimeHours: dryDaytime.length,
+  };
+}
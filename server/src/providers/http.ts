@@ -0,0 +1,109 @@
+/**
+ * Shared HTTP helpers for weather providers
+ */
+
+/**
+ * Simple rate limiter to avoid 429 errors from upstream weather APIs
+ */
+export class RateLimiter {
+  private queue: Array<{ resolve: () => void; reject: (err: Error) => void }> = [];
+  private lastRequestTime = 0;
+  private activeRequests = 0;
+  private readonly minDelayMs: number;
+  private readonly maxConcurrent: number;
+
+  constructor(requestsPerSecond: number, maxConcurrent: number = 3) {
+    this.minDelayMs = Math.ceil(1000 / requestsPerSecond);
+    this.maxConcurrent = maxConcurrent;
+  }
+
+  async acquire(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.queue.push({ resolve, reject });
+      this.processQueue();
+    });
+  }
+
+  release(): void {
+    this.activeRequests--;
+    this.processQueue();
+  }
+
+  /**
+   * Shortest time the limiter can let this many requests through, in seconds
+   */
+  minimumSeconds(requests: number): number {
+    return (requests * this.minDelayMs) / 1000;
+  }
+
+  private processQueue(): void {
+    if (this.queue.length === 0 || this.activeRequests >= this.maxConcurrent) {
+      return;
+    }
+
+    const now = Date.now();
+    const timeSinceLastRequest = now - this.lastRequestTime;
+    const delay = Math.max(0, this.minDelayMs - timeSinceLastRequest);
+
+    setTimeout(() => {
+      if (this.queue.length === 0 || this.activeRequests >= this.maxConcurrent) {
+        return;
+      }
+
+      const item = this.queue.shift();
+      if (item) {
+        this.lastRequestTime = Date.now();
+        this.activeRequests++;
+        item.resolve();
+      }
+
+      // Continue processing if there are more items
+      if (this.queue.length > 0) {
+        this.processQueue();
+      }
+    }, delay);
+  }
+}
+
+/**
+ * Fetch with retry logic for handling 429 errors
+ */
+export async function fetchWithRetry(
+  url: string,
+  rateLimiter: RateLimiter,
+  init: RequestInit = {},
+  maxRetries: number = 3,
+  baseDelayMs: number = 1000
+): Promise<Response> {
+  let lastError: Error | null = null;
+
+  for (let attempt = 0; attempt < maxRetries; attempt++) {
+    await rateLimiter.acquire();
+    try {
+      const response = await fetch(url, init);
+
+      if (response.status === 429) {
+        // Rate limited - wait with exponential backoff
+        const retryAfter = response.headers.get('Retry-After');
+        const delayMs = retryAfter
+          ? parseInt(retryAfter, 10) * 1000
+          : baseDelayMs * Math.pow(2, attempt);
+        console.warn(`Rate limited (429), waiting ${delayMs}ms before retry ${attempt + 1}/${maxRetries}`);
+        await new Promise(r => setTimeout(r, delayMs));
+        continue;
+      }
+
+      return response;
+    } catch (error) {
+      lastError = error instanceof Error ? error : new Error(String(error));
+      // Network error - retry with backoff
+      const delayMs = baseDelayMs * Math.pow(2, attempt);
+      console.warn(`Network error, waiting ${delayMs}ms before retry ${attempt + 1}/${maxRetries}:`, lastError.message);
+      await new Promise(r => setTimeout(r, delayMs));
+    } finally {
+      rateLimiter.release();
+    }
+  }
+
+  throw lastError || new Error('Max retries exceeded');
+}
@@ -0,0 +1,156 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { NwsProvider } from './nws.provider.js';
+import pointsFixture from './__fixtures__/nws-points.json';
+import gridpointFixture from './__fixtures__/nws-gridpoint.json';
+
+const MOAB = { latitude: 38.5733, longitude: -109.5498 };
+
+/**
+ * Answer NWS requests from the fixtures, recording the URLs requested
+ */
+function stubNwsFetch(status = 200) {
+  const fetch = vi.fn(async (url: string) => {
+    if (status !== 200) {
+      return new Response('{}', { status, statusText: 'Service Unavailable' });
+    }
+    const body = url.includes('/points/') ? pointsFixture : gridpointFixture;
+    return new Response(JSON.stringify(body), { status: 200 });
+  });
+  vi.stubGlobal('fetch', fetch);
+  return fetch;
+}
+
+/**
+ * Run the rate limiter's timers until a request settles
+ */
+async function settled<T>(request: Promise<T>): Promise<T> {
+  await vi.runAllTimersAsync();
+  return request;
+}
+
+describe('NwsProvider', () => {
+  beforeEach(() => {
+    // The fixtures were issued on the morning of 2025-03-01 (Mountain time).
+    // The rate limiter spaces requests out with setTimeout.
+    vi.useFakeTimers({ toFake: ['Date', 'setTimeout'] });
+    vi.setSystemTime(new Date('2025-03-01T15:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('resolves the gridpoint, then collapses its time series into local days', async () => {
+    const fetch = stubNwsFetch();
+    const provider = new NwsProvider();
+
+    const days = await settled(
+      provider.getWeather(MOAB.latitude, MOAB.longitude, '2025-03-01', '2025-03-07')
+    );
+
+    expect(fetch.mock.calls.map(([url]) => url)).toEqual([
+      'https://api.weather.gov/points/38.5733,-109.5498',
+      'https://api.weather.gov/gridpoints/GJT/94,46',
+    ]);
+
+    // 2025-03-03 has no humidity values, so it's dropped as incomplete
+    expect(days.map(day => day.date)).toEqual(['2025-03-01', '2025-03-02']);
+
+    expect(days[0]).toMatchObject({
+      tempHigh: 59,
+      tempLow: 33, // The overnight low starting on the evening of the 1st
+      apparentTempHigh: 57,
+      apparentTempLow: 27,
+      dewPoint: 23,
+      humidity: 60,
+      windSpeed: 11,
+      windGust: 21,
+      precipChance: 10,
+      precipType: 'none',
+      precipAmount: 0,
+      cloudCover: 20,
+      provider: 'nws',
+      dataType: 'forecast',
+    });
+
+    expect(days[1]).toMatchObject({
+      tempHigh: 63,
+      tempLow: 36,
+      apparentTempHigh: null,
+      apparentTempLow: null,
+      dewPoint: 34,
+      humidity: 55,
+      windSpeed: 17,
+      windGust: null,
+      precipChance: 60,
+      precipType: 'thunderstorms', // Most severe of the day's conditions
+      precipAmount: 0.2,
+      cloudCover: 80,
+    });
+  });
+
+  it('keeps gridpoint lookups for later requests', async () => {
+    const fetch = stubNwsFetch();
+    const provider = new NwsProvider();
+
+    await settled(provider.getWeather(MOAB.latitude, MOAB.longitude, '2025-03-01', '2025-03-02'));
+    await settled(provider.getWeather(MOAB.latitude, MOAB.longitude, '2025-03-01', '2025-03-02'));
+
+    const pointLookups = fetch.mock.calls.filter(([url]) => url.includes('/points/'));
+    expect(pointLookups).toHaveLength(1);
+  });
+
+  it('only returns days in the requested range', async () => {
+    stubNwsFetch();
+    const provider = new NwsProvider();
+
+    const days = await settled(
+      provider.getWeather(MOAB.latitude, MOAB.longitude, '2025-03-02', '2025-03-02')
+    );
+
+    expect(days.map(day => day.date)).toEqual(['2025-03-02']);
+  });
+
+  it('makes no requests for dates beyond its forecast range', async () => {
+    const fetch = stubNwsFetch();
+    const provider = new NwsProvider();
+
+    expect(provider.supportsDateRange('2025-03-10', '2025-03-12')).toBe(false);
+    const days = await provider.getWeather(
+      MOAB.latitude,
+      MOAB.longitude,
+      '2025-03-10',
+      '2025-03-12'
+    );
+    expect(days).toEqual([]);
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it('gives points outside NWS coverage no days, without logging or asking again', async () => {
+    const fetch = stubNwsFetch(404);
+    const error = vi.spyOn(console, 'error');
+    const provider = new NwsProvider();
+    const honolulu = { latitude: 21.3069, longitude: -157.8583 };
+
+    const days = await settled(provider.getWeatherBatch([honolulu], '2025-03-01', '2025-03-02'));
+    await settled(
+      provider.getWeather(honolulu.latitude, honolulu.longitude, '2025-03-01', '2025-03-02')
+    );
+
+    expect(days).toEqual([[]]);
+    expect(error).not.toHaveBeenCalled();
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('gives failed locations no days in a batch', async () => {
+    stubNwsFetch(503);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const provider = new NwsProvider();
+
+    const days = await settled(provider.getWeatherBatch([MOAB], '2025-03-01', '2025-03-02'));
+
+    expect(days).toEqual([[]]);
+  });
+});
@@ -0,0 +1,388 @@
+import type { WeatherProvider, DailyWeather, WeatherLocation } from '../types/weather.js';
+import type { PrecipitationType } from '../validators/weather.js';
+import { RateLimiter, fetchWithRetry } from './http.js';
+import { celsiusToFahrenheit, kmhToMph, mmToInches } from './units.js';
+
+/**
+ * NWS API response types (api.weather.gov)
+ * https://www.weather.gov/documentation/services-web-api
+ */
+interface NwsPointResponse {
+  properties: {
+    forecastGridData: string;
+    timeZone: string;
+  };
+}
+
+interface NwsGridValue<T> {
+  validTime: string; // ISO 8601 interval, e.g. "2025-03-01T14:00:00+00:00/PT6H"
+  value: T;
+}
+
+interface NwsGridLayer {
+  uom?: string; // e.g. "wmoUnit:degC"
+  values: NwsGridValue<number | null>[];
+}
+
+interface NwsWeatherCondition {
+  coverage: string | null;
+  weather: string | null;
+  intensity: string | null;
+}
+
+interface NwsGridpointResponse {
+  properties: {
+    maxTemperature?: NwsGridLayer;
+    minTemperature?: NwsGridLayer;
+    apparentTemperature?: NwsGridLayer;
+    dewpoint?: NwsGridLayer;
+    relativeHumidity?: NwsGridLayer;
+    windSpeed?: NwsGridLayer;
+    windGust?: NwsGridLayer;
+    probabilityOfPrecipitation?: NwsGridLayer;
+    quantitativePrecipitation?: NwsGridLayer;
+    skyCover?: NwsGridLayer;
+    weather?: { values: NwsGridValue<NwsWeatherCondition[]>[] };
+  };
+}
+
+interface NwsGridLocation {
+  gridDataUrl: string;
+  timeZone: string;
+}
+
+/**
+ * Map NWS weather phenomena to our precipitation types
+ */
+const NWS_WEATHER_TYPES: Record<string, PrecipitationType> = {
+  rain: 'rain',
+  rain_showers: 'rain',
+  drizzle: 'drizzle',
+  snow: 'snow',
+  snow_showers: 'snow',
+  blowing_snow: 'snow',
+  freezing_rain: 'freezing_rain',
+  freezing_drizzle: 'freezing_rain',
+  sleet: 'sleet',
+  hail: 'hail',
+  thunderstorms: 'thunderstorms',
+  fog: 'fog',
+  freezing_fog: 'fog',
+  ice_fog: 'fog',
+  haze: 'mist',
+};
+
+/**
+ * Precipitation types ordered from most to least severe.
+ * When a day has several conditions, the most severe one is reported.
+ */
+const PRECIP_SEVERITY: PrecipitationType[] = [
+  'thunderstorms',
+  'hail',
+  'freezing_rain',
+  'sleet',
+  'snow',
+  'rain',
+  'drizzle',
+  'fog',
+  'mist',
+];
+
+/**
+ * Parse an ISO 8601 interval ("start/duration") into a start time and length in hours
+ */
+function parseValidTime(validTime: string): { start: Date; hours: number } {
+  const [startIso, duration] = validTime.split('/');
+  const match = /^P(?:(\d+)D)?(?:T(?:(\d+)H)?(?:\d+M)?)?$/.exec(duration ?? '');
+  const days = Number(match?.[1] ?? 0);
+  const hours = Number(match?.[2] ?? 0);
+
+  return { start: new Date(startIso), hours: Math.max(1, days * 24 + hours) };
+}
+
+function convertTemperature(value: number, uom: string | undefined): number {
+  return uom === 'wmoUnit:degF' ? Math.round(value) : celsiusToFahrenheit(value);
+}
+
+function convertSpeed(value: number, uom: string | undefined): number {
+  return uom === 'wmoUnit:m_s-1' ? kmhToMph(value * 3.6) : kmhToMph(value);
+}
+
+/**
+ * NOAA/NWS weather provider
+ * Free, commercial-use allowed, forecast only (~7 days ahead, continental US)
+ */
+export class NwsProvider implements WeatherProvider {
+  name = 'nws';
+
+  private readonly pointsUrl = 'https://api.weather.gov/points';
+
+  /**
+   * Maximum days ahead covered by the gridpoint forecast
+   */
+  private readonly maxForecastDays = 7;
+
+  /**
+   * NWS asks every client to identify itself with a User-Agent
+   */
+  private readonly userAgent =
+    process.env.NWS_USER_AGENT || 'VanLifeToolbox/1.0 (contact@vanlifetoolbox.com)';
+
+  // NWS limits are undisclosed; stay well under what we use for Open-Meteo
+  private readonly rateLimiter = new RateLimiter(2, 2);
+
+  // lat/lon -> gridpoint lookups never change, so keep them for the process lifetime.
+  // null marks a coordinate outside NWS coverage.
+  private readonly gridLocations = new Map<string, NwsGridLocation | null>();
+
+  async getWeather(
+    lat: number,
+    lon: number,
+    startDate: string,
+    endDate: string
+  ): Promise<DailyWeather[]> {
+    if (!this.supportsDateRange(startDate, endDate)) {
+      return [];
+    }
+
+    const location = await this.resolveGridLocation(lat, lon);
+    if (!location) {
+      // Outside NWS coverage; the next provider in the chain covers it
+      return [];
+    }
+
+    const response = await fetchWithRetry(location.gridDataUrl, this.rateLimiter, {
+      headers: this.headers(),
+    });
+
+    if (!response.ok) {
+      throw new Error(`NWS gridpoint API error: ${response.status} ${response.statusText}`);
+    }
+
+    const data = (await response.json()) as NwsGridpointResponse;
+
+    return this.parseGridpoint(data, location.timeZone).filter(
+      day => day.date >= startDate && day.date <= endDate
+    );
+  }
+
+  /**
+   * NWS has no multi-location endpoint, so each location is its own request
+   * (still paced by the rate limiter). Failed locations get no days.
+   */
+  async getWeatherBatch(
+    locations: WeatherLocation[],
+    startDate: string,
+    endDate: string
+  ): Promise<DailyWeather[][]> {
+    return Promise.all(
+      locations.map(location =>
+        this.getWeather(location.latitude, location.longitude, startDate, endDate).catch(error => {
+          console.error(`NWS failed for (${location.latitude}, ${location.longitude}):`, error);
+          return [];
+        })
+      )
+    );
+  }
+
+  supportsDateRange(startDate: string, endDate: string): boolean {
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+    const forecastEnd = new Date(today);
+    forecastEnd.setDate(forecastEnd.getDate() + this.maxForecastDays - 1);
+
+    // Partial overlap is fine - we return the days we have
+    return startDate <= this.formatDate(forecastEnd) && endDate >= this.formatDate(today);
+  }
+
+  /**
+   * Look up the forecast office gridpoint for a coordinate, or null when the
+   * coordinate is outside NWS coverage
+   */
+  private async resolveGridLocation(lat: number, lon: number): Promise<NwsGridLocation | null> {
+    // NWS rejects coordinates with more than 4 decimal places
+    const key = `${lat.toFixed(4)},${lon.toFixed(4)}`;
+    const cached = this.gridLocations.get(key);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    const response = await fetchWithRetry(`${this.pointsUrl}/${key}`, this.rateLimiter, {
+      headers: this.headers(),
+    });
+
+    // NWS answers 404 for coordinates it has no forecast office for
+    if (response.status === 404) {
+      this.gridLocations.set(key, null);
+      return null;
+    }
+
+    if (!response.ok) {
+      throw new Error(`NWS points API error: ${response.status} ${response.statusText}`);
+    }
+
+    const data = (await response.json()) as NwsPointResponse;
+    const location = {
+      gridDataUrl: data.properties.forecastGridData,
+      timeZone: data.properties.timeZone,
+    };
+    this.gridLocations.set(key, location);
+
+    return location;
+  }
+
+  /**
+   * Collapse the gridpoint time series into daily values (local to the gridpoint).
+   * Days missing a high, low, humidity or wind value are dropped as incomplete.
+   */
+  private parseGridpoint(data: NwsGridpointResponse, timeZone: string): DailyWeather[] {
+    const { properties } = data;
+    const localDate = new Intl.DateTimeFormat('en-CA', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+    });
+
+    // Max/min temperature values cover a day or night period - attribute them to the start date
+    const highs = this.bucketByDate(properties.maxTemperature, localDate, 'start');
+    const lows = this.bucketByDate(properties.minTemperature, localDate, 'start');
+    const apparent = this.bucketByDate(properties.apparentTemperature, localDate, 'hourly');
+    const dewpoint = this.bucketByDate(properties.dewpoint, localDate, 'hourly');
+    const humidity = this.bucketByDate(properties.relativeHumidity, localDate, 'hourly');
+    const wind = this.bucketByDate(properties.windSpeed, localDate, 'hourly');
+    const gusts = this.bucketByDate(properties.windGust, localDate, 'hourly');
+    const precipChance = this.bucketByDate(properties.probabilityOfPrecipitation, localDate, 'hourly');
+    const precipAmount = this.bucketByDate(properties.quantitativePrecipitation, localDate, 'spread');
+    const skyCover = this.bucketByDate(properties.skyCover, localDate, 'hourly');
+    const conditions = this.conditionsByDate(properties.weather?.values ?? [], localDate);
+
+    const results: DailyWeather[] = [];
+
+    for (const date of Array.from(highs.keys()).sort()) {
+      const high = highs.get(date);
+      const low = lows.get(date);
+      const rh = humidity.get(date);
+      const speed = wind.get(date);
+
+      if (!high || !low || !rh || !speed) continue;
+
+      const feels = apparent.get(date);
+      const dew = dewpoint.get(date);
+      const gust = gusts.get(date);
+      const chance = precipChance.get(date);
+      const amount = precipAmount.get(date);
+      const sky = skyCover.get(date);
+
+      results.push({
+        date,
+        tempHigh: convertTemperature(Math.max(...high), properties.maxTemperature?.uom),
+        tempLow: convertTemperature(Math.min(...low), properties.minTemperature?.uom),
+        apparentTempHigh: feels
+          ? convertTemperature(Math.max(...feels), properties.apparentTemperature?.uom)
+          : null,
+        apparentTempLow: feels
+          ? convertTemperature(Math.min(...feels), properties.apparentTemperature?.uom)
+          : null,
+        dewPoint: dew
+          ? convertTemperature(dew.reduce((sum, v) => sum + v, 0) / dew.length, properties.dewpoint?.uom)
+          : null,
+        humidity: Math.round(Math.max(...rh)),
+        windSpeed: convertSpeed(Math.max(...speed), properties.windSpeed?.uom),
+        windGust: gust ? convertSpeed(Math.max(...gust), properties.windGust?.uom) : null,
+        precipChance: chance ? Math.round(Math.max(...chance)) : 0,
+        precipType: this.mostSevereType(conditions.get(date)),
+        precipAmount: amount ? mmToInches(amount.reduce((sum, v) => sum + v, 0)) : 0,
+        uvIndex: null, // Not provided by NWS
+        cloudCover: sky ? Math.round(sky.reduce((sum, v) => sum + v, 0) / sky.length) : null,
+        sunrise: null,
+        sunset: null,
+        aqi: null,
+        aqiCategory: null,
+        hourlyMetrics: null,
+        climatology: null,
+        provider: this.name,
+        dataType: 'forecast',
+      });
+    }
+
+    return results;
+  }
+
+  /**
+   * Group a gridpoint layer's values by local date.
+   * - start: attribute the whole value to the interval's start date
+   * - hourly: repeat the value for every hour the interval covers
+   * - spread: divide the value evenly across the hours (for accumulations)
+   */
+  private bucketByDate(
+    layer: NwsGridLayer | undefined,
+    localDate: Intl.DateTimeFormat,
+    mode: 'start' | 'hourly' | 'spread'
+  ): Map<string, number[]> {
+    const buckets = new Map<string, number[]>();
+
+    for (const { validTime, value } of layer?.values ?? []) {
+      if (value === null) continue;
+
+      const { start, hours } = parseValidTime(validTime);
+      const steps = mode === 'start' ? 1 : hours;
+      const hourValue = mode === 'spread' ? value / hours : value;
+
+      for (let h = 0; h < steps; h++) {
+        const date = localDate.format(new Date(start.getTime() + h * 3600000));
+        const bucket = buckets.get(date) ?? [];
+        bucket.push(hourValue);
+        buckets.set(date, bucket);
+      }
+    }
+
+    return buckets;
+  }
+
+  /**
+   * Collect the precipitation types forecast for each local date
+   */
+  private conditionsByDate(
+    values: NwsGridValue<NwsWeatherCondition[]>[],
+    localDate: Intl.DateTimeFormat
+  ): Map<string, Set<PrecipitationType>> {
+    const byDate = new Map<string, Set<PrecipitationType>>();
+
+    for (const { validTime, value } of values) {
+      const { start, hours } = parseValidTime(validTime);
+
+      for (const condition of value) {
+        const type = condition.weather ? NWS_WEATHER_TYPES[condition.weather] : undefined;
+        if (!type) continue;
+
+        for (let h = 0; h < hours; h++) {
+          const date = localDate.format(new Date(start.getTime() + h * 3600000));
+          const types = byDate.get(date) ?? new Set<PrecipitationType>();
+          types.add(type);
+          byDate.set(date, types);
+        }
+      }
+    }
+
+    return byDate;
+  }
+
+  private mostSevereType(types: Set<PrecipitationType> | undefined): PrecipitationType {
+    return PRECIP_SEVERITY.find(type => types?.has(type)) ?? 'none';
+  }
+
+  private headers(): Record<string, string> {
+    return {
+      'User-Agent': this.userAgent,
+      Accept: 'application/geo+json',
+    };
+  }
+
+  private formatDate(date: Date): string {
+    return date.toISOString().split('T')[0];
+  }
+}
+
+// Export singleton instance
+export const nwsProvider = new NwsProvider();
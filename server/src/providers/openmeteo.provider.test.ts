@@ -0,0 +1,98 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { OpenMeteoProvider } from './openmeteo.provider.js';
+
+const MOAB = { latitude: 38.5733, longitude: -109.5498 };
+
+describe('OpenMeteoProvider', () => {
+  beforeEach(() => {
+    // The shared rate limiter spaces requests out with setTimeout
+    vi.useFakeTimers({ toFake: ['Date', 'setTimeout'] });
+    vi.setSystemTime(new Date('2025-03-10T15:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('leaves out archive days that have no observations yet', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(
+        async () =>
+          new Response(
+            JSON.stringify({
+              ...MOAB,
+              daily: {
+                time: ['2025-03-07', '2025-03-08', '2025-03-09'],
+                temperature_2m_max: [15, 12, null],
+                temperature_2m_min: [0, -2, null],
+                relative_humidity_2m_max: [40, 55, null],
+                wind_speed_10m_max: [16, 24, null],
+                wind_gusts_10m_max: [30, null, null],
+                precipitation_sum: [0, 2.5, null],
+                weathercode: [1, 61, null],
+                sunrise: ['2025-03-07T06:49', '2025-03-08T06:47', '2025-03-09T07:46'],
+                sunset: ['2025-03-07T18:28', '2025-03-08T18:29', '2025-03-09T19:30'],
+              },
+            })
+          )
+      )
+    );
+
+    const pending = new OpenMeteoProvider().getWeatherBatch([MOAB], '2025-03-07', '2025-03-09');
+    await vi.runAllTimersAsync();
+    const [days] = await pending;
+
+    expect(days.map(day => day.date)).toEqual(['2025-03-07', '2025-03-08']);
+    expect(days[1]).toMatchObject({
+      tempHigh: 54,
+      tempLow: 28,
+      humidity: 55,
+      windSpeed: 15,
+      windGust: null,
+      precipChance: 100,
+      precipType: 'rain',
+      precipAmount: 0.1,
+      dataType: 'historical',
+    });
+  });
+
+  it('averages past years by calendar day when a year is missing a day', async () => {
+    // 10°C on Apr 1, 20°C on Apr 2 and 30°C on Apr 3 every year, but 2023 has no Apr 1
+    const archive = vi.fn(async (url: string) => {
+      const year = new URL(url).searchParams.get('start_date')!.slice(0, 4);
+      const days = year === '2023' ? ['04-02', '04-03'] : ['04-01', '04-02', '04-03'];
+      const highs = days.map(day => (Number(day.slice(3)) - 1) * 10 + 10);
+      return new Response(
+        JSON.stringify({
+          ...MOAB,
+          daily: {
+            time: days.map(day => `${year}-${day}`),
+            temperature_2m_max: highs,
+            temperature_2m_min: highs.map(high => high - 10),
+            relative_humidity_2m_max: days.map(() => 40),
+            wind_speed_10m_max: days.map(() => 10),
+            wind_gusts_10m_max: days.map(() => 20),
+            precipitation_sum: days.map(() => 0),
+            weathercode: days.map(() => 0),
+            sunrise: days.map(day => `${year}-${day}T06:00`),
+            sunset: days.map(day => `${year}-${day}T19:00`),
+          },
+        })
+      );
+    });
+    vi.stubGlobal('fetch', archive);
+
+    const pending = new OpenMeteoProvider().getWeatherBatch([MOAB], '2025-04-01', '2025-04-03');
+    await vi.runAllTimersAsync();
+    const [days] = await pending;
+
+    expect(archive).toHaveBeenCalledTimes(3);
+    expect(days.map(day => [day.date, day.tempHigh])).toEqual([
+      ['2025-04-01', 50],
+      ['2025-04-02', 68],
+      ['2025-04-03', 86],
+    ]);
+  });
+});
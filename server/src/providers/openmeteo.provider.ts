@@ -1,19 +1,34 @@
-import type { WeatherProvider, DailyWeather } from '../types/weather.js';
+import type {
+  WeatherProvider,
+  ClimatologyProvider,
+  DailyClimatology,
+  DailyWeather,
+  HourlyWeather,
+  HourlyWeatherProvider,
+  WeatherLocation,
+} from '../types/weather.js';
 import type { PrecipitationType } from '../validators/weather.js';
+import { RateLimiter, fetchWithRetry } from './http.js';
+import { celsiusToFahrenheit, kmhToMph, mmToInches } from './units.js';
+import { summarizeClimatology } from './climatology.js';
 
 /**
  * Open-Meteo API response types
  */
 interface OpenMeteoDaily {
   time: string[];
-  temperature_2m_max: number[];
-  temperature_2m_min: number[];
-  relative_humidity_2m_max: number[];
-  wind_speed_10m_max: number[];
-  wind_gusts_10m_max: number[];
-  precipitation_probability_max: number[];
-  precipitation_sum: number[];
-  weathercode: number[];
+  // The archive reports nulls for recent days it hasn't filled in yet
+  temperature_2m_max: Array<number | null>;
+  temperature_2m_min: Array<number | null>;
+  apparent_temperature_max?: Array<number | null>;
+  apparent_temperature_min?: Array<number | null>;
+  dew_point_2m_mean?: Array<number | null>;
+  relative_humidity_2m_max: Array<number | null>;
+  wind_speed_10m_max: Array<number | null>;
+  wind_gusts_10m_max: Array<number | null>;
+  precipitation_probability_max: Array<number | null>;
+  precipitation_sum: Array<number | null>;
+  weathercode: Array<number | null>;
   uv_index_max: number[];
   cloudcover_mean?: number[];
   sunrise: string[];
@@ -26,6 +41,19 @@ interface OpenMeteoResponse {
   daily: OpenMeteoDaily;
 }
 
+interface OpenMeteoHourly {
+  time: string[];
+  temperature_2m: Array<number | null>;
+  wind_speed_10m: Array<number | null>;
+  precipitation: Array<number | null>;
+  cloud_cover: Array<number | null>;
+  is_day: Array<number | null>;
+}
+
+interface OpenMeteoHourlyResponse {
+  hourly: OpenMeteoHourly;
+}
+
 /**
  * Map WMO weather codes to our precipitation types
  * https://open-meteo.com/en/docs#weathervariables
@@ -64,132 +92,14 @@ function mapWeatherCodeToPrecipType(code: number): PrecipitationType {
   return 'none';
 }
 
-/**
- * Convert Celsius to Fahrenheit
- */
-function celsiusToFahrenheit(celsius: number): number {
-  return Math.round((celsius * 9) / 5 + 32);
-}
-
-/**
- * Convert km/h to mph
- */
-function kmhToMph(kmh: number): number {
-  return Math.round(kmh * 0.621371);
-}
-
-/**
- * Convert mm to inches
- */
-function mmToInches(mm: number): number {
-  return Math.round(mm * 0.0393701 * 100) / 100;
-}
-
-/**
- * Simple rate limiter to avoid 429 errors from Open-Meteo
- */
-class RateLimiter {
-  private queue: Array<{ resolve: () => void; reject: (err: Error) => void }> = [];
-  private lastRequestTime = 0;
-  private activeRequests = 0;
-  private readonly minDelayMs: number;
-  private readonly maxConcurrent: number;
-
-  constructor(requestsPerSecond: number, maxConcurrent: number = 3) {
-    this.minDelayMs = Math.ceil(1000 / requestsPerSecond);
-    this.maxConcurrent = maxConcurrent;
-  }
-
-  async acquire(): Promise<void> {
-    return new Promise((resolve, reject) => {
-      this.queue.push({ resolve, reject });
-      this.processQueue();
-    });
-  }
-
-  release(): void {
-    this.activeRequests--;
-    this.processQueue();
-  }
-
-  private processQueue(): void {
-    if (this.queue.length === 0 || this.activeRequests >= this.maxConcurrent) {
-      return;
-    }
-
-    const now = Date.now();
-    const timeSinceLastRequest = now - this.lastRequestTime;
-    const delay = Math.max(0, this.minDelayMs - timeSinceLastRequest);
-
-    setTimeout(() => {
-      if (this.queue.length === 0 || this.activeRequests >= this.maxConcurrent) {
-        return;
-      }
-
-      const item = this.queue.shift();
-      if (item) {
-        this.lastRequestTime = Date.now();
-        this.activeRequests++;
-        item.resolve();
-      }
-
-      // Continue processing if there are more items
-      if (this.queue.length > 0) {
-        this.processQueue();
-      }
-    }, delay);
-  }
-}
-
 // Shared rate limiter for all Open-Meteo requests
-const rateLimiter = new RateLimiter(3, 2); // 3 requests/second, max 2 concurrent
-
-/**
- * Fetch with retry logic for handling 429 errors
- */
-async function fetchWithRetry(
-  url: string,
-  maxRetries: number = 3,
-  baseDelayMs: number = 1000
-): Promise<Response> {
-  let lastError: Error | null = null;
-
-  for (let attempt = 0; attempt < maxRetries; attempt++) {
-    await rateLimiter.acquire();
-    try {
-      const response = await fetch(url);
-
-      if (response.status === 429) {
-        // Rate limited - wait with exponential backoff
-        const retryAfter = response.headers.get('Retry-After');
-        const delayMs = retryAfter
-          ? parseInt(retryAfter, 10) * 1000
-          : baseDelayMs * Math.pow(2, attempt);
-        console.warn(`Rate limited (429), waiting ${delayMs}ms before retry ${attempt + 1}/${maxRetries}`);
-        await new Promise(r => setTimeout(r, delayMs));
-        continue;
-      }
-
-      return response;
-    } catch (error) {
-      lastError = error instanceof Error ? error : new Error(String(error));
-      // Network error - retry with backoff
-      const delayMs = baseDelayMs * Math.pow(2, attempt);
-      console.warn(`Network error, waiting ${delayMs}ms before retry ${attempt + 1}/${maxRetries}:`, lastError.message);
-      await new Promise(r => setTimeout(r, delayMs));
-    } finally {
-      rateLimiter.release();
-    }
-  }
-
-  throw lastError || new Error('Max retries exceeded');
-}
+export const openMeteoRateLimiter = new RateLimiter(3, 2); // 3 requests/second, max 2 concurrent
 
 /**
  * Open-Meteo weather provider
  * Free API with generous limits, supports forecast (16 days) and historical data
  */
-export class OpenMeteoProvider implements WeatherProvider {
+export class OpenMeteoProvider implements WeatherProvider, HourlyWeatherProvider, ClimatologyProvider {
   name = 'open-meteo';
 
   private readonly forecastUrl = 'https://api.open-meteo.com/v1/forecast';
@@ -206,12 +116,54 @@ export class OpenMeteoProvider implements WeatherProvider {
    */
   private readonly historicalYearsToAverage = 3;
 
+  /**
+   * Locations per request - Open-Meteo accepts comma-separated coordinate lists
+   */
+  private readonly maxLocationsPerRequest = 50;
+
   async getWeather(
     lat: number,
     lon: number,
     startDate: string,
     endDate: string
   ): Promise<DailyWeather[]> {
+    const [days] = await this.getWeatherBatch([{ latitude: lat, longitude: lon }], startDate, endDate);
+    return days;
+  }
+
+  /**
+   * Shortest time a forecast fetch for this many locations can take under the
+   * shared rate limit, in seconds
+   */
+  minimumForecastSeconds(locations: number): number {
+    const requests = Math.ceil(locations / this.maxLocationsPerRequest);
+    return openMeteoRateLimiter.minimumSeconds(requests);
+  }
+
+  /**
+   * Weather for many locations, fetching up to maxLocationsPerRequest locations
+   * per HTTP request and splitting each response back per location
+   */
+  async getWeatherBatch(
+    locations: WeatherLocation[],
+    startDate: string,
+    endDate: string
+  ): Promise<DailyWeather[][]> {
+    const results: DailyWeather[][] = [];
+
+    for (let i = 0; i < locations.length; i += this.maxLocationsPerRequest) {
+      const chunk = locations.slice(i, i + this.maxLocationsPerRequest);
+      results.push(...(await this.fetchWeatherChunk(chunk, startDate, endDate)));
+    }
+
+    return results;
+  }
+
+  private async fetchWeatherChunk(
+    locations: WeatherLocation[],
+    startDate: string,
+    endDate: string
+  ): Promise<DailyWeather[][]> {
     const today = new Date();
     today.setHours(0, 0, 0, 0);
     const start = new Date(startDate);
@@ -222,15 +174,16 @@ export class OpenMeteoProvider implements WeatherProvider {
     const forecastEnd = new Date(today);
     forecastEnd.setDate(forecastEnd.getDate() + this.maxForecastDays - 1); // -1 because today counts
 
-    const results: DailyWeather[] = [];
+    const results: DailyWeather[][] = locations.map(() => []);
+    const collect = (perLocation: DailyWeather[][]) =>
+      perLocation.forEach((days, i) => results[i].push(...days));
 
     // Case 1: Past dates (before today) - use historical API
     if (start < today) {
       const histEnd = end < today ? end : new Date(today.getTime() - 86400000); // yesterday
       if (start <= histEnd) {
         try {
-          const historical = await this.fetchHistorical(lat, lon, startDate, this.formatDate(histEnd));
-          results.push(...historical);
+          collect(await this.fetchHistorical(locations, startDate, this.formatDate(histEnd)));
         } catch (error) {
           console.error('Error fetching historical data:', error);
         }
@@ -245,14 +198,12 @@ export class OpenMeteoProvider implements WeatherProvider {
       // Only call forecast if the range is valid
       if (fcstStart <= fcstEnd) {
         try {
-          const forecast = await this.fetchForecast(lat, lon, this.formatDate(fcstStart), this.formatDate(fcstEnd));
-          results.push(...forecast);
+          collect(await this.fetchForecast(locations, this.formatDate(fcstStart), this.formatDate(fcstEnd)));
         } catch (error) {
           console.error('Error fetching forecast data, falling back to historical averages:', error);
           // Fallback: use historical averages from the same dates over multiple years
           try {
-            const averaged = await this.fetchHistoricalAverages(lat, lon, fcstStart, fcstEnd);
-            results.push(...averaged);
+            collect(await this.fetchHistoricalAverages(locations, fcstStart, fcstEnd));
           } catch (fallbackError) {
             console.error('Historical averages fallback also failed:', fallbackError);
           }
@@ -268,8 +219,7 @@ export class OpenMeteoProvider implements WeatherProvider {
 
       if (fallbackStart <= fallbackEnd) {
         try {
-          const averaged = await this.fetchHistoricalAverages(lat, lon, fallbackStart, fallbackEnd);
-          results.push(...averaged);
+          collect(await this.fetchHistoricalAverages(locations, fallbackStart, fallbackEnd));
         } catch (error) {
           console.error('Error fetching historical averages:', error);
         }
@@ -277,16 +227,18 @@ export class OpenMeteoProvider implements WeatherProvider {
     }
 
     // Sort by date and remove duplicates (prefer forecast for today)
-    const uniqueByDate = new Map<string, DailyWeather>();
-    for (const day of results) {
-      if (!uniqueByDate.has(day.date) || day.date >= this.formatDate(today)) {
-        uniqueByDate.set(day.date, day);
+    return results.map(days => {
+      const uniqueByDate = new Map<string, DailyWeather>();
+      for (const day of days) {
+        if (!uniqueByDate.has(day.date) || day.date >= this.formatDate(today)) {
+          uniqueByDate.set(day.date, day);
+        }
       }
-    }
 
-    return Array.from(uniqueByDate.values()).sort(
-      (a, b) => new Date(a.date).getTime() - new Date(b.date).getTime()
-    );
+      return Array.from(uniqueByDate.values()).sort(
+        (a, b) => new Date(a.date).getTime() - new Date(b.date).getTime()
+      );
+    });
   }
 
   /**
@@ -294,13 +246,13 @@ export class OpenMeteoProvider implements WeatherProvider {
    * This provides a more reliable estimate than a single year's data
    */
   private async fetchHistoricalAverages(
-    lat: number,
-    lon: number,
+    locations: WeatherLocation[],
     startDate: Date,
     endDate: Date
-  ): Promise<DailyWeather[]> {
+  ): Promise<DailyWeather[][]> {
     const targetYear = startDate.getFullYear();
-    const yearsData: DailyWeather[][] = [];
+    // Per year, per location
+    const yearsData: DailyWeather[][][] = [];
 
     // Fetch data for the past N years
     for (let yearOffset = 1; yearOffset <= this.historicalYearsToAverage; yearOffset++) {
@@ -310,7 +262,11 @@ export class OpenMeteoProvider implements WeatherProvider {
       histEnd.setFullYear(targetYear - yearOffset);
 
       try {
-        const data = await this.fetchHistorical(lat, lon, this.formatDate(histStart), this.formatDate(histEnd));
+        const data = await this.fetchHistorical(
+          locations,
+          this.formatDate(histStart),
+          this.formatDate(histEnd)
+        );
         yearsData.push(data);
       } catch (error) {
         console.error(`Error fetching historical data for year ${targetYear - yearOffset}:`, error);
@@ -322,8 +278,14 @@ export class OpenMeteoProvider implements WeatherProvider {
       throw new Error('Failed to fetch any historical data for averaging');
     }
 
-    // Average the data across years
-    return this.averageHistoricalData(yearsData, startDate, endDate);
+    // Average the data across years, per location
+    return locations.map((_, i) =>
+      this.averageHistoricalData(
+        yearsData.map(yearData => yearData[i]),
+        startDate,
+        endDate
+      )
+    );
   }
 
   /**
@@ -339,15 +301,23 @@ export class OpenMeteoProvider implements WeatherProvider {
     // Get the number of days in the range
     const numDays = Math.ceil((endDate.getTime() - startDate.getTime()) / 86400000) + 1;
 
+    // Match days across years by month and day, since the archive leaves out
+    // days without observations
+    const yearsByMonthDay = yearsData.map(
+      yearData => new Map(yearData.map(day => [day.date.slice(5), day]))
+    );
+
     for (let dayIndex = 0; dayIndex < numDays; dayIndex++) {
       const targetDate = new Date(startDate);
       targetDate.setDate(targetDate.getDate() + dayIndex);
       const targetDateStr = this.formatDate(targetDate);
+      const monthDay = targetDateStr.slice(5);
 
-      // Collect data for this day from all years
+      // Collect data for this day from all years (Feb 28 stands in for a leap day)
       const dayDataPoints: DailyWeather[] = [];
-      for (const yearData of yearsData) {
-        const matchingDay = yearData[dayIndex];
+      for (const yearDays of yearsByMonthDay) {
+        const matchingDay =
+          yearDays.get(monthDay) ?? (monthDay === '02-29' ? yearDays.get('02-28') : undefined);
         if (matchingDay) {
           dayDataPoints.push(matchingDay);
         }
@@ -362,6 +332,12 @@ export class OpenMeteoProvider implements WeatherProvider {
       const avgTempLow = Math.round(
         dayDataPoints.reduce((sum, d) => sum + d.tempLow, 0) / dayDataPoints.length
       );
+      const average = (values: Array<number | null>): number | null => {
+        const present = values.filter((v): v is number => v !== null);
+        return present.length > 0
+          ? Math.round(present.reduce((sum, v) => sum + v, 0) / present.length)
+          : null;
+      };
       const avgHumidity = Math.round(
         dayDataPoints.reduce((sum, d) => sum + d.humidity, 0) / dayDataPoints.length
       );
@@ -395,6 +371,9 @@ export class OpenMeteoProvider implements WeatherProvider {
         date: targetDateStr,
         tempHigh: avgTempHigh,
         tempLow: avgTempLow,
+        apparentTempHigh: average(dayDataPoints.map(d => d.apparentTempHigh)),
+        apparentTempLow: average(dayDataPoints.map(d => d.apparentTempLow)),
+        dewPoint: average(dayDataPoints.map(d => d.dewPoint)),
         humidity: avgHumidity,
         windSpeed: avgWindSpeed,
         windGust: null, // Not reliable to average
@@ -405,12 +384,90 @@ export class OpenMeteoProvider implements WeatherProvider {
         cloudCover: null,
         sunrise: dayDataPoints[0]?.sunrise ?? null,
         sunset: dayDataPoints[0]?.sunset ?? null,
+        aqi: null, // Filled in by WeatherService from the air quality provider
+        aqiCategory: null,
+        hourlyMetrics: null, // Filled in by WeatherService when hourly filters are used
+        climatology: null, // Filled in by WeatherService in climatology mode
+        provider: this.name,
+        dataType: 'historical',
       });
     }
 
     return results;
   }
 
+  /**
+   * Recorded weather for the last `years` full calendar years, fetched from the
+   * archive in a single request. Used to build climatology and climate normals.
+   */
+  async getArchiveYears(lat: number, lon: number, years: number): Promise<DailyWeather[]> {
+    const lastYear = new Date().getFullYear() - 1;
+    const [days] = await this.fetchHistorical(
+      [{ latitude: lat, longitude: lon }],
+      `${lastYear - years + 1}-01-01`,
+      `${lastYear}-12-31`
+    );
+    return days;
+  }
+
+  /**
+   * Percentiles for every day of the year from the last `years` full calendar years
+   */
+  async getClimatology(lat: number, lon: number, years: number): Promise<DailyClimatology[]> {
+    const samples = await this.getArchiveYears(lat, lon, years);
+
+    if (samples.length === 0) {
+      throw new Error('Open-Meteo returned no archive data for climatology');
+    }
+
+    return summarizeClimatology(samples, years);
+  }
+
+  /**
+   * Hourly weather for past dates (archive) and the forecast window.
+   * There are no hourly averages, so later dates are omitted.
+   */
+  async getHourlyWeather(
+    lat: number,
+    lon: number,
+    startDate: string,
+    endDate: string
+  ): Promise<HourlyWeather[]> {
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+    const start = new Date(startDate);
+    const end = new Date(endDate);
+    const forecastEnd = new Date(today);
+    forecastEnd.setDate(forecastEnd.getDate() + this.maxForecastDays - 1);
+
+    const results: HourlyWeather[] = [];
+
+    if (start < today) {
+      const histEnd = end < today ? end : new Date(today.getTime() - 86400000);
+      if (start <= histEnd) {
+        results.push(
+          ...(await this.fetchHourly(this.historicalUrl, lat, lon, startDate, this.formatDate(histEnd)))
+        );
+      }
+    }
+
+    if (end >= today && start <= forecastEnd) {
+      const fcstStart = start >= today ? start : today;
+      const fcstEnd = end <= forecastEnd ? end : forecastEnd;
+      results.push(
+        ...(await this.fetchHourly(
+          this.forecastUrl,
+          lat,
+          lon,
+          this.formatDate(fcstStart),
+          this.formatDate(fcstEnd)
+        ))
+      );
+    }
+
+    return results;
+  }
+
   supportsDateRange(_startDate: string, _endDate: string): boolean {
     // We now support all date ranges by falling back to historical data
     // from the same dates in the previous year when forecast is unavailable
@@ -418,19 +475,20 @@ export class OpenMeteoProvider implements WeatherProvider {
   }
 
   private async fetchForecast(
-    lat: number,
-    lon: number,
+    locations: WeatherLocation[],
     startDate: string,
     endDate: string
-  ): Promise<DailyWeather[]> {
+  ): Promise<DailyWeather[][]> {
     const params = new URLSearchParams({
-      latitude: lat.toString(),
-      longitude: lon.toString(),
+      ...this.coordinateParams(locations),
       start_date: startDate,
       end_date: endDate,
       daily: [
         'temperature_2m_max',
         'temperature_2m_min',
+        'apparent_temperature_max',
+        'apparent_temperature_min',
+        'dew_point_2m_mean',
         'relative_humidity_2m_max',
         'wind_speed_10m_max',
         'wind_gusts_10m_max',
@@ -447,30 +505,30 @@ export class OpenMeteoProvider implements WeatherProvider {
       timezone: 'auto',
     });
 
-    const response = await fetchWithRetry(`${this.forecastUrl}?${params}`);
+    const response = await fetchWithRetry(`${this.forecastUrl}?${params}`, openMeteoRateLimiter);
 
     if (!response.ok) {
       throw new Error(`Open-Meteo forecast API error: ${response.status} ${response.statusText}`);
     }
 
-    const data = (await response.json()) as OpenMeteoResponse;
-    return this.parseResponse(data);
+    return this.splitByLocation(await response.json(), locations).map(data => this.parseResponse(data));
   }
 
   private async fetchHistorical(
-    lat: number,
-    lon: number,
+    locations: WeatherLocation[],
     startDate: string,
     endDate: string
-  ): Promise<DailyWeather[]> {
+  ): Promise<DailyWeather[][]> {
     const params = new URLSearchParams({
-      latitude: lat.toString(),
-      longitude: lon.toString(),
+      ...this.coordinateParams(locations),
       start_date: startDate,
       end_date: endDate,
       daily: [
         'temperature_2m_max',
         'temperature_2m_min',
+        'apparent_temperature_max',
+        'apparent_temperature_min',
+        'dew_point_2m_mean',
         'relative_humidity_2m_max',
         'wind_speed_10m_max',
         'wind_gusts_10m_max',
@@ -485,40 +543,143 @@ export class OpenMeteoProvider implements WeatherProvider {
       timezone: 'auto',
     });
 
-    const response = await fetchWithRetry(`${this.historicalUrl}?${params}`);
+    const response = await fetchWithRetry(`${this.historicalUrl}?${params}`, openMeteoRateLimiter);
 
     if (!response.ok) {
       throw new Error(`Open-Meteo historical API error: ${response.status} ${response.statusText}`);
     }
 
-    const data = (await response.json()) as OpenMeteoResponse;
-    return this.parseResponse(data, true);
+    return this.splitByLocation(await response.json(), locations).map(data => this.parseResponse(data, true));
+  }
+
+  /**
+   * Comma-separated latitude/longitude lists for a multi-location request
+   */
+  private coordinateParams(locations: WeatherLocation[]): { latitude: string; longitude: string } {
+    return {
+      latitude: locations.map(location => location.latitude.toString()).join(','),
+      longitude: locations.map(location => location.longitude.toString()).join(','),
+    };
+  }
+
+  /**
+   * Open-Meteo answers a multi-location request with an array in request order,
+   * and a single-location request with a bare object
+   */
+  private splitByLocation(body: unknown, locations: WeatherLocation[]): OpenMeteoResponse[] {
+    const responses = (Array.isArray(body) ? body : [body]) as OpenMeteoResponse[];
+
+    if (responses.length !== locations.length) {
+      throw new Error(`Open-Meteo returned ${responses.length} locations, expected ${locations.length}`);
+    }
+
+    return responses;
+  }
+
+  private async fetchHourly(
+    url: string,
+    lat: number,
+    lon: number,
+    startDate: string,
+    endDate: string
+  ): Promise<HourlyWeather[]> {
+    const params = new URLSearchParams({
+      latitude: lat.toString(),
+      longitude: lon.toString(),
+      start_date: startDate,
+      end_date: endDate,
+      hourly: ['temperature_2m', 'wind_speed_10m', 'precipitation', 'cloud_cover', 'is_day'].join(','),
+      temperature_unit: 'celsius',
+      wind_speed_unit: 'kmh',
+      precipitation_unit: 'mm',
+      timezone: 'auto',
+    });
+
+    const response = await fetchWithRetry(`${url}?${params}`, openMeteoRateLimiter);
+
+    if (!response.ok) {
+      throw new Error(`Open-Meteo hourly API error: ${response.status} ${response.statusText}`);
+    }
+
+    const { hourly } = (await response.json()) as OpenMeteoHourlyResponse;
+    const results: HourlyWeather[] = [];
+
+    for (let i = 0; i < hourly.time.length; i++) {
+      const temp = hourly.temperature_2m[i];
+      const wind = hourly.wind_speed_10m[i];
+
+      // Hours not yet available in the archive come back as nulls
+      if (temp === null || wind === null) continue;
+
+      results.push({
+        time: hourly.time[i],
+        temp: celsiusToFahrenheit(temp),
+        windSpeed: kmhToMph(wind),
+        precipAmount: mmToInches(hourly.precipitation[i] ?? 0),
+        cloudCover: hourly.cloud_cover[i] ?? null,
+        isDay: hourly.is_day[i] === 1,
+      });
+    }
+
+    return results;
   }
 
   private parseResponse(data: OpenMeteoResponse, isHistorical = false): DailyWeather[] {
     const { daily } = data;
     const results: DailyWeather[] = [];
+    const optionalTemp = (values: Array<number | null> | undefined, i: number) => {
+      const value = values?.[i];
+      return value === null || value === undefined ? null : celsiusToFahrenheit(value);
+    };
 
     for (let i = 0; i < daily.time.length; i++) {
+      const tempHigh = daily.temperature_2m_max[i];
+      const tempLow = daily.temperature_2m_min[i];
+      const humidity = daily.relative_humidity_2m_max[i];
+      const wind = daily.wind_speed_10m_max[i];
+      const precipSum = daily.precipitation_sum[i];
+      const gust = daily.wind_gusts_10m_max[i];
+
+      // Days missing their main values are left out (like incomplete NWS days),
+      // so they're fetched again rather than read as 32°F and dry
+      if (
+        tempHigh === null ||
+        tempLow === null ||
+        humidity === null ||
+        wind === null ||
+        precipSum === null
+      ) {
+        continue;
+      }
+
       results.push({
         date: daily.time[i],
-        tempHigh: celsiusToFahrenheit(daily.temperature_2m_max[i]),
-        tempLow: celsiusToFahrenheit(daily.temperature_2m_min[i]),
-        humidity: Math.round(daily.relative_humidity_2m_max[i]),
-        windSpeed: kmhToMph(daily.wind_speed_10m_max[i]),
-        windGust: daily.wind_gusts_10m_max[i] ? kmhToMph(daily.wind_gusts_10m_max[i]) : null,
+        tempHigh: celsiusToFahrenheit(tempHigh),
+        tempLow: celsiusToFahrenheit(tempLow),
+        apparentTempHigh: optionalTemp(daily.apparent_temperature_max, i),
+        apparentTempLow: optionalTemp(daily.apparent_temperature_min, i),
+        dewPoint: optionalTemp(daily.dew_point_2m_mean, i),
+        humidity: Math.round(humidity),
+        windSpeed: kmhToMph(wind),
+        windGust: gust ? kmhToMph(gust) : null,
         // Historical data doesn't have precipitation probability
         precipChance: isHistorical
-          ? daily.precipitation_sum[i] > 0
+          ? precipSum > 0
             ? 100
             : 0
           : Math.round(daily.precipitation_probability_max[i] ?? 0),
-        precipType: mapWeatherCodeToPrecipType(daily.weathercode[i]),
-        precipAmount: mmToInches(daily.precipitation_sum[i]),
+        precipType: mapWeatherCodeToPrecipType(daily.weathercode[i] ?? 0),
+        precipAmount: mmToInches(precipSum),
         uvIndex: daily.uv_index_max?.[i] ?? null,
         cloudCover: daily.cloudcover_mean?.[i] ?? null,
         sunrise: daily.sunrise[i] ?? null,
         sunset: daily.sunset[i] ?? null,
+        aqi: null,
+        aqiCategory: null,
+        hourlyMetrics: null,
+        climatology: null,
+        provider: this.name,
+        dataType: isHistorical ? 'historical' : 'forecast',
       });
     }
 
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { dailyWeather, MOAB_GRID_POINT } from '../__fixtures__/daily-weather.js';
+import { scoringService } from '../services/scoring.service.js';
+import { filtersToImperial, scoredLocationToUnits } from './units.js';
+
+describe('filtersToImperial', () => {
+  it('converts temperature and wind bounds but leaves hour counts alone', () => {
+    expect(
+      filtersToImperial(
+        { highMax: 25, lowMin: 5, windSpeedMax: 32, coldNightHoursMax: 2, humidityMax: 60 },
+        'metric'
+      )
+    ).toMatchObject({
+      highMax: 77,
+      lowMin: 41,
+      windSpeedMax: expect.closeTo(19.88, 2),
+      coldNightHoursMax: 2,
+      humidityMax: 60,
+    });
+  });
+});
+
+describe('scoredLocationToUnits', () => {
+  const filters = { highMax: 80, coldNightHoursMax: 2, windyDaylightHoursMax: 1 };
+  const day = dailyWeather('2025-03-01', {
+    hourlyMetrics: { coldNightHours: 4, windyDaylightHours: 0, dryDaytimeHours: 10 },
+  });
+  const scored = scoringService.scoreLocation(MOAB_GRID_POINT, [day], filters, 'forecast');
+
+  it('reports the hourly thresholds in imperial units', () => {
+    expect(scored.scoreBreakdown.coldNightHours).toMatchObject({
+      value: 4,
+      unit: 'h',
+      threshold: { value: 40, unit: '°F' },
+    });
+    expect(scored.scoreBreakdown.windyDaylightHours?.threshold).toEqual({
+      value: 20,
+      unit: 'mph',
+    });
+    expect(scored.scoreBreakdown.tempHigh).not.toHaveProperty('threshold');
+  });
+
+  it('converts hourly thresholds for metric while keeping hour counts', () => {
+    const metric = scoredLocationToUnits(scored, 'metric');
+
+    expect(metric.scoreBreakdown.coldNightHours).toMatchObject({
+      value: 4,
+      unit: 'h',
+      limit: { max: 2 },
+      threshold: { value: 4.4, unit: '°C' },
+    });
+    expect(metric.scoreBreakdown.windyDaylightHours?.threshold).toEqual({
+      value: 32,
+      unit: 'km/h',
+    });
+    expect(metric.scoreBreakdown.tempHigh).toMatchObject({ value: 21.1, unit: '°C' });
+  });
+});
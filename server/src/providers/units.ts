@@ -0,0 +1,171 @@
+import type { UnitSystem, WeatherFilters } from '../validators/weather.js';
+import type { DailyWeather, FilterScore, Percentiles, ScoredLocation } from '../types/weather.js';
+
+/**
+ * Unit conversions between metric and our internal imperial units.
+ * Providers convert to imperial on the way in; everything cached and scored is
+ * imperial, and metric requests are converted at the edges.
+ */
+
+/**
+ * Meters in a statute mile (PostGIS geography distances are in meters)
+ */
+export const METERS_PER_MILE = 1609.344;
+
+/**
+ * Convert Celsius to Fahrenheit
+ */
+export function celsiusToFahrenheit(celsius: number): number {
+  return Math.round((celsius * 9) / 5 + 32);
+}
+
+/**
+ * Convert km/h to mph
+ */
+export function kmhToMph(kmh: number): number {
+  return Math.round(kmh * 0.621371);
+}
+
+/**
+ * Convert mm to inches
+ */
+export function mmToInches(mm: number): number {
+  return Math.round(mm * 0.0393701 * 100) / 100;
+}
+
+/**
+ * Convert Fahrenheit to Celsius (one decimal place)
+ */
+export function fahrenheitToCelsius(fahrenheit: number): number {
+  return Math.round(((fahrenheit - 32) * 5) / 9 * 10) / 10;
+}
+
+/**
+ * Convert mph to km/h
+ */
+export function mphToKmh(mph: number): number {
+  return Math.round(mph * 1.609344);
+}
+
+/**
+ * Convert inches to mm (one decimal place)
+ */
+export function inchesToMm(inches: number): number {
+  return Math.round(inches * 25.4 * 10) / 10;
+}
+
+/**
+ * Interpret filters given in a unit system as internal imperial filters.
+ * Bounds aren't rounded, so a 18°C limit is exactly 64.4°F.
+ */
+export function filtersToImperial<T extends Partial<WeatherFilters>>(filters: T, units: UnitSystem): T {
+  if (units === 'imperial') {
+    return filters;
+  }
+
+  const toFahrenheit = (celsius: number | undefined) =>
+    celsius === undefined ? undefined : (celsius * 9) / 5 + 32;
+
+  return {
+    ...filters,
+    highMin: toFahrenheit(filters.highMin),
+    highMax: toFahrenheit(filters.highMax),
+    lowMin: toFahrenheit(filters.lowMin),
+    lowMax: toFahrenheit(filters.lowMax),
+    feelsLikeMax: toFahrenheit(filters.feelsLikeMax),
+    dewPointMax: toFahrenheit(filters.dewPointMax),
+    windSpeedMax: filters.windSpeedMax === undefined ? undefined : filters.windSpeedMax / 1.609344,
+  };
+}
+
+/**
+ * Convert an internal (imperial) day to the requested unit system
+ */
+export function dailyWeatherToUnits(day: DailyWeather, units: UnitSystem): DailyWeather {
+  if (units === 'imperial') {
+    return day;
+  }
+
+  return {
+    ...day,
+    tempHigh: fahrenheitToCelsius(day.tempHigh),
+    tempLow: fahrenheitToCelsius(day.tempLow),
+    apparentTempHigh: day.apparentTempHigh === null ? null : fahrenheitToCelsius(day.apparentTempHigh),
+    apparentTempLow: day.apparentTempLow === null ? null : fahrenheitToCelsius(day.apparentTempLow),
+    dewPoint: day.dewPoint === null ? null : fahrenheitToCelsius(day.dewPoint),
+    windSpeed: mphToKmh(day.windSpeed),
+    windGust: day.windGust === null ? null : mphToKmh(day.windGust),
+    precipAmount: inchesToMm(day.precipAmount),
+    climatology: day.climatology && {
+      ...day.climatology,
+      tempHigh: convertPercentiles(day.climatology.tempHigh, fahrenheitToCelsius),
+      tempLow: convertPercentiles(day.climatology.tempLow, fahrenheitToCelsius),
+      windSpeed: convertPercentiles(day.climatology.windSpeed, mphToKmh),
+      precipAmount: convertPercentiles(day.climatology.precipAmount, inchesToMm),
+    },
+  };
+}
+
+/**
+ * Convert each percentile of a value
+ */
+function convertPercentiles(values: Percentiles, convert: (value: number) => number): Percentiles {
+  return { p10: convert(values.p10), p50: convert(values.p50), p90: convert(values.p90) };
+}
+
+/**
+ * Convert a scored location's breakdown values, limits, hourly thresholds and
+ * unit labels to the requested unit system (scores themselves are unitless)
+ */
+export function scoredLocationToUnits<T extends ScoredLocation>(location: T, units: UnitSystem): T {
+  if (units === 'imperial') {
+    return location;
+  }
+
+  const convert = (
+    filterScore: FilterScore | null,
+    unit: string,
+    toMetric: (value: number) => number
+  ): FilterScore | null =>
+    filterScore && {
+      ...filterScore,
+      value: toMetric(filterScore.value),
+      unit,
+      limit: {
+        min: filterScore.limit.min === undefined ? undefined : toMetric(filterScore.limit.min),
+        max: filterScore.limit.max === undefined ? undefined : toMetric(filterScore.limit.max),
+      },
+    };
+
+  // Hourly categories count hours, but the threshold they count against has units
+  const convertThreshold = (
+    filterScore: FilterScore | null,
+    unit: string,
+    toMetric: (value: number) => number
+  ): FilterScore | null =>
+    filterScore?.threshold
+      ? { ...filterScore, threshold: { value: toMetric(filterScore.threshold.value), unit } }
+      : filterScore;
+
+  return {
+    ...location,
+    scoreBreakdown: {
+      ...location.scoreBreakdown,
+      tempHigh: convert(location.scoreBreakdown.tempHigh, '°C', fahrenheitToCelsius),
+      tempLow: convert(location.scoreBreakdown.tempLow, '°C', fahrenheitToCelsius),
+      feelsLike: convert(location.scoreBreakdown.feelsLike, '°C', fahrenheitToCelsius),
+      dewPoint: convert(location.scoreBreakdown.dewPoint, '°C', fahrenheitToCelsius),
+      wind: convert(location.scoreBreakdown.wind, 'km/h', mphToKmh),
+      coldNightHours: convertThreshold(
+        location.scoreBreakdown.coldNightHours,
+        '°C',
+        fahrenheitToCelsius
+      ),
+      windyDaylightHours: convertThreshold(
+        location.scoreBreakdown.windyDaylightHours,
+        'km/h',
+        mphToKmh
+      ),
+    },
+  };
+}
@@ -0,0 +1,70 @@
+import { Router, Request, Response } from 'express';
+import { requireAdmin, requireAuth } from '../middleware/auth.js';
+import { weatherCacheInvalidationSchema } from '../validators/index.js';
+import { formatZodError } from '../validators/common.js';
+import { cacheMaintenanceService } from '../services/cache-maintenance.service.js';
+
+const router = Router();
+
+// Every admin endpoint needs an admin's token
+router.use(requireAuth, requireAdmin);
+
+/**
+ * GET /api/admin/weather-cache/stats
+ * Row counts and date/fetch ranges per cache table, region and data type.
+ */
+router.get('/weather-cache/stats', async (_req: Request, res: Response) => {
+  try {
+    res.json({
+      success: true,
+      data: await cacheMaintenanceService.getStats(),
+    });
+  } catch (error) {
+    console.error('Error in GET /api/admin/weather-cache/stats:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Failed to retrieve weather cache stats',
+      },
+    });
+  }
+});
+
+/**
+ * POST /api/admin/weather-cache/invalidate
+ * Deletes cached weather, air quality, hourly weather and climatology for a grid
+ * point, region and/or date range (rows must match every scope given), so it's
+ * refetched on the next lookup.
+ */
+router.post('/weather-cache/invalidate', async (req: Request, res: Response) => {
+  try {
+    const parseResult = weatherCacheInvalidationSchema.safeParse(req.body);
+
+    if (!parseResult.success) {
+      res.status(400).json({
+        success: false,
+        error: formatZodError(parseResult.error),
+      });
+      return;
+    }
+
+    const deleted = await cacheMaintenanceService.invalidate(parseResult.data);
+
+    res.json({
+      success: true,
+      data: { deleted },
+    });
+  } catch (error) {
+    console.error('Error in POST /api/admin/weather-cache/invalidate:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Failed to invalidate weather cache',
+      },
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,139 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import express from 'express';
+import type { Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { dailyWeather, MOAB_GRID_POINT } from '../__fixtures__/daily-weather.js';
+import { fakePrisma, resetFakePrisma } from '../__fixtures__/prisma.js';
+import { weatherService } from '../services/weather.service.js';
+import weatherRoutes from './weather.routes.js';
+
+vi.mock('@prisma/client', async importOriginal => ({
+  ...(await importOriginal<typeof import('@prisma/client')>()),
+  PrismaClient: (await import('../__fixtures__/prisma.js')).FakePrismaClient,
+}));
+
+/**
+ * The parts of a response body the tests read
+ */
+interface ResponseBody {
+  success: boolean;
+  data: Record<string, unknown> & { dailyData: Array<{ tempHigh: number }> };
+  error: { code: string };
+}
+
+describe('GET /api/weather/grid-points/:id', () => {
+  let server: Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    const app = express();
+    app.use('/api/weather', weatherRoutes);
+    server = await new Promise<Server>(resolve => {
+      const listening = app.listen(0, () => resolve(listening));
+    });
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/weather`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2025-03-01T15:00:00Z'));
+    fakePrisma.gridPoint.findUnique.mockResolvedValue(MOAB_GRID_POINT);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+    resetFakePrisma();
+  });
+
+  const get = async (path: string) => {
+    const response = await fetch(`${baseUrl}${path}`);
+    return { status: response.status, body: (await response.json()) as ResponseBody };
+  };
+
+  it('rejects an id that is not a UUID', async () => {
+    const { status, body } = await get('/grid-points/moab');
+
+    expect(status).toBe(400);
+    expect(body).toEqual({
+      success: false,
+      error: { code: 'VALIDATION_ERROR', message: 'Invalid grid point ID format' },
+    });
+  });
+
+  it('rejects an invalid date range', async () => {
+    const { status, body } = await get(
+      `/grid-points/${MOAB_GRID_POINT.id}?startDate=2025-03-05&endDate=2025-03-01`
+    );
+
+    expect(status).toBe(400);
+    expect(body.error).toMatchObject({
+      code: 'VALIDATION_ERROR',
+      details: [{ field: 'endDate', message: 'End date must be on or after start date' }],
+    });
+  });
+
+  it('returns 404 for an unknown grid point', async () => {
+    fakePrisma.gridPoint.findUnique.mockResolvedValue(null);
+
+    const { status, body } = await get(
+      '/grid-points/00000000-0000-4000-8000-0000000000ff?startDate=2025-03-01&endDate=2025-03-02'
+    );
+
+    expect(status).toBe(404);
+    expect(body.error.code).toBe('RESOURCE_NOT_FOUND');
+  });
+
+  it('returns just the grid point without dates', async () => {
+    const { status, body } = await get(`/grid-points/${MOAB_GRID_POINT.id}`);
+
+    expect(status).toBe(200);
+    expect(body).toEqual({ success: true, data: MOAB_GRID_POINT });
+  });
+
+  it("returns the grid point's weather in the requested units, with a summary", async () => {
+    const getWeather = vi.spyOn(weatherService, 'getGridPointWeather').mockResolvedValue({
+      gridPointId: MOAB_GRID_POINT.id,
+      latitude: MOAB_GRID_POINT.latitude,
+      longitude: MOAB_GRID_POINT.longitude,
+      daily: [
+        dailyWeather('2025-03-01', { tempHigh: 68, aqi: 40 }),
+        dailyWeather('2025-03-02', { tempHigh: 77 }),
+      ],
+      dataSource: 'forecast',
+      fetchedAt: new Date(),
+      freshness: { ageMinutes: 30, staleDays: 0, refreshing: false },
+    });
+
+    const query = 'startDate=2025-03-01&endDate=2025-03-02&units=metric&climatologyYears=10';
+    const { status, body } = await get(`/grid-points/${MOAB_GRID_POINT.id}?${query}`);
+
+    expect(status).toBe(200);
+    expect(getWeather).toHaveBeenCalledWith(MOAB_GRID_POINT, '2025-03-01', '2025-03-02', {
+      climatologyYears: 10,
+    });
+    expect(body.success).toBe(true);
+    expect(Object.keys(body.data).sort()).toEqual([
+      'dailyData',
+      'dataSource',
+      'dataSourceExplanation',
+      'freshness',
+      'gridPoint',
+      'summary',
+      'units',
+    ]);
+    expect(body.data).toMatchObject({
+      gridPoint: MOAB_GRID_POINT,
+      dataSource: 'forecast',
+      freshness: { ageMinutes: 30, staleDays: 0, refreshing: false },
+      units: 'metric',
+      summary: { avgTempHigh: 22.5, avgTempLow: 10, avgAqi: 40 },
+    });
+    expect(body.data.dailyData.map(day => day.tempHigh)).toEqual([20, 25]);
+    expect(body.data.dataSourceExplanation).toEqual(expect.any(String));
+  });
+});
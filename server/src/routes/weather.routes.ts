@@ -1,14 +1,27 @@
 import { Router, Request, Response } from 'express';
-import { PrismaClient, GridRegion } from '@prisma/client';
+import { Prisma, PrismaClient, GridRegion } from '@prisma/client';
 import {
+  forecastAccuracyQuerySchema,
   gridPointsQuerySchema,
+  gridPointWeatherQuerySchema,
   nearestGridPointQuerySchema,
+  routeSearchRequestSchema,
   weatherSearchRequestSchema,
 } from '../validators/index.js';
 import { formatZodError, uuidSchema } from '../validators/common.js';
-import { weatherService } from '../services/weather.service.js';
+import { optionalAuth } from '../middleware/auth.js';
+import { METERS_PER_MILE, dailyWeatherToUnits } from '../providers/units.js';
 import { scoringService } from '../services/scoring.service.js';
-import type { ScoredLocation } from '../types/weather.js';
+import { weatherService } from '../services/weather.service.js';
+import { searchService } from '../services/search.service.js';
+import { RouteSearchError, routeSearchService } from '../services/route-search.service.js';
+import {
+  searchJobService,
+  SearchJobLimitError,
+  type SearchJob,
+} from '../services/search-job.service.js';
+import { cacheWarmerService } from '../services/cache-warmer.service.js';
+import { forecastAccuracyService } from '../services/forecast-accuracy.service.js';
 
 const router = Router();
 const prisma = new PrismaClient();
@@ -88,6 +101,8 @@ router.get('/grid-points', async (req: Request, res: Response) => {
 /**
  * GET /api/weather/grid-points/:id
  * Returns a specific grid point by ID.
+ * With startDate and endDate, also returns its daily weather, each day labelled
+ * forecast or historical, with an explanation of the data sources used.
  */
 router.get('/grid-points/:id', async (req: Request<{ id: string }>, res: Response) => {
   try {
@@ -106,6 +121,18 @@ router.get('/grid-points/:id', async (req: Request<{ id: string }>, res: Respons
       return;
     }
 
+    // Dates are optional - without them only the grid point is returned
+    const wantsWeather = req.query.startDate !== undefined || req.query.endDate !== undefined;
+    const queryResult = gridPointWeatherQuerySchema.safeParse(req.query);
+
+    if (wantsWeather && !queryResult.success) {
+      res.status(400).json({
+        success: false,
+        error: formatZodError(queryResult.error),
+      });
+      return;
+    }
+
     const gridPoint = await prisma.gridPoint.findUnique({
       where: { id },
       select: {
@@ -129,9 +156,45 @@ router.get('/grid-points/:id', async (req: Request<{ id: string }>, res: Respons
       return;
     }
 
+    if (!wantsWeather || !queryResult.success) {
+      res.json({
+        success: true,
+        data: gridPoint,
+      });
+      return;
+    }
+
+    const { startDate, endDate, units, climatologyYears } = queryResult.data;
+    const weather = await weatherService.getGridPointWeather(gridPoint, startDate, endDate, {
+      climatologyYears,
+    });
+
+    const average = (values: number[]): number | null =>
+      values.length > 0
+        ? Math.round((values.reduce((sum, v) => sum + v, 0) / values.length) * 10) / 10
+        : null;
+    const daily = weather.daily.map(day => dailyWeatherToUnits(day, units));
+
     res.json({
       success: true,
-      data: gridPoint,
+      data: {
+        gridPoint,
+        dailyData: daily,
+        dataSource: weather.dataSource,
+        dataSourceExplanation: weatherService.describeDataSource(daily),
+        freshness: weather.freshness,
+        units,
+        summary: {
+          avgTempHigh: average(daily.map(day => day.tempHigh)),
+          avgTempLow: average(daily.map(day => day.tempLow)),
+          avgHumidity: average(daily.map(day => day.humidity)),
+          avgWindSpeed: average(daily.map(day => day.windSpeed)),
+          avgPrecipChance: average(daily.map(day => day.precipChance)),
+          avgAqi: average(
+            daily.map(day => day.aqi).filter((aqi): aqi is number => aqi !== null)
+          ),
+        },
+      },
     });
   } catch (error) {
     console.error('Error in GET /api/weather/grid-points/:id:', error);
@@ -148,7 +211,7 @@ router.get('/grid-points/:id', async (req: Request<{ id: string }>, res: Respons
 /**
  * GET /api/weather/nearest
  * Finds the nearest grid point to given coordinates.
- * Uses Euclidean distance approximation (sufficient for nearby points).
+ * Uses the PostGIS location index; distance is great-circle miles.
  */
 router.get('/nearest', async (req: Request, res: Response) => {
   try {
@@ -164,10 +227,9 @@ router.get('/nearest', async (req: Request, res: Response) => {
     }
 
     const { lat, lon } = parseResult.data;
+    const origin = Prisma.sql`ST_SetSRID(ST_MakePoint(${lon}, ${lat}), 4326)::geography`;
 
-    // Find the nearest grid point using Euclidean distance approximation
-    // For more accuracy at scale, we'd use PostGIS ST_Distance, but this is
-    // sufficient for finding nearby points within our grid spacing
+    // <-> orders by distance using the spatial index (KNN search)
     const nearestPoint = await prisma.$queryRaw<
       Array<{
         id: string;
@@ -176,7 +238,7 @@ router.get('/nearest', async (req: Request, res: Response) => {
         nearest_city: string | null;
         state: string;
         region: string;
-        distance: number;
+        distance_meters: number;
       }>
     >`
       SELECT
@@ -186,9 +248,10 @@ router.get('/nearest', async (req: Request, res: Response) => {
         nearest_city,
         state,
         region,
-        SQRT(POW(latitude - ${lat}, 2) + POW(longitude - ${lon}, 2)) as distance
+        ST_Distance(location, ${origin}) as distance_meters
       FROM grid_points
-      ORDER BY distance
+      WHERE location IS NOT NULL
+      ORDER BY location <-> ${origin}
       LIMIT 1
     `;
 
@@ -204,9 +267,7 @@ router.get('/nearest', async (req: Request, res: Response) => {
     }
 
     const point = nearestPoint[0];
-
-    // Convert distance from degrees to approximate miles (at mid-latitudes, 1° ≈ 69 miles)
-    const distanceMiles = point.distance * 69;
+    const distanceMiles = point.distance_meters / METERS_PER_MILE;
 
     res.json({
       success: true,
@@ -237,6 +298,7 @@ router.get('/nearest', async (req: Request, res: Response) => {
 /**
  * POST /api/weather/search
  * Searches for locations matching weather criteria.
+ * Scores a coarse sample of the grid, then refines the best cells at full resolution.
  * Returns scored results sorted by match quality.
  */
 router.post('/search', async (req: Request, res: Response) => {
@@ -253,123 +315,304 @@ router.post('/search', async (req: Request, res: Response) => {
     }
 
     const { filters, dateRange, options } = parseResult.data;
-    const limit = options?.limit ?? 50;
-    const minScore = options?.minScore ?? 0;
+    const scoring = scoringService.resolveScoring(filters, parseResult.data.scoring);
 
-    // Build grid point query
-    const gridPointWhere: {
-      region?: GridRegion;
-      state?: { in: string[] };
-    } = {};
+    const { results, meta } = await searchService.search({ filters, dateRange, options, scoring });
+
+    res.json({
+      success: true,
+      data: {
+        results,
+        total: results.length,
+        meta,
+        searchCriteria: {
+          filters,
+          dateRange,
+          options,
+          scoring,
+        },
+      },
+    });
+  } catch (error) {
+    console.error('Error in POST /api/weather/search:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Failed to search weather data',
+      },
+    });
+  }
+});
+
+/**
+ * POST /api/weather/search/route
+ * Finds the best places to stop along a driving route.
+ * Grid points within the corridor are scored for the day the traveller reaches them,
+ * and the best candidates are returned per driving day.
+ */
+router.post('/search/route', async (req: Request, res: Response) => {
+  try {
+    // Validate request body
+    const parseResult = routeSearchRequestSchema.safeParse(req.body);
 
-    if (options?.region) {
-      gridPointWhere.region = options.region as GridRegion;
+    if (!parseResult.success) {
+      res.status(400).json({
+        success: false,
+        error: formatZodError(parseResult.error),
+      });
+      return;
     }
 
-    if (options?.states && options.states.length > 0) {
-      gridPointWhere.state = { in: options.states.map(s => s.toUpperCase()) };
+    const { route, corridorMiles, departureDate, dailyMiles, filters, options } = parseResult.data;
+    const scoring = scoringService.resolveScoring(filters, parseResult.data.scoring);
+
+    const { segments, meta } = await routeSearchService.search({
+      route,
+      corridorMiles,
+      departureDate,
+      dailyMiles,
+      filters,
+      options,
+      scoring,
+    });
+
+    res.json({
+      success: true,
+      data: {
+        segments,
+        meta,
+        searchCriteria: {
+          corridorMiles,
+          departureDate,
+          dailyMiles,
+          filters,
+          options,
+          scoring,
+        },
+      },
+    });
+  } catch (error) {
+    if (error instanceof RouteSearchError) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message,
+        },
+      });
+      return;
     }
 
-    // Fetch grid points (limit to reasonable batch for performance)
-    const gridPoints = await prisma.gridPoint.findMany({
-      where: gridPointWhere,
-      select: {
-        id: true,
-        latitude: true,
-        longitude: true,
-        nearestCity: true,
-        state: true,
-        region: true,
+    console.error('Error in POST /api/weather/search/route:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Failed to search along route',
       },
-      take: 500, // Process up to 500 grid points
     });
+  }
+});
 
-    if (gridPoints.length === 0) {
-      res.json({
-        success: true,
-        data: {
-          results: [],
-          total: 0,
-          searchCriteria: {
-            filters,
-            dateRange,
-            options,
-          },
+/**
+ * POST /api/weather/search/jobs
+ * Starts a weather search in the background. Accepts the same body as POST /search.
+ * Returns the job snapshot; follow it via GET /search/jobs/:id or the /events stream.
+ * Running jobs are limited per user (or per IP address without a token) and in total.
+ */
+router.post('/search/jobs', optionalAuth, (req: Request, res: Response) => {
+  try {
+    // Validate request body
+    const parseResult = weatherSearchRequestSchema.safeParse(req.body);
+
+    if (!parseResult.success) {
+      res.status(400).json({
+        success: false,
+        error: formatZodError(parseResult.error),
+      });
+      return;
+    }
+
+    const { filters, dateRange, options } = parseResult.data;
+    const scoring = scoringService.resolveScoring(filters, parseResult.data.scoring);
+
+    const clientId = req.user?.id ?? req.ip ?? 'anonymous';
+    const job = searchJobService.start({ filters, dateRange, options, scoring }, clientId);
+
+    res.status(202).json({
+      success: true,
+      data: job,
+    });
+  } catch (error) {
+    if (error instanceof SearchJobLimitError) {
+      res.status(429).json({
+        success: false,
+        error: {
+          code: 'RATE_LIMITED',
+          message: error.message,
         },
       });
       return;
     }
 
-    // Fetch weather data and score each location
-    const scoredLocations: ScoredLocation[] = [];
-
-    // Process in batches to avoid overwhelming the weather API
-    const batchSize = 10;
-    for (let i = 0; i < gridPoints.length; i += batchSize) {
-      const batch = gridPoints.slice(i, i + batchSize);
-
-      const batchResults = await Promise.all(
-        batch.map(async gridPoint => {
-          try {
-            const weather = await weatherService.getGridPointWeather(
-              gridPoint.id,
-              gridPoint.latitude,
-              gridPoint.longitude,
-              dateRange.startDate,
-              dateRange.endDate
-            );
-
-            return scoringService.scoreLocation(
-              gridPoint,
-              weather.daily,
-              filters,
-              weather.dataSource
-            );
-          } catch (error) {
-            console.error(`Error fetching weather for grid point ${gridPoint.id}:`, error);
-            return null;
-          }
-        })
-      );
-
-      // Add successful results
-      for (const result of batchResults) {
-        if (result && result.score >= minScore) {
-          scoredLocations.push(result);
-        }
-      }
-
-      // Stop early if we have enough high-scoring results
-      const highScoreResults = scoredLocations.filter(r => r.score >= 70);
-      if (highScoreResults.length >= limit * 2) {
-        break;
-      }
+    console.error('Error in POST /api/weather/search/jobs:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Failed to start search job',
+      },
+    });
+  }
+});
+
+/**
+ * Look up a search job from the route's :id, sending the 400/404 response if it can't be found
+ */
+function findSearchJob(req: Request<{ id: string }>, res: Response): SearchJob | undefined {
+  const uuidResult = uuidSchema.safeParse(req.params.id);
+  if (!uuidResult.success) {
+    res.status(400).json({
+      success: false,
+      error: {
+        code: 'VALIDATION_ERROR',
+        message: 'Invalid search job ID format',
+      },
+    });
+    return undefined;
+  }
+
+  const job = searchJobService.get(req.params.id);
+  if (!job) {
+    res.status(404).json({
+      success: false,
+      error: {
+        code: 'RESOURCE_NOT_FOUND',
+        message: 'Search job not found',
+      },
+    });
+  }
+
+  return job;
+}
+
+/**
+ * GET /api/weather/search/jobs/:id
+ * Returns a search job's status, progress and current ranked results.
+ */
+router.get('/search/jobs/:id', (req: Request<{ id: string }>, res: Response) => {
+  const job = findSearchJob(req, res);
+  if (!job) return;
+
+  res.json({
+    success: true,
+    data: job,
+  });
+});
+
+/**
+ * GET /api/weather/search/jobs/:id/events
+ * Server-sent events stream for a search job. Sends the current snapshot immediately,
+ * then 'progress' events, and closes after a 'completed', 'failed' or 'cancelled' event.
+ */
+router.get('/search/jobs/:id/events', (req: Request<{ id: string }>, res: Response) => {
+  const job = findSearchJob(req, res);
+  if (!job) return;
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+  });
+
+  const send = (type: string, snapshot: SearchJob) => {
+    res.write(`event: ${type}\ndata: ${JSON.stringify(snapshot)}\n\n`);
+  };
+
+  if (job.status !== 'running') {
+    send(job.status, job);
+    res.end();
+    return;
+  }
+
+  send('progress', job);
+
+  const unsubscribe = searchJobService.subscribe(job.id, event => {
+    send(event.type, event.job);
+    if (event.type !== 'progress') {
+      res.end();
     }
+  });
+
+  req.on('close', unsubscribe);
+});
 
-    // Sort by score descending and limit results
-    const sortedResults = scoredLocations
-      .sort((a, b) => b.score - a.score)
-      .slice(0, limit);
+/**
+ * DELETE /api/weather/search/jobs/:id
+ * Cancels a running search job. Results scored so far are kept on the job.
+ */
+router.delete('/search/jobs/:id', (req: Request<{ id: string }>, res: Response) => {
+  const job = findSearchJob(req, res);
+  if (!job) return;
+
+  res.json({
+    success: true,
+    data: searchJobService.cancel(job.id),
+  });
+});
 
+/**
+ * GET /api/weather/cache-warmer
+ * Progress of the latest forecast cache warmer run and the outcome of the last
+ * finished one. The warmer runs separately (scripts/warm-forecast-cache.ts).
+ */
+router.get('/cache-warmer', async (_req: Request, res: Response) => {
+  try {
     res.json({
       success: true,
-      data: {
-        results: sortedResults,
-        total: sortedResults.length,
-        searchCriteria: {
-          filters,
-          dateRange,
-          options,
-        },
+      data: await cacheWarmerService.getStatus(),
+    });
+  } catch (error) {
+    console.error('Error in GET /api/weather/cache-warmer:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Failed to retrieve cache warmer status',
       },
     });
+  }
+});
+
+/**
+ * GET /api/weather/forecast-accuracy
+ * Forecast error per region and lead time, from forecast snapshots verified
+ * against recorded weather (scripts/verify-forecasts.ts).
+ */
+router.get('/forecast-accuracy', async (req: Request, res: Response) => {
+  try {
+    const parseResult = forecastAccuracyQuerySchema.safeParse(req.query);
+
+    if (!parseResult.success) {
+      res.status(400).json({
+        success: false,
+        error: formatZodError(parseResult.error),
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: await forecastAccuracyService.getStats(parseResult.data),
+    });
   } catch (error) {
-    console.error('Error in POST /api/weather/search:', error);
+    console.error('Error in GET /api/weather/forecast-accuracy:', error);
     res.status(500).json({
       success: false,
       error: {
         code: 'INTERNAL_ERROR',
-        message: 'Failed to search weather data',
+        message: 'Failed to retrieve forecast accuracy',
       },
     });
   }
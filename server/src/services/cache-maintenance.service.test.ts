@@ -0,0 +1,137 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { MOAB_GRID_POINT } from '../__fixtures__/daily-weather.js';
+import { fakePrisma, resetFakePrisma } from '../__fixtures__/prisma.js';
+import { CacheMaintenanceService } from './cache-maintenance.service.js';
+
+vi.mock('@prisma/client', async importOriginal => ({
+  ...(await importOriginal<typeof import('@prisma/client')>()),
+  PrismaClient: (await import('../__fixtures__/prisma.js')).FakePrismaClient,
+}));
+
+const TODAY = new Date('2025-03-01T00:00:00Z');
+
+describe('CacheMaintenanceService', () => {
+  const service = new CacheMaintenanceService();
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2025-03-01T15:00:00Z'));
+    for (const table of ['weatherCache', 'airQualityCache', 'hourlyWeatherCache']) {
+      fakePrisma[table].deleteMany.mockResolvedValue({ count: 2 });
+    }
+    fakePrisma.climatologyCache.deleteMany.mockResolvedValue({ count: 365 });
+    fakePrisma.forecastSnapshot.deleteMany.mockResolvedValue({ count: 1 });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    resetFakePrisma();
+  });
+
+  describe('prune', () => {
+    it('expires rows from every cache table', async () => {
+      fakePrisma.$executeRaw.mockResolvedValue(4);
+
+      const result = await service.prune(30);
+
+      expect(result).toEqual({
+        supersededForecasts: 4,
+        expiredHistorical: 2,
+        expiredAirQuality: 2,
+        expiredHourly: 2,
+        expiredClimatology: 365,
+        expiredSnapshots: 1,
+      });
+
+      const cutoff = { fetchedAt: { lt: new Date('2025-01-30T15:00:00Z') } };
+      expect(fakePrisma.airQualityCache.deleteMany).toHaveBeenCalledWith({ where: cutoff });
+      expect(fakePrisma.hourlyWeatherCache.deleteMany).toHaveBeenCalledWith({ where: cutoff });
+      expect(fakePrisma.climatologyCache.deleteMany).toHaveBeenCalledWith({
+        where: { fetchedAt: { lt: new Date('2025-01-01T00:00:00Z') } },
+      });
+    });
+
+    it('refuses a retention shorter than the historical cache lifetime', async () => {
+      await expect(service.prune(3)).rejects.toThrow('at least 7');
+      expect(fakePrisma.weatherCache.deleteMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getStats', () => {
+    it('reports climatology without dates', async () => {
+      const fetchedAt = new Date('2025-02-01T00:00:00Z');
+      fakePrisma.$queryRaw.mockResolvedValue([
+        {
+          cache: 'air_quality',
+          region: 'southwest',
+          data_type: 'forecast',
+          rows: 7,
+          grid_points: 1,
+          oldest_date: new Date('2025-03-01'),
+          newest_date: new Date('2025-03-07'),
+          oldest_fetched_at: fetchedAt,
+          newest_fetched_at: fetchedAt,
+        },
+        {
+          cache: 'climatology',
+          region: 'southwest',
+          data_type: null,
+          rows: 365,
+          grid_points: 1,
+          oldest_date: null,
+          newest_date: null,
+          oldest_fetched_at: fetchedAt,
+          newest_fetched_at: fetchedAt,
+        },
+      ]);
+
+      const stats = await service.getStats();
+
+      expect(stats.map(row => [row.cache, row.dataType, row.oldestDate, row.newestDate])).toEqual([
+        ['air_quality', 'forecast', '2025-03-01', '2025-03-07'],
+        ['climatology', null, null, null],
+      ]);
+    });
+  });
+
+  describe('invalidate', () => {
+    it('deletes matching rows from every cache table', async () => {
+      const deleted = await service.invalidate({ gridPointId: MOAB_GRID_POINT.id });
+
+      expect(deleted).toBe(2 + 2 + 2 + 365);
+      expect(fakePrisma.climatologyCache.deleteMany).toHaveBeenCalledWith({
+        where: { gridPointId: MOAB_GRID_POINT.id },
+      });
+    });
+
+    it('applies date bounds to dated tables and leaves climatology alone', async () => {
+      const deleted = await service.invalidate({
+        region: 'southwest',
+        startDate: '2025-03-02',
+        endDate: '2025-03-04',
+      });
+
+      const dates = { gte: new Date('2025-03-02'), lte: new Date('2025-03-04') };
+      expect(fakePrisma.weatherCache.deleteMany).toHaveBeenCalledWith({
+        where: { gridPoint: { region: 'southwest' }, date: dates },
+      });
+      expect(fakePrisma.hourlyWeatherCache.deleteMany).toHaveBeenCalledWith({
+        where: { gridPoint: { region: 'southwest' }, AND: [{ date: dates }] },
+      });
+      expect(fakePrisma.climatologyCache.deleteMany).not.toHaveBeenCalled();
+      expect(deleted).toBe(6);
+    });
+
+    it('treats air quality for past dates as historical', async () => {
+      await service.invalidate({ region: 'west', dataType: 'historical' });
+
+      expect(fakePrisma.weatherCache.deleteMany).toHaveBeenCalledWith({
+        where: { gridPoint: { region: 'west' }, dataType: 'historical' },
+      });
+      expect(fakePrisma.airQualityCache.deleteMany).toHaveBeenCalledWith({
+        where: { gridPoint: { region: 'west' }, AND: [{ date: { lt: TODAY } }] },
+      });
+      expect(fakePrisma.climatologyCache.deleteMany).toHaveBeenCalled();
+    });
+  });
+});
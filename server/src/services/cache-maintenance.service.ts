@@ -0,0 +1,265 @@
+import { Prisma, PrismaClient, WeatherDataType, type GridRegion } from '@prisma/client';
+import type { WeatherCacheInvalidation } from '../validators/weather.js';
+import { HISTORICAL_CACHE_DAYS } from './weather.service.js';
+
+const prisma = new PrismaClient();
+
+/**
+ * Default days a historical weather, air quality or hourly row is kept after it
+ * was fetched. It stops being served after HISTORICAL_CACHE_DAYS, so older rows
+ * only take up space.
+ */
+export const DEFAULT_HISTORICAL_RETENTION_DAYS = 30;
+
+/**
+ * Days forecast snapshots are kept after their date, so accuracy stats cover
+ * a full year of seasons
+ */
+export const FORECAST_SNAPSHOT_RETENTION_DAYS = 365;
+
+/**
+ * Cache tables maintained here
+ */
+export type WeatherCacheTable = 'weather' | 'air_quality' | 'hourly_weather' | 'climatology';
+
+/**
+ * Rows removed by a pruning run
+ */
+export interface WeatherCachePruneResult {
+  supersededForecasts: number; // Forecasts for past dates that now have historical data
+  expiredHistorical: number; // Historical rows past the retention age
+  expiredAirQuality: number; // Air quality rows past the retention age
+  expiredHourly: number; // Hourly weather rows past the retention age
+  expiredClimatology: number; // Climatology rows fetched before this year
+  expiredSnapshots: number; // Forecast snapshots for dates past their retention
+}
+
+/**
+ * Cache size and age for one table, region and data type. Air quality and
+ * hourly rows count as historical for past dates, the way they're read.
+ * Climatology rows are per day of year, so they have no data type or dates.
+ */
+export interface WeatherCacheStats {
+  cache: WeatherCacheTable;
+  region: GridRegion;
+  dataType: WeatherDataType | null;
+  rows: number;
+  gridPoints: number;
+  oldestDate: string | null;
+  newestDate: string | null;
+  oldestFetchedAt: string;
+  newestFetchedAt: string;
+}
+
+/**
+ * Cache maintenance service - retention, statistics and invalidation for the
+ * weather, air quality, hourly weather and climatology caches. Pruning runs as
+ * a job (scripts/prune-weather-cache.ts); stats and invalidation back the admin
+ * endpoints.
+ */
+export class CacheMaintenanceService {
+  /**
+   * Apply the retention policy: drop forecasts for past dates once historical
+   * data exists for them, historical, air quality and hourly rows fetched more
+   * than `historicalRetentionDays` ago, climatology fetched before this year,
+   * and forecast snapshots for dates more than FORECAST_SNAPSHOT_RETENTION_DAYS ago
+   */
+  async prune(
+    historicalRetentionDays: number = DEFAULT_HISTORICAL_RETENTION_DAYS
+  ): Promise<WeatherCachePruneResult> {
+    if (
+      !Number.isInteger(historicalRetentionDays) ||
+      historicalRetentionDays < HISTORICAL_CACHE_DAYS
+    ) {
+      throw new Error(
+        `Historical retention must be a whole number of days, at least ${HISTORICAL_CACHE_DAYS}`
+      );
+    }
+
+    const supersededForecasts = await prisma.$executeRaw`
+      DELETE FROM weather_cache forecast
+      USING weather_cache historical
+      WHERE forecast.data_type = 'forecast'
+        AND forecast.date < CURRENT_DATE
+        AND historical.grid_point_id = forecast.grid_point_id
+        AND historical.date = forecast.date
+        AND historical.data_type = 'historical'
+    `;
+
+    const cutoff = new Date(Date.now() - historicalRetentionDays * 24 * 60 * 60 * 1000);
+    const { count: expiredHistorical } = await prisma.weatherCache.deleteMany({
+      where: { dataType: WeatherDataType.historical, fetchedAt: { lt: cutoff } },
+    });
+
+    // Forecast air quality and hourly rows expire within hours, so the same
+    // cutoff only ever removes rows that are no longer served
+    const { count: expiredAirQuality } = await prisma.airQualityCache.deleteMany({
+      where: { fetchedAt: { lt: cutoff } },
+    });
+    const { count: expiredHourly } = await prisma.hourlyWeatherCache.deleteMany({
+      where: { fetchedAt: { lt: cutoff } },
+    });
+
+    // Climatology is refetched once the archive span gains a year
+    const yearStart = new Date(new Date().getFullYear(), 0, 1);
+    const { count: expiredClimatology } = await prisma.climatologyCache.deleteMany({
+      where: { fetchedAt: { lt: yearStart } },
+    });
+
+    const snapshotCutoff = new Date(
+      Date.now() - FORECAST_SNAPSHOT_RETENTION_DAYS * 24 * 60 * 60 * 1000
+    );
+    const { count: expiredSnapshots } = await prisma.forecastSnapshot.deleteMany({
+      where: { date: { lt: snapshotCutoff } },
+    });
+
+    return {
+      supersededForecasts,
+      expiredHistorical,
+      expiredAirQuality,
+      expiredHourly,
+      expiredClimatology,
+      expiredSnapshots,
+    };
+  }
+
+  /**
+   * Row counts and date/fetch ranges per cache table, region and data type
+   */
+  async getStats(): Promise<WeatherCacheStats[]> {
+    const rows = await prisma.$queryRaw<
+      Array<{
+        cache: WeatherCacheTable;
+        region: GridRegion;
+        data_type: WeatherDataType | null;
+        rows: number;
+        grid_points: number;
+        oldest_date: Date | null;
+        newest_date: Date | null;
+        oldest_fetched_at: Date;
+        newest_fetched_at: Date;
+      }>
+    >`
+      SELECT
+        'weather' AS cache,
+        g.region,
+        w.data_type::text AS data_type,
+        COUNT(*)::int AS rows,
+        COUNT(DISTINCT w.grid_point_id)::int AS grid_points,
+        MIN(w.date) AS oldest_date,
+        MAX(w.date) AS newest_date,
+        MIN(w.fetched_at) AS oldest_fetched_at,
+        MAX(w.fetched_at) AS newest_fetched_at
+      FROM weather_cache w
+      JOIN grid_points g ON g.id = w.grid_point_id
+      GROUP BY g.region, w.data_type
+      UNION ALL
+      SELECT
+        'air_quality',
+        g.region,
+        CASE WHEN a.date < CURRENT_DATE THEN 'historical' ELSE 'forecast' END,
+        COUNT(*)::int,
+        COUNT(DISTINCT a.grid_point_id)::int,
+        MIN(a.date),
+        MAX(a.date),
+        MIN(a.fetched_at),
+        MAX(a.fetched_at)
+      FROM air_quality_cache a
+      JOIN grid_points g ON g.id = a.grid_point_id
+      GROUP BY 1, 2, 3
+      UNION ALL
+      SELECT
+        'hourly_weather',
+        g.region,
+        CASE WHEN h.date < CURRENT_DATE THEN 'historical' ELSE 'forecast' END,
+        COUNT(*)::int,
+        COUNT(DISTINCT h.grid_point_id)::int,
+        MIN(h.date),
+        MAX(h.date),
+        MIN(h.fetched_at),
+        MAX(h.fetched_at)
+      FROM hourly_weather_cache h
+      JOIN grid_points g ON g.id = h.grid_point_id
+      GROUP BY 1, 2, 3
+      UNION ALL
+      SELECT
+        'climatology',
+        g.region,
+        NULL,
+        COUNT(*)::int,
+        COUNT(DISTINCT c.grid_point_id)::int,
+        NULL::date,
+        NULL::date,
+        MIN(c.fetched_at),
+        MAX(c.fetched_at)
+      FROM climatology_cache c
+      JOIN grid_points g ON g.id = c.grid_point_id
+      GROUP BY 1, 2
+      ORDER BY cache, region, data_type
+    `;
+
+    return rows.map(row => ({
+      cache: row.cache,
+      region: row.region,
+      dataType: row.data_type,
+      rows: row.rows,
+      gridPoints: row.grid_points,
+      oldestDate: row.oldest_date && row.oldest_date.toISOString().split('T')[0],
+      newestDate: row.newest_date && row.newest_date.toISOString().split('T')[0],
+      oldestFetchedAt: row.oldest_fetched_at.toISOString(),
+      newestFetchedAt: row.newest_fetched_at.toISOString(),
+    }));
+  }
+
+  /**
+   * Delete cached weather, air quality, hourly weather and climatology matching
+   * every given scope, so it's refetched on the next lookup. Air quality and
+   * hourly rows for past dates count as historical. Climatology rows have no
+   * dates, so they're only deleted when the scope has no date bounds and isn't
+   * limited to forecasts. Returns the number of rows deleted.
+   */
+  async invalidate(scope: WeatherCacheInvalidation): Promise<number> {
+    const gridPoints = {
+      ...(scope.gridPointId && { gridPointId: scope.gridPointId }),
+      ...(scope.region && { gridPoint: { region: scope.region } }),
+    };
+    const hasDateBounds = Boolean(scope.startDate || scope.endDate);
+    const dates: Prisma.DateTimeFilter = {
+      ...(scope.startDate && { gte: new Date(scope.startDate) }),
+      ...(scope.endDate && { lte: new Date(scope.endDate) }),
+    };
+
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+    const datesOfType: Prisma.DateTimeFilter | undefined =
+      scope.dataType && (scope.dataType === 'forecast' ? { gte: today } : { lt: today });
+
+    const datedWhere = {
+      ...gridPoints,
+      AND: [
+        ...(hasDateBounds ? [{ date: dates }] : []),
+        ...(datesOfType ? [{ date: datesOfType }] : []),
+      ],
+    };
+
+    const results = await prisma.$transaction([
+      prisma.weatherCache.deleteMany({
+        where: {
+          ...gridPoints,
+          ...(scope.dataType && { dataType: scope.dataType }),
+          ...(hasDateBounds && { date: dates }),
+        },
+      }),
+      prisma.airQualityCache.deleteMany({ where: datedWhere }),
+      prisma.hourlyWeatherCache.deleteMany({ where: datedWhere }),
+      ...(!hasDateBounds && scope.dataType !== 'forecast'
+        ? [prisma.climatologyCache.deleteMany({ where: gridPoints })]
+        : []),
+    ]);
+
+    return results.reduce((deleted, result) => deleted + result.count, 0);
+  }
+}
+
+// Export singleton instance
+export const cacheMaintenanceService = new CacheMaintenanceService();
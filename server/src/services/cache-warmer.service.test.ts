@@ -0,0 +1,121 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { CacheWarmerRun } from '@prisma/client';
+import { MOAB_GRID_POINT } from '../__fixtures__/daily-weather.js';
+import { fakePrisma, resetFakePrisma } from '../__fixtures__/prisma.js';
+import { CacheWarmerService } from './cache-warmer.service.js';
+import { weatherService } from './weather.service.js';
+
+vi.mock('@prisma/client', async importOriginal => ({
+  ...(await importOriginal<typeof import('@prisma/client')>()),
+  PrismaClient: (await import('../__fixtures__/prisma.js')).FakePrismaClient,
+}));
+
+const POINTS = [
+  { id: MOAB_GRID_POINT.id, latitude: 38.5733, longitude: -109.5498 },
+  { id: '00000000-0000-4000-8000-000000000002', latitude: 39.0639, longitude: -108.5506 },
+];
+
+/**
+ * Keep the run row in memory, applying created and updated fields (and
+ * increments) the way the database would
+ */
+function stubRunTable() {
+  let row: CacheWarmerRun;
+  fakePrisma.cacheWarmerRun.create.mockImplementation(
+    async ({ data }: { data: Partial<CacheWarmerRun> }) => {
+      row = {
+        id: 'run-1',
+        status: 'running',
+        pointsPlanned: 0,
+        pointsChecked: 0,
+        pointsRefreshed: 0,
+        errors: 0,
+        error: null,
+        startedAt: new Date(),
+        finishedAt: null,
+        ...data,
+      };
+      return row;
+    }
+  );
+  fakePrisma.cacheWarmerRun.update.mockImplementation(
+    async ({ data }: { data: Record<string, unknown> }) => {
+      const updated: Record<string, unknown> = { ...row };
+      for (const [field, value] of Object.entries(data)) {
+        const increment = (value as { increment?: number } | null)?.increment;
+        updated[field] = increment === undefined ? value : (updated[field] as number) + increment;
+      }
+      row = updated as CacheWarmerRun;
+      return row;
+    }
+  );
+}
+
+describe('CacheWarmerService', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2025-03-01T15:00:00Z'));
+    stubRunTable();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+    resetFakePrisma();
+  });
+
+  it('refreshes forecasts that would expire before the next run, a batch at a time', async () => {
+    fakePrisma.gridPoint.count.mockResolvedValue(POINTS.length);
+    fakePrisma.gridPoint.findMany.mockResolvedValueOnce(POINTS);
+    const refresh = vi.spyOn(weatherService, 'refreshForecasts').mockResolvedValue(1);
+
+    const run = await new CacheWarmerService().run({ intervalHours: 2 });
+
+    expect(refresh).toHaveBeenCalledTimes(1);
+    expect(refresh).toHaveBeenCalledWith(POINTS, 4);
+    expect(run).toMatchObject({
+      status: 'completed',
+      pointsPlanned: 2,
+      pointsChecked: 2,
+      pointsRefreshed: 1,
+      errors: 0,
+    });
+  });
+
+  it('refuses an interval too short to refresh the grid at the rate limit', async () => {
+    fakePrisma.gridPoint.count.mockResolvedValue(1_000_000);
+
+    await expect(new CacheWarmerService().run({ intervalHours: 1 })).rejects.toThrow(
+      'Refreshing 1000000 grid points takes at least 1.9 hours'
+    );
+    expect(fakePrisma.cacheWarmerRun.create).not.toHaveBeenCalled();
+  });
+
+  it('fails the run once it overruns its interval', async () => {
+    fakePrisma.gridPoint.count.mockResolvedValue(4);
+    fakePrisma.gridPoint.findMany.mockResolvedValue(POINTS);
+    vi.spyOn(weatherService, 'refreshForecasts').mockImplementation(async () => {
+      vi.setSystemTime(Date.now() + 90 * 60 * 1000);
+      return 2;
+    });
+
+    const run = await new CacheWarmerService().run({ intervalHours: 1 });
+
+    expect(run).toMatchObject({
+      status: 'failed',
+      error: 'Run overran its 1-hour interval after checking 2 of 4 grid points',
+      pointsChecked: 2,
+    });
+  });
+
+  it('counts failed batches without stopping the run', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    fakePrisma.gridPoint.count.mockResolvedValue(POINTS.length);
+    fakePrisma.gridPoint.findMany.mockResolvedValueOnce(POINTS);
+    vi.spyOn(weatherService, 'refreshForecasts').mockRejectedValue(new Error('upstream down'));
+
+    const run = await new CacheWarmerService().run();
+
+    expect(run).toMatchObject({ status: 'completed', pointsChecked: 2, errors: 1 });
+  });
+});
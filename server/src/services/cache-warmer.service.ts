@@ -0,0 +1,211 @@
+import { PrismaClient, GridRegion, type CacheWarmerRun } from '@prisma/client';
+import { openMeteoProvider } from '../providers/openmeteo.provider.js';
+import { FORECAST_CACHE_HOURS, weatherService } from './weather.service.js';
+
+const prisma = new PrismaClient();
+
+/**
+ * Grid points checked and refreshed together. Points needing a refresh share
+ * multi-location provider requests, paced by the provider's rate limiter.
+ */
+const WARM_BATCH_SIZE = 50;
+
+/**
+ * Default hours between scheduled runs - half the forecast cache lifetime, so
+ * each forecast is refreshed once or twice before it would expire
+ */
+export const DEFAULT_WARM_INTERVAL_HOURS = FORECAST_CACHE_HOURS / 2;
+
+export type CacheWarmerRunState = 'running' | 'completed' | 'failed';
+
+/**
+ * Snapshot of a cache warmer run as returned to clients
+ */
+export interface CacheWarmerRunStatus {
+  id: string;
+  status: CacheWarmerRunState;
+  pointsPlanned: number;
+  pointsChecked: number;
+  pointsRefreshed: number;
+  errors: number; // Batches that failed to refresh
+  error: string | null;
+  startedAt: string;
+  finishedAt: string | null;
+}
+
+/**
+ * The latest run (possibly still running) and the last one that finished
+ */
+export interface CacheWarmerStatus {
+  latestRun: CacheWarmerRunStatus | null;
+  lastFinishedRun: CacheWarmerRunStatus | null;
+}
+
+/**
+ * Options for a cache warmer run
+ */
+export interface CacheWarmOptions {
+  /**
+   * Regions to warm first, in this order. Remaining regions follow, most
+   * searched first.
+   */
+  regions?: GridRegion[];
+
+  /**
+   * Hours until the next run (default DEFAULT_WARM_INTERVAL_HOURS). Forecasts
+   * that would expire before then are refreshed.
+   */
+  intervalHours?: number;
+
+  onProgress?: (run: CacheWarmerRunStatus) => void;
+}
+
+/**
+ * Cache warmer service - keeps the forecast cache fresh for every grid point,
+ * so searches don't wait on provider requests. Each run walks the grid a region
+ * at a time, refetching forecasts that would expire before the next run through
+ * Open-Meteo's multi-location requests. A run has to finish within its interval,
+ * so runs never overlap.
+ * Runs are recorded in the database, so their status is visible to the API
+ * while the warmer runs in its own process (scripts/warm-forecast-cache.ts).
+ */
+export class CacheWarmerService {
+  async run(options: CacheWarmOptions = {}): Promise<CacheWarmerRunStatus> {
+    const intervalHours = options.intervalHours ?? DEFAULT_WARM_INTERVAL_HOURS;
+    if (!(intervalHours > 0 && intervalHours <= FORECAST_CACHE_HOURS)) {
+      throw new Error(`intervalHours must be more than 0 and at most ${FORECAST_CACHE_HOURS}`);
+    }
+
+    // Refreshing every point has to fit in the interval, even at the rate limit
+    const pointsPlanned = await prisma.gridPoint.count();
+    const minimumHours = openMeteoProvider.minimumForecastSeconds(pointsPlanned) / 3600;
+    if (minimumHours > intervalHours) {
+      throw new Error(
+        `Refreshing ${pointsPlanned} grid points takes at least ${minimumHours.toFixed(1)} hours ` +
+          `at the Open-Meteo rate limit; intervalHours must be at least that`
+      );
+    }
+
+    // Anything older than this would expire before the next run
+    const refreshAfterHours = FORECAST_CACHE_HOURS - intervalHours;
+    const deadline = Date.now() + intervalHours * 60 * 60 * 1000;
+    const regions = await this.regionPriority(options.regions ?? []);
+
+    let run = await prisma.cacheWarmerRun.create({
+      data: { status: 'running', pointsPlanned },
+    });
+
+    try {
+      for (const region of regions) {
+        let cursor: string | undefined;
+
+        while (true) {
+          // Stop rather than run into the next scheduled run
+          if (Date.now() > deadline) {
+            throw new Error(
+              `Run overran its ${intervalHours}-hour interval after checking ` +
+                `${run.pointsChecked} of ${run.pointsPlanned} grid points`
+            );
+          }
+
+          const points = await prisma.gridPoint.findMany({
+            where: { region, ...(cursor && { id: { gt: cursor } }) },
+            select: { id: true, latitude: true, longitude: true },
+            orderBy: { id: 'asc' },
+            take: WARM_BATCH_SIZE,
+          });
+
+          if (points.length === 0) {
+            break;
+          }
+
+          let refreshed = 0;
+          let failed = false;
+          try {
+            refreshed = await weatherService.refreshForecasts(points, refreshAfterHours);
+          } catch (error) {
+            failed = true;
+            console.error(
+              `Error warming forecasts for ${points.length} grid points in ${region}:`,
+              error
+            );
+          }
+
+          run = await prisma.cacheWarmerRun.update({
+            where: { id: run.id },
+            data: {
+              pointsChecked: { increment: points.length },
+              pointsRefreshed: { increment: refreshed },
+              errors: { increment: failed ? 1 : 0 },
+            },
+          });
+          options.onProgress?.(this.toStatus(run));
+
+          cursor = points[points.length - 1].id;
+        }
+      }
+
+      run = await prisma.cacheWarmerRun.update({
+        where: { id: run.id },
+        data: { status: 'completed', finishedAt: new Date() },
+      });
+    } catch (error) {
+      run = await prisma.cacheWarmerRun.update({
+        where: { id: run.id },
+        data: {
+          status: 'failed',
+          error: error instanceof Error ? error.message : 'Cache warmer failed',
+          finishedAt: new Date(),
+        },
+      });
+    }
+
+    return this.toStatus(run);
+  }
+
+  /**
+   * Latest run and last finished run, for the status endpoint
+   */
+  async getStatus(): Promise<CacheWarmerStatus> {
+    const [latestRun, lastFinishedRun] = await Promise.all([
+      prisma.cacheWarmerRun.findFirst({ orderBy: { startedAt: 'desc' } }),
+      prisma.cacheWarmerRun.findFirst({
+        where: { finishedAt: { not: null } },
+        orderBy: { startedAt: 'desc' },
+      }),
+    ]);
+
+    return {
+      latestRun: latestRun && this.toStatus(latestRun),
+      lastFinishedRun: lastFinishedRun && this.toStatus(lastFinishedRun),
+    };
+  }
+
+  /**
+   * Every region, with the given ones first, then by how often searches
+   * return results there
+   */
+  private async regionPriority(first: GridRegion[]): Promise<GridRegion[]> {
+    const stats = await prisma.regionSearchStat.findMany({ orderBy: { searches: 'desc' } });
+    const searched = stats.map(stat => stat.region);
+
+    return Array.from(new Set([...first, ...searched, ...Object.values(GridRegion)]));
+  }
+
+  private toStatus(run: CacheWarmerRun): CacheWarmerRunStatus {
+    return {
+      id: run.id,
+      status: run.status as CacheWarmerRunState,
+      pointsPlanned: run.pointsPlanned,
+      pointsChecked: run.pointsChecked,
+      pointsRefreshed: run.pointsRefreshed,
+      errors: run.errors,
+      error: run.error,
+      startedAt: run.startedAt.toISOString(),
+      finishedAt: run.finishedAt?.toISOString() ?? null,
+    };
+  }
+}
+
+// Export singleton instance
+export const cacheWarmerService = new CacheWarmerService();
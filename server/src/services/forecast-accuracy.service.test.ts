@@ -0,0 +1,120 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { DailyWeather, WeatherProvider } from '../types/weather.js';
+import { dailyWeather, MOAB_GRID_POINT } from '../__fixtures__/daily-weather.js';
+import { fakePrisma, resetFakePrisma } from '../__fixtures__/prisma.js';
+import { ForecastAccuracyService } from './forecast-accuracy.service.js';
+
+vi.mock('@prisma/client', async importOriginal => ({
+  ...(await importOriginal<typeof import('@prisma/client')>()),
+  PrismaClient: (await import('../__fixtures__/prisma.js')).FakePrismaClient,
+}));
+
+// The last digits of the id (0x14 = 20) put this point in the snapshot sample
+const SAMPLED_POINT = {
+  id: '00000000-0000-4000-8000-000000000014',
+  latitude: 39.0639,
+  longitude: -108.5506,
+};
+
+/**
+ * Observation provider answering every batch with the given days for each location
+ */
+function observations(days: DailyWeather[]): WeatherProvider {
+  return {
+    name: 'open-meteo',
+    getWeather: async () => days,
+    getWeatherBatch: async locations => locations.map(() => days),
+    supportsDateRange: () => true,
+  };
+}
+
+describe('ForecastAccuracyService', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2025-03-10T15:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    resetFakePrisma();
+  });
+
+  describe('recordSnapshots', () => {
+    it('snapshots forecast days ahead of today for sampled grid points only', async () => {
+      const daily = [
+        dailyWeather('2025-03-09', { dataType: 'historical' }),
+        dailyWeather('2025-03-10', { tempHigh: 61 }),
+        dailyWeather('2025-03-12', { tempHigh: 64, precipChance: 30 }),
+      ];
+
+      await new ForecastAccuracyService(observations([])).recordSnapshots([
+        { gridPointId: MOAB_GRID_POINT.id, daily },
+        { gridPointId: SAMPLED_POINT.id, daily },
+      ]);
+
+      const [{ data }] = fakePrisma.forecastSnapshot.createMany.mock.calls[0];
+      expect(data).toEqual([
+        expect.objectContaining({ gridPointId: SAMPLED_POINT.id, leadDays: 0, tempHigh: 61 }),
+        expect.objectContaining({
+          gridPointId: SAMPLED_POINT.id,
+          leadDays: 2,
+          tempHigh: 64,
+          precipChance: 30,
+        }),
+      ]);
+    });
+
+    it('writes nothing when no grid point is sampled', async () => {
+      await new ForecastAccuracyService(observations([])).recordSnapshots([
+        { gridPointId: MOAB_GRID_POINT.id, daily: [dailyWeather('2025-03-11')] },
+      ]);
+
+      expect(fakePrisma.forecastSnapshot.createMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('verify', () => {
+    beforeEach(() => {
+      fakePrisma.gridPoint.findMany.mockResolvedValueOnce([SAMPLED_POINT]);
+      fakePrisma.forecastSnapshot.aggregate.mockResolvedValue({
+        _min: { date: new Date('2025-03-01') },
+        _max: { date: new Date('2025-03-03') },
+      });
+      fakePrisma.forecastSnapshot.updateMany.mockResolvedValue({ count: 1 });
+    });
+
+    it('records observations, leaving days without them pending', async () => {
+      const service = new ForecastAccuracyService(
+        observations([
+          dailyWeather('2025-03-01', { dataType: 'historical', tempHigh: 58, precipAmount: 0.2 }),
+          // Not in the archive yet: missing outright, or reported without values
+          dailyWeather('2025-03-03', { dataType: 'historical', tempHigh: NaN, tempLow: NaN }),
+        ])
+      );
+
+      const result = await service.verify();
+
+      expect(result).toEqual({ pointsChecked: 1, snapshotsVerified: 1 });
+      expect(fakePrisma.forecastSnapshot.updateMany).toHaveBeenCalledTimes(1);
+      expect(fakePrisma.forecastSnapshot.updateMany).toHaveBeenCalledWith({
+        where: { gridPointId: SAMPLED_POINT.id, date: new Date('2025-03-01'), observedAt: null },
+        data: {
+          observedTempHigh: 58,
+          observedTempLow: 50,
+          observedPrecipAmount: 0.2,
+          observedAt: new Date('2025-03-10T15:00:00Z'),
+        },
+      });
+    });
+
+    it('only verifies dates far enough past for the archive', async () => {
+      await new ForecastAccuracyService(observations([])).verify();
+
+      const [{ where }] = fakePrisma.gridPoint.findMany.mock.calls[0];
+      expect(where.forecastSnapshots.some).toEqual({
+        observedAt: null,
+        date: { lte: new Date('2025-03-05T00:00:00Z') },
+      });
+    });
+  });
+});
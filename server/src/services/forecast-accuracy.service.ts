@@ -0,0 +1,339 @@
+import { Prisma, PrismaClient, type GridRegion } from '@prisma/client';
+import type { DailyWeather, WeatherProvider } from '../types/weather.js';
+import type { ForecastAccuracyQuery } from '../validators/weather.js';
+import { openMeteoProvider } from '../providers/openmeteo.provider.js';
+
+const prisma = new PrismaClient();
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Days after a date before it's verified. The archive lags a few days behind
+ * and reports missing values until then.
+ */
+export const OBSERVATION_DELAY_DAYS = 5;
+
+/**
+ * Forecasts are only snapshotted for one grid point in this many, so fetches
+ * don't all write snapshots. The same points are sampled every time, so each
+ * gets a snapshot at every lead time.
+ */
+export const SNAPSHOT_SAMPLE_EVERY = 20;
+
+/**
+ * Grid points verified together, sharing multi-location archive requests
+ */
+const VERIFY_BATCH_SIZE = 50;
+
+/**
+ * A forecast calls for precipitation at this chance (%) or higher, and a day
+ * is wet with at least this much observed precipitation (inches)
+ */
+const PRECIP_FORECAST_CHANCE = 50;
+const MEASURABLE_PRECIP_INCHES = 0.01;
+
+/**
+ * Verified forecasts needed at a lead time (in a region, or overall) before
+ * their accuracy replaces the modelled confidence
+ */
+const MIN_CONFIDENCE_SAMPLES = 50;
+
+/**
+ * Mean temperature error (°F) at which a forecast has no temperature skill left
+ */
+const NO_SKILL_TEMP_MAE_F = 10;
+
+/**
+ * How long measured confidence is reused before it's recomputed
+ */
+const CONFIDENCE_CACHE_MINUTES = 60;
+
+/**
+ * Forecast error for one region and lead time, over verified forecasts
+ */
+export interface ForecastAccuracyStats {
+  region: GridRegion;
+  leadDays: number;
+  samples: number;
+  tempHighMae: number; // Mean absolute error, °F
+  tempLowMae: number; // Mean absolute error, °F
+  precipHitRate: number; // 0-1, days where forecast precipitation matched what was observed
+}
+
+/**
+ * Outcome of a verification run
+ */
+export interface ForecastVerificationResult {
+  pointsChecked: number;
+  snapshotsVerified: number;
+}
+
+/**
+ * Measured confidence (0-1) in a forecast for a region and lead time. Falls
+ * back to all regions, and returns null where too few forecasts are verified.
+ */
+export type ForecastConfidenceLookup = (
+  region: string | undefined,
+  leadDays: number
+) => number | null;
+
+/**
+ * Whether forecasts for a grid point are snapshotted. Grid point ids are random
+ * UUIDs, so their last digits pick an even spread of points.
+ */
+function isSnapshotSampled(gridPointId: string): boolean {
+  return parseInt(gridPointId.slice(-8), 16) % SNAPSHOT_SAMPLE_EVERY === 0;
+}
+
+/**
+ * Forecast accuracy service - snapshots forecasts when they're fetched for a
+ * sample of grid points, pairs them with archive observations once their dates
+ * have passed, and measures the error per region and lead time. Verification
+ * runs as a job (scripts/verify-forecasts.ts); the stats back an endpoint and
+ * the confidence given to forecast days.
+ */
+export class ForecastAccuracyService {
+  private observationProvider: WeatherProvider;
+
+  // Measured confidence, recomputed every CONFIDENCE_CACHE_MINUTES
+  private confidence: { lookup: Promise<ForecastConfidenceLookup>; expiresAt: number } | null =
+    null;
+
+  constructor(observations: WeatherProvider = openMeteoProvider) {
+    this.observationProvider = observations;
+  }
+
+  /**
+   * Snapshot freshly fetched forecast days for sampled grid points (see
+   * SNAPSHOT_SAMPLE_EVERY). Only the first fetch at each lead time is kept, so
+   * refetches within a day don't skew the stats.
+   */
+  async recordSnapshots(
+    entries: Array<{ gridPointId: string; daily: DailyWeather[] }>
+  ): Promise<void> {
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+
+    const sampled = entries.filter(entry => isSnapshotSampled(entry.gridPointId));
+    const data = sampled.flatMap(({ gridPointId, daily }) =>
+      daily
+        .filter(day => day.dataType === 'forecast')
+        .map(day => ({
+          gridPointId,
+          date: new Date(day.date),
+          leadDays: Math.round((new Date(day.date).getTime() - today.getTime()) / DAY_MS),
+          provider: day.provider,
+          tempHigh: day.tempHigh,
+          tempLow: day.tempLow,
+          precipChance: day.precipChance,
+        }))
+        .filter(snapshot => snapshot.leadDays >= 0)
+    );
+
+    if (data.length > 0) {
+      await prisma.forecastSnapshot.createMany({ data, skipDuplicates: true });
+    }
+  }
+
+  /**
+   * Fetch observations for snapshots whose dates are at least
+   * OBSERVATION_DELAY_DAYS past, a batch of grid points at a time. Dates the
+   * archive doesn't cover yet, or has no observed temperatures for, stay
+   * pending for the next run.
+   */
+  async verify(
+    onProgress?: (result: ForecastVerificationResult) => void
+  ): Promise<ForecastVerificationResult> {
+    const cutoff = new Date();
+    cutoff.setHours(0, 0, 0, 0);
+    cutoff.setDate(cutoff.getDate() - OBSERVATION_DELAY_DAYS);
+    const pending = { observedAt: null, date: { lte: cutoff } };
+
+    const result: ForecastVerificationResult = { pointsChecked: 0, snapshotsVerified: 0 };
+    let cursor: string | undefined;
+
+    while (true) {
+      const points = await prisma.gridPoint.findMany({
+        where: { forecastSnapshots: { some: pending }, ...(cursor && { id: { gt: cursor } }) },
+        select: { id: true, latitude: true, longitude: true },
+        orderBy: { id: 'asc' },
+        take: VERIFY_BATCH_SIZE,
+      });
+
+      if (points.length === 0) {
+        break;
+      }
+
+      const range = await prisma.forecastSnapshot.aggregate({
+        where: { ...pending, gridPointId: { in: points.map(point => point.id) } },
+        _min: { date: true },
+        _max: { date: true },
+      });
+      const observed = await this.observationProvider.getWeatherBatch(
+        points,
+        this.formatDate(range._min.date!),
+        this.formatDate(range._max.date!)
+      );
+
+      const observedAt = new Date();
+      const updates = await prisma.$transaction(
+        points.flatMap((point, i) =>
+          observed[i]
+            .filter(
+              day =>
+                day.dataType === 'historical' &&
+                Number.isFinite(day.tempHigh) &&
+                Number.isFinite(day.tempLow)
+            )
+            .map(day =>
+              prisma.forecastSnapshot.updateMany({
+                where: { gridPointId: point.id, date: new Date(day.date), observedAt: null },
+                data: {
+                  observedTempHigh: day.tempHigh,
+                  observedTempLow: day.tempLow,
+                  observedPrecipAmount: day.precipAmount,
+                  observedAt,
+                },
+              })
+            )
+        )
+      );
+
+      result.pointsChecked += points.length;
+      result.snapshotsVerified += updates.reduce((sum, update) => sum + update.count, 0);
+      onProgress?.({ ...result });
+
+      cursor = points[points.length - 1].id;
+    }
+
+    return result;
+  }
+
+  /**
+   * Error statistics per region and lead time over verified forecasts,
+   * optionally for one region or provider, or dates in the last `days` days
+   */
+  async getStats(query: ForecastAccuracyQuery = {}): Promise<ForecastAccuracyStats[]> {
+    const conditions = [
+      Prisma.sql`s.observed_at IS NOT NULL`,
+      ...(query.region ? [Prisma.sql`g.region = ${query.region}::grid_region`] : []),
+      ...(query.provider ? [Prisma.sql`s.provider = ${query.provider}`] : []),
+      ...(query.days ? [Prisma.sql`s.date >= CURRENT_DATE - ${query.days}::int`] : []),
+    ];
+
+    const rows = await prisma.$queryRaw<
+      Array<{
+        region: GridRegion;
+        lead_days: number;
+        samples: number;
+        temp_high_mae: number;
+        temp_low_mae: number;
+        precip_hit_rate: number;
+      }>
+    >`
+      SELECT
+        g.region,
+        s.lead_days,
+        COUNT(*)::int AS samples,
+        AVG(ABS(s.temp_high - s.observed_temp_high))::float8 AS temp_high_mae,
+        AVG(ABS(s.temp_low - s.observed_temp_low))::float8 AS temp_low_mae,
+        AVG(
+          CASE
+            WHEN (s.precip_chance >= ${PRECIP_FORECAST_CHANCE})
+              = (s.observed_precip_amount >= ${MEASURABLE_PRECIP_INCHES})
+            THEN 1 ELSE 0
+          END
+        )::float8 AS precip_hit_rate
+      FROM forecast_snapshots s
+      JOIN grid_points g ON g.id = s.grid_point_id
+      WHERE ${Prisma.join(conditions, ' AND ')}
+      GROUP BY g.region, s.lead_days
+      ORDER BY g.region, s.lead_days
+    `;
+
+    const round = (value: number, places: number) =>
+      Math.round(value * 10 ** places) / 10 ** places;
+
+    return rows.map(row => ({
+      region: row.region,
+      leadDays: row.lead_days,
+      samples: row.samples,
+      tempHighMae: round(row.temp_high_mae, 1),
+      tempLowMae: round(row.temp_low_mae, 1),
+      precipHitRate: round(row.precip_hit_rate, 2),
+    }));
+  }
+
+  /**
+   * Measured confidence by region and lead time, from all verified forecasts
+   */
+  getConfidenceLookup(): Promise<ForecastConfidenceLookup> {
+    if (!this.confidence || Date.now() >= this.confidence.expiresAt) {
+      const lookup = this.getStats().then(stats => this.buildConfidenceLookup(stats));
+      this.confidence = { lookup, expiresAt: Date.now() + CONFIDENCE_CACHE_MINUTES * 60 * 1000 };
+
+      // Retry on the next call rather than caching a failure
+      lookup.catch(() => {
+        if (this.confidence?.lookup === lookup) {
+          this.confidence = null;
+        }
+      });
+    }
+
+    return this.confidence.lookup;
+  }
+
+  private buildConfidenceLookup(stats: ForecastAccuracyStats[]): ForecastConfidenceLookup {
+    const byRegion = new Map<string, number>();
+    const byLead = new Map<number, ForecastAccuracyStats[]>();
+
+    for (const stat of stats) {
+      if (stat.samples >= MIN_CONFIDENCE_SAMPLES) {
+        byRegion.set(`${stat.region}:${stat.leadDays}`, this.confidenceFrom(stat));
+      }
+      byLead.set(stat.leadDays, [...(byLead.get(stat.leadDays) ?? []), stat]);
+    }
+
+    // All regions together, weighting each region by its samples
+    const overall = new Map<number, number>();
+    for (const [leadDays, regions] of byLead) {
+      const samples = regions.reduce((sum, stat) => sum + stat.samples, 0);
+      if (samples < MIN_CONFIDENCE_SAMPLES) continue;
+
+      const mean = (field: 'tempHighMae' | 'tempLowMae' | 'precipHitRate') =>
+        regions.reduce((sum, stat) => sum + stat[field] * stat.samples, 0) / samples;
+      overall.set(
+        leadDays,
+        this.confidenceFrom({
+          tempHighMae: mean('tempHighMae'),
+          tempLowMae: mean('tempLowMae'),
+          precipHitRate: mean('precipHitRate'),
+        })
+      );
+    }
+
+    return (region, leadDays) =>
+      (region !== undefined ? byRegion.get(`${region}:${leadDays}`) : undefined) ??
+      overall.get(leadDays) ??
+      null;
+  }
+
+  /**
+   * Confidence from forecast error: the mean of temperature skill (1 with no
+   * error, 0 at NO_SKILL_TEMP_MAE_F) and the precipitation hit rate
+   */
+  private confidenceFrom(
+    stat: Pick<ForecastAccuracyStats, 'tempHighMae' | 'tempLowMae' | 'precipHitRate'>
+  ): number {
+    const tempMae = (stat.tempHighMae + stat.tempLowMae) / 2;
+    const tempSkill = Math.max(0, 1 - tempMae / NO_SKILL_TEMP_MAE_F);
+    return Math.round(((tempSkill + stat.precipHitRate) / 2) * 100) / 100;
+  }
+
+  private formatDate(date: Date): string {
+    return date.toISOString().split('T')[0];
+  }
+}
+
+// Export singleton instance
+export const forecastAccuracyService = new ForecastAccuracyService();
@@ -0,0 +1,168 @@
+import { afterEach, beforeEach, describe, expect, it, vi, type MockInstance } from 'vitest';
+import type { GridPointWeather } from '../types/weather.js';
+import { dailyWeather } from '../__fixtures__/daily-weather.js';
+import { scoringService } from './scoring.service.js';
+import { weatherService } from './weather.service.js';
+import {
+  RouteSearchError,
+  RouteSearchService,
+  type RouteSearchParams,
+} from './route-search.service.js';
+
+const queryRaw = vi.hoisted(() => vi.fn());
+
+vi.mock('@prisma/client', async importOriginal => ({
+  ...(await importOriginal<typeof import('@prisma/client')>()),
+  PrismaClient: class {
+    $queryRaw = queryRaw;
+  },
+}));
+
+/**
+ * Grid points near I-70 across Utah and Colorado, as the corridor query returns them
+ */
+const CORRIDOR = [
+  { id: 'green-river', latitude: 38.0, longitude: -109.5, tempHigh: 70 },
+  { id: 'grand-junction', latitude: 38.0, longitude: -107.0, tempHigh: 85 },
+  { id: 'aspen', latitude: 38.25, longitude: -106.0, tempHigh: 70 },
+];
+
+function params(overrides: Partial<RouteSearchParams> = {}): RouteSearchParams {
+  const filters = { highMax: 80 };
+  return {
+    route: {
+      type: 'LineString',
+      coordinates: [
+        [-110, 38],
+        [-105, 38],
+      ],
+    },
+    corridorMiles: 25,
+    departureDate: '2025-06-01',
+    dailyMiles: 150,
+    filters,
+    scoring: scoringService.resolveScoring(filters),
+    ...overrides,
+  };
+}
+
+describe('RouteSearchService', () => {
+  let getGridPointsWeather: MockInstance<typeof weatherService.getGridPointsWeather>;
+
+  beforeEach(() => {
+    queryRaw.mockResolvedValue(
+      CORRIDOR.map(({ id, latitude, longitude }) => ({
+        id,
+        latitude,
+        longitude,
+        nearest_city: null,
+        state: 'CO',
+        region: 'southwest',
+      }))
+    );
+
+    getGridPointsWeather = vi
+      .spyOn(weatherService, 'getGridPointsWeather')
+      .mockImplementation(async (gridPoints, startDate) =>
+        gridPoints.map(
+          (point): GridPointWeather => ({
+            gridPointId: point.id,
+            latitude: point.latitude,
+            longitude: point.longitude,
+            daily: [
+              dailyWeather(startDate, {
+                tempHigh: CORRIDOR.find(stop => stop.id === point.id)!.tempHigh,
+              }),
+            ],
+            dataSource: 'forecast',
+            fetchedAt: new Date(),
+            freshness: { ageMinutes: 0, staleDays: 0, refreshing: false },
+          })
+        )
+      );
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('scores each stop for the day the traveller reaches it', async () => {
+    const { segments, meta } = await new RouteSearchService().search(params());
+
+    expect(meta).toEqual({ routeMiles: 272, corridorPoints: 3, pointsScored: 3 });
+    expect(segments.map(({ stops, ...segment }) => segment)).toEqual([
+      { day: 1, date: '2025-06-01', startMile: 0, endMile: 150 },
+      { day: 2, date: '2025-06-02', startMile: 150, endMile: 272 },
+    ]);
+    expect(
+      segments.map(segment =>
+        segment.stops.map(stop => [stop.gridPointId, stop.score, stop.routeMile, stop.detourMiles])
+      )
+    ).toEqual([
+      [['green-river', 100, 27, 0]],
+      [
+        ['aspen', 100, 218, 17.3],
+        ['grand-junction', 50, 163, 0],
+      ],
+    ]);
+
+    // Points reached on the same day share one weather request for that date
+    const requested = getGridPointsWeather.mock.calls.map(([points, startDate, endDate]) => [
+      points.map(point => point.id),
+      startDate,
+      endDate,
+    ]);
+    expect(requested).toEqual([
+      [['green-river'], '2025-06-01', '2025-06-01'],
+      [['grand-junction', 'aspen'], '2025-06-02', '2025-06-02'],
+    ]);
+  });
+
+  it('drops stops under minScore and keeps stopsPerDay of the rest', async () => {
+    const service = new RouteSearchService();
+
+    const filtered = await service.search(params({ options: { minScore: 60 } }));
+    const limited = await service.search(params({ options: { stopsPerDay: 1 } }));
+
+    expect(filtered.segments[1].stops.map(stop => stop.gridPointId)).toEqual(['aspen']);
+    expect(limited.segments[1].stops.map(stop => stop.gridPointId)).toEqual(['aspen']);
+  });
+
+  it('plans an encoded polyline like the same route as coordinates', async () => {
+    const service = new RouteSearchService();
+
+    // Google's example polyline: (38.5, -120.2), (40.7, -120.95), (43.252, -126.453)
+    const encoded = await service.search(
+      params({ route: { encodedPolyline: '_p~iF~ps|U_ulLnnqC_mqNvxq`@', precision: 5 } })
+    );
+    const coordinates = await service.search(
+      params({
+        route: {
+          type: 'LineString',
+          coordinates: [
+            [-120.2, 38.5],
+            [-120.95, 40.7],
+            [-126.453, 43.252],
+          ],
+        },
+      })
+    );
+
+    expect(encoded.meta.routeMiles).toBe(490);
+    expect(encoded).toEqual(coordinates);
+  });
+
+  it('rejects routes it cannot plan', async () => {
+    const service = new RouteSearchService();
+
+    await expect(
+      service.search(params({ route: { encodedPolyline: '_p~iF~ps', precision: 5 } }))
+    ).rejects.toMatchObject({ code: 'INVALID_ROUTE' });
+
+    // 272 miles at 2 miles a day is far beyond the 90-day limit
+    const tooLong = service.search(params({ dailyMiles: 2 }));
+    await expect(tooLong).rejects.toBeInstanceOf(RouteSearchError);
+    await expect(tooLong).rejects.toMatchObject({ code: 'DATE_RANGE_TOO_LARGE' });
+    expect(queryRaw).not.toHaveBeenCalled();
+  });
+});
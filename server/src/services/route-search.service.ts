@@ -0,0 +1,387 @@
+import { PrismaClient } from '@prisma/client';
+import type { RouteGeometry, UnitSystem, WeatherFilters } from '../validators/weather.js';
+import type {
+  AppliedScoring,
+  GridPointSummary,
+  RouteDaySegment,
+  RouteSearchMeta,
+  RouteStopCandidate,
+} from '../types/weather.js';
+import { METERS_PER_MILE, filtersToImperial, scoredLocationToUnits } from '../providers/units.js';
+import { weatherService } from './weather.service.js';
+import { scoringService } from './scoring.service.js';
+
+const prisma = new PrismaClient();
+
+const EARTH_RADIUS_MILES = 3958.8;
+
+/**
+ * Longest trip we'll plan, matching the search date range limit
+ */
+const MAX_ROUTE_DAYS = 90;
+
+/**
+ * Corridors with more grid points than this are thinned to a coarser grid
+ * (every 2nd, 3rd... point in each direction) before scoring
+ */
+const MAX_CORRIDOR_POINTS = 600;
+
+/**
+ * Grid spacing in degrees, used to thin large corridors
+ */
+const GRID_SPACING = 0.25;
+
+/**
+ * Grid points fetched and scored together (points reached on the same day
+ * share multi-location provider requests)
+ */
+const SCORE_BATCH_SIZE = 50;
+
+/**
+ * Parameters for a route corridor search
+ */
+export interface RouteSearchParams {
+  route: RouteGeometry;
+  corridorMiles: number;
+  departureDate: string;
+  dailyMiles: number;
+  filters: WeatherFilters;
+  options?: { stopsPerDay?: number; minScore?: number; units?: UnitSystem; climatologyYears?: number };
+  scoring: AppliedScoring;
+}
+
+/**
+ * Stop candidates grouped by driving day, plus coverage statistics
+ */
+export interface RouteSearchOutcome {
+  segments: RouteDaySegment[];
+  meta: RouteSearchMeta;
+}
+
+/**
+ * Thrown for routes we can't plan; code matches the API error codes
+ */
+export class RouteSearchError extends Error {
+  code: 'INVALID_ROUTE' | 'DATE_RANGE_TOO_LARGE';
+
+  constructor(code: RouteSearchError['code'], message: string) {
+    super(message);
+    this.name = 'RouteSearchError';
+    this.code = code;
+  }
+}
+
+/**
+ * A route vertex with its cumulative distance from the start
+ */
+interface RoutePoint {
+  lat: number;
+  lon: number;
+  mile: number;
+}
+
+/**
+ * Decode a Google encoded polyline into [lat, lon] pairs
+ * https://developers.google.com/maps/documentation/utilities/polylinealgorithm
+ */
+function decodePolyline(encoded: string, precision: number): Array<[number, number]> {
+  const factor = 10 ** precision;
+  const coordinates: Array<[number, number]> = [];
+  let index = 0;
+  let lat = 0;
+  let lon = 0;
+
+  const nextValue = (): number => {
+    let result = 0;
+    let shift = 0;
+    let byte: number;
+
+    do {
+      if (index >= encoded.length) {
+        throw new RouteSearchError('INVALID_ROUTE', 'Encoded polyline is truncated');
+      }
+      byte = encoded.charCodeAt(index++) - 63;
+      result |= (byte & 0x1f) << shift;
+      shift += 5;
+    } while (byte >= 0x20);
+
+    return result & 1 ? ~(result >> 1) : result >> 1;
+  };
+
+  while (index < encoded.length) {
+    lat += nextValue();
+    lon += nextValue();
+    coordinates.push([lat / factor, lon / factor]);
+  }
+
+  return coordinates;
+}
+
+function haversineMiles(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(lat2 - lat1);
+  const dLon = toRad(lon2 - lon1);
+  const a =
+    Math.sin(dLat / 2) ** 2 + Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLon / 2) ** 2;
+
+  return 2 * EARTH_RADIUS_MILES * Math.asin(Math.sqrt(a));
+}
+
+function addDays(date: string, days: number): string {
+  const result = new Date(date);
+  result.setUTCDate(result.getUTCDate() + days);
+  return result.toISOString().split('T')[0];
+}
+
+/**
+ * Route search service - finds the best places to stop along a driving route.
+ *
+ * Grid points within the corridor are placed along the route, assigned to the
+ * driving day the traveller reaches them (at dailyMiles per day from the
+ * departure date), and scored against that day's weather.
+ */
+export class RouteSearchService {
+  async search(params: RouteSearchParams): Promise<RouteSearchOutcome> {
+    const { corridorMiles, departureDate, dailyMiles, options } = params;
+    const stopsPerDay = options?.stopsPerDay ?? 5;
+    const minScore = options?.minScore ?? 0;
+    const units = options?.units ?? 'imperial';
+
+    const route = this.buildRoute(params.route);
+    const routeMiles = route[route.length - 1].mile;
+    const days = Math.max(1, Math.ceil(routeMiles / dailyMiles));
+
+    if (days > MAX_ROUTE_DAYS) {
+      throw new RouteSearchError(
+        'DATE_RANGE_TOO_LARGE',
+        `Route takes ${days} days at ${dailyMiles} miles per day; maximum is ${MAX_ROUTE_DAYS} days`
+      );
+    }
+
+    const corridor = await this.loadCorridorPoints(route, corridorMiles);
+    const points = this.thin(corridor);
+
+    // Score against imperial filters; stops are converted back for the response
+    const scored = await this.scoreStops(
+      points,
+      route,
+      { ...params, filters: filtersToImperial(params.filters, units) },
+      days
+    );
+
+    const segments: RouteDaySegment[] = Array.from({ length: days }, (_, i) => ({
+      day: i + 1,
+      date: addDays(departureDate, i),
+      startMile: Math.round(i * dailyMiles),
+      endMile: Math.round(Math.min(routeMiles, (i + 1) * dailyMiles)),
+      stops: scored
+        .filter(stop => stop.day === i)
+        .map(stop => stop.candidate)
+        .filter(candidate => candidate.score >= minScore)
+        .sort((a, b) => b.score - a.score || a.detourMiles - b.detourMiles)
+        .slice(0, stopsPerDay)
+        .map(candidate => scoredLocationToUnits(candidate, units)),
+    }));
+
+    return {
+      segments,
+      meta: {
+        routeMiles: Math.round(routeMiles),
+        corridorPoints: corridor.length,
+        pointsScored: points.length,
+      },
+    };
+  }
+
+  /**
+   * Normalize either geometry format to route points with cumulative mileage
+   */
+  private buildRoute(geometry: RouteGeometry): RoutePoint[] {
+    const coordinates =
+      'encodedPolyline' in geometry
+        ? decodePolyline(geometry.encodedPolyline, geometry.precision)
+        : geometry.coordinates.map(([lon, lat]): [number, number] => [lat, lon]);
+
+    if (coordinates.length < 2) {
+      throw new RouteSearchError('INVALID_ROUTE', 'A route needs at least two coordinates');
+    }
+
+    if (coordinates.some(([lat, lon]) => Math.abs(lat) > 90 || Math.abs(lon) > 180)) {
+      throw new RouteSearchError('INVALID_ROUTE', 'Route contains invalid coordinates');
+    }
+
+    const route: RoutePoint[] = [];
+    for (const [lat, lon] of coordinates) {
+      const previous = route[route.length - 1];
+      const mile = previous ? previous.mile + haversineMiles(previous.lat, previous.lon, lat, lon) : 0;
+      route.push({ lat, lon, mile });
+    }
+
+    return route;
+  }
+
+  /**
+   * Load grid points within corridorMiles of the route (uses the location spatial index)
+   */
+  private async loadCorridorPoints(
+    route: RoutePoint[],
+    corridorMiles: number
+  ): Promise<GridPointSummary[]> {
+    const lineString = `SRID=4326;LINESTRING(${route.map(p => `${p.lon} ${p.lat}`).join(', ')})`;
+
+    const rows = await prisma.$queryRaw<
+      Array<{
+        id: string;
+        latitude: number;
+        longitude: number;
+        nearest_city: string | null;
+        state: string;
+        region: string;
+      }>
+    >`
+      SELECT id, latitude, longitude, nearest_city, state, region
+      FROM grid_points
+      WHERE location IS NOT NULL
+        AND ST_DWithin(location, ST_GeogFromText(${lineString}), ${corridorMiles * METERS_PER_MILE})
+      ORDER BY latitude, longitude
+    `;
+
+    return rows.map(row => ({
+      id: row.id,
+      latitude: row.latitude,
+      longitude: row.longitude,
+      nearestCity: row.nearest_city,
+      state: row.state,
+      region: row.region,
+    }));
+  }
+
+  /**
+   * Drop to every nth grid row and column until the corridor fits MAX_CORRIDOR_POINTS
+   */
+  private thin(points: GridPointSummary[]): GridPointSummary[] {
+    let stride = 1;
+    let kept = points;
+
+    while (kept.length > MAX_CORRIDOR_POINTS) {
+      stride++;
+      kept = points.filter(point => {
+        const row = Math.round(point.latitude / GRID_SPACING);
+        const column = Math.round(point.longitude / GRID_SPACING);
+        return row % stride === 0 && column % stride === 0;
+      });
+    }
+
+    return kept;
+  }
+
+  /**
+   * Place each point on the route, then score it for the day it's reached
+   */
+  private async scoreStops(
+    points: GridPointSummary[],
+    route: RoutePoint[],
+    params: RouteSearchParams,
+    days: number
+  ): Promise<Array<{ day: number; candidate: RouteStopCandidate }>> {
+    const { filters, departureDate, dailyMiles, scoring } = params;
+    const results: Array<{ day: number; candidate: RouteStopCandidate }> = [];
+
+    for (let i = 0; i < points.length; i += SCORE_BATCH_SIZE) {
+      const batch = points.slice(i, i + SCORE_BATCH_SIZE);
+
+      // Each point is scored for the day it's reached, so fetch per travel day
+      const byDay = new Map<
+        number,
+        Array<{ gridPoint: GridPointSummary; routeMile: number; detourMiles: number }>
+      >();
+      for (const gridPoint of batch) {
+        const { routeMile, detourMiles } = this.locateOnRoute(gridPoint, route);
+        const day = Math.min(days - 1, Math.floor(routeMile / dailyMiles));
+        byDay.set(day, [...(byDay.get(day) ?? []), { gridPoint, routeMile, detourMiles }]);
+      }
+
+      for (const [day, stops] of byDay) {
+        const date = addDays(departureDate, day);
+
+        try {
+          const weather = await weatherService.getGridPointsWeather(
+            stops.map(stop => stop.gridPoint),
+            date,
+            date,
+            {
+              includeAirQuality: filters.aqiMax !== undefined,
+              includeHourly: scoringService.needsHourlyData(filters),
+              climatologyYears: params.options?.climatologyYears,
+            }
+          );
+
+          stops.forEach(({ gridPoint, routeMile, detourMiles }, j) => {
+            const scored = scoringService.scoreLocation(
+              gridPoint,
+              weather[j].daily,
+              filters,
+              weather[j].dataSource,
+              scoring
+            );
+
+            results.push({
+              day,
+              candidate: {
+                ...scored,
+                freshness: weather[j].freshness,
+                routeMile: Math.round(routeMile),
+                detourMiles: Math.round(detourMiles * 10) / 10,
+              },
+            });
+          });
+        } catch (error) {
+          console.error(`Error fetching weather for ${stops.length} grid points on ${date}:`, error);
+        }
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Find the closest point on the route. Each segment is projected onto a local
+   * flat plane around the grid point - accurate enough at corridor distances.
+   */
+  private locateOnRoute(
+    point: GridPointSummary,
+    route: RoutePoint[]
+  ): { routeMile: number; detourMiles: number } {
+    const milesPerDegree = (EARTH_RADIUS_MILES * Math.PI) / 180;
+    const lonScale = Math.cos((point.latitude * Math.PI) / 180);
+    const toLocal = (p: RoutePoint) => ({
+      x: (p.lon - point.longitude) * lonScale * milesPerDegree,
+      y: (p.lat - point.latitude) * milesPerDegree,
+    });
+
+    let best = { routeMile: 0, detourMiles: Infinity };
+
+    for (let i = 0; i < route.length - 1; i++) {
+      const a = toLocal(route[i]);
+      const b = toLocal(route[i + 1]);
+      const dx = b.x - a.x;
+      const dy = b.y - a.y;
+      const lengthSquared = dx * dx + dy * dy;
+      const t =
+        lengthSquared > 0 ? Math.min(1, Math.max(0, -(a.x * dx + a.y * dy) / lengthSquared)) : 0;
+      const distance = Math.hypot(a.x + t * dx, a.y + t * dy);
+
+      if (distance < best.detourMiles) {
+        best = {
+          routeMile: route[i].mile + t * (route[i + 1].mile - route[i].mile),
+          detourMiles: distance,
+        };
+      }
+    }
+
+    return best;
+  }
+}
+
+// Export singleton instance
+export const routeSearchService = new RouteSearchService();
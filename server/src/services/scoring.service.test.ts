@@ -0,0 +1,267 @@
+import { describe, expect, it } from 'vitest';
+import type { DailyWeather } from '../types/weather.js';
+import { StubAirQualityProvider } from '../providers/airquality.provider.js';
+import { dailyWeather, MOAB_GRID_POINT } from '../__fixtures__/daily-weather.js';
+import { ScoringService } from './scoring.service.js';
+
+const scoring = new ScoringService();
+
+/**
+ * Weather days with AQI merged in from an air quality provider, as the weather service does
+ */
+async function daysWithAqi(aqi: number, dates: string[]): Promise<DailyWeather[]> {
+  const airQuality = await new StubAirQualityProvider(aqi).getAirQuality(
+    MOAB_GRID_POINT.latitude,
+    MOAB_GRID_POINT.longitude,
+    dates[0],
+    dates[dates.length - 1]
+  );
+  return airQuality.map(day =>
+    dailyWeather(day.date, { aqi: day.aqi, aqiCategory: day.aqiCategory })
+  );
+}
+
+describe('ScoringService air quality', () => {
+  it('scores days at or under aqiMax as full marks', async () => {
+    const days = await daysWithAqi(35, ['2025-03-01', '2025-03-02']);
+
+    const result = scoring.scoreLocation(MOAB_GRID_POINT, days, { aqiMax: 50 }, 'forecast');
+
+    expect(result.score).toBe(100);
+    expect(result.scoreBreakdown.aqi).toMatchObject({
+      score: 100,
+      value: 35,
+      unit: 'AQI',
+      limit: { max: 50 },
+      violatingDays: 0,
+      days: 2,
+    });
+  });
+
+  it('takes 2 points per AQI point over the limit on the linear curve', async () => {
+    const days = await daysWithAqi(120, ['2025-03-01']);
+
+    const result = scoring.scoreLocation(MOAB_GRID_POINT, days, { aqiMax: 100 }, 'forecast');
+
+    expect(result.score).toBe(60);
+    expect(result.dailyScores[0].passesFilters).toBe(true);
+    expect(result.scoreBreakdown.aqi?.violatingDays).toBe(1);
+  });
+
+  it('fails days over the limit outright on the cutoff curve', async () => {
+    const days = await daysWithAqi(101, ['2025-03-01']);
+    const filters = { aqiMax: 100 };
+
+    const result = scoring.scoreLocation(
+      MOAB_GRID_POINT,
+      days,
+      filters,
+      'forecast',
+      scoring.resolveScoring(filters, { curves: { aqi: 'cutoff' } })
+    );
+
+    expect(result.score).toBe(0);
+    expect(result.dailyScores[0].passesFilters).toBe(false);
+  });
+
+  it('leaves days without air quality data out of the AQI score', () => {
+    const days = [dailyWeather('2025-03-01', { aqi: 150 }), dailyWeather('2025-03-02')];
+
+    const result = scoring.scoreLocation(MOAB_GRID_POINT, days, { aqiMax: 100 }, 'forecast');
+
+    expect(result.dailyScores.map(day => day.score)).toEqual([0, 100]);
+    expect(result.scoreBreakdown.aqi?.score).toBe(0);
+  });
+});
+
+describe('ScoringService weights and curves', () => {
+  it('only scores the categories the caller filtered on', () => {
+    const filters = { highMax: 80 };
+    const days = [dailyWeather('2025-03-01', { windSpeed: 50, humidity: 95, precipChance: 90 })];
+
+    const result = scoring.scoreLocation(MOAB_GRID_POINT, days, filters, 'forecast');
+
+    expect(scoring.resolveScoring(filters).weights).toEqual({ tempHigh: 1 });
+    expect(result.score).toBe(100);
+    expect(result.scoreBreakdown.wind).toBeNull();
+  });
+
+  it('normalizes caller weights over the active categories', () => {
+    const filters = { highMin: 60, highMax: 80, humidityMax: 50 };
+    const days = [dailyWeather('2025-03-01', { tempHigh: 85, humidity: 40 })];
+
+    const equal = scoring.scoreLocation(MOAB_GRID_POINT, days, filters, 'forecast');
+    const applied = scoring.resolveScoring(filters, {
+      weights: { tempHigh: 3, humidity: 1, aqi: 5 },
+    });
+    const weighted = scoring.scoreLocation(MOAB_GRID_POINT, days, filters, 'forecast', applied);
+
+    expect(equal.score).toBe(75);
+    expect(applied.weights).toEqual({ tempHigh: 0.75, humidity: 0.25 });
+    expect(weighted.score).toBe(63);
+  });
+
+  it('falls back to equal weighting when every weight is zero', () => {
+    const filters = { highMax: 80, humidityMax: 50 };
+
+    const applied = scoring.resolveScoring(filters, { weights: { tempHigh: 0, humidity: 0 } });
+
+    expect(applied.weights).toEqual({ tempHigh: 0.5, humidity: 0.5 });
+  });
+
+  it('penalizes values past a limit according to the curve', () => {
+    const filters = { highMax: 80 };
+    const days = [dailyWeather('2025-03-01', { tempHigh: 82 })];
+    const scoreWith = (curve: 'linear' | 'sigmoid' | 'cutoff') =>
+      scoring.scoreLocation(
+        MOAB_GRID_POINT,
+        days,
+        filters,
+        'forecast',
+        scoring.resolveScoring(filters, { curves: { tempHigh: curve } })
+      ).score;
+
+    expect(scoreWith('linear')).toBe(80);
+    expect(scoreWith('sigmoid')).toBe(90); // Forgiving just past the limit
+    expect(scoreWith('cutoff')).toBe(0);
+  });
+
+  it('applies the deprecated temperature options to both temperature categories', () => {
+    const filters = { highMax: 80, lowMin: 40, humidityMax: 50 };
+
+    const applied = scoring.resolveScoring(filters, {
+      weights: { temperature: 2 },
+      curves: { temperature: 'cutoff' },
+    });
+
+    expect(applied.weights).toEqual({ tempHigh: 0.4, tempLow: 0.4, humidity: 0.2 });
+    expect(applied.curves).toEqual({ tempHigh: 'cutoff', tempLow: 'cutoff', humidity: 'linear' });
+  });
+});
+
+describe('ScoringService best window', () => {
+  it('scores the best run of consecutive days, earliest first on ties', () => {
+    const filters = { highMax: 80 };
+    const days = [85, 70, 70, 85, 70, 70].map((tempHigh, i) =>
+      dailyWeather(`2025-03-0${i + 1}`, { tempHigh })
+    );
+
+    const result = scoring.scoreLocation(
+      MOAB_GRID_POINT,
+      days,
+      filters,
+      'forecast',
+      scoring.resolveScoring(filters),
+      2
+    );
+
+    expect(result.score).toBe(100);
+    expect(result.window).toMatchObject({ startDate: '2025-03-02', endDate: '2025-03-03' });
+    expect(result.window?.dailyScores.map(day => day.date)).toEqual(['2025-03-02', '2025-03-03']);
+    // The whole range still backs the per-day scores
+    expect(result.dailyScores).toHaveLength(6);
+  });
+
+  it('scores ranges shorter than the window whole', () => {
+    const filters = { highMax: 80 };
+    const days = [dailyWeather('2025-03-01', { tempHigh: 85 }), dailyWeather('2025-03-02')];
+
+    const result = scoring.scoreLocation(
+      MOAB_GRID_POINT,
+      days,
+      filters,
+      'forecast',
+      scoring.resolveScoring(filters),
+      5
+    );
+
+    expect(result.score).toBe(75);
+    expect(result.window).toMatchObject({ startDate: '2025-03-01', endDate: '2025-03-02' });
+  });
+});
+
+describe('ScoringService day requirements', () => {
+  const days = [70, 85, 70, 70, 90].map((tempHigh, i) =>
+    dailyWeather(`2025-03-0${i + 1}`, { tempHigh })
+  );
+
+  it('reports the longest passing streak and passing day ratio', () => {
+    const filters = { highMax: 80, minConsecutivePassingDays: 2 };
+    const applied = scoring.resolveScoring(filters, { curves: { tempHigh: 'cutoff' } });
+
+    const result = scoring.scoreLocation(MOAB_GRID_POINT, days, filters, 'forecast', applied);
+
+    const passing = result.dailyScores.map(day => day.passesFilters);
+    expect(passing).toEqual([true, false, true, true, false]);
+    expect(result.longestPassingStreak).toBe(2);
+    expect(result.passingDayRatio).toBe(0.6);
+    expect(result.meetsDayRequirements).toBe(true);
+  });
+
+  it('fails locations without a long enough streak or enough passing days', () => {
+    const applied = scoring.resolveScoring({ highMax: 80 }, { curves: { tempHigh: 'cutoff' } });
+    const meets = (filters: { minConsecutivePassingDays?: number; minPassingDayRatio?: number }) =>
+      scoring.scoreLocation(
+        MOAB_GRID_POINT,
+        days,
+        { highMax: 80, ...filters },
+        'forecast',
+        applied
+      ).meetsDayRequirements;
+
+    expect(meets({ minConsecutivePassingDays: 3 })).toBe(false);
+    expect(meets({ minPassingDayRatio: 0.8 })).toBe(false);
+    expect(meets({ minPassingDayRatio: 0.6 })).toBe(true);
+  });
+
+  it('only fails a day on a category scored at 0', () => {
+    // 5°F over the limit on the linear curve scores 50 but still passes
+    const result = scoring.scoreLocation(
+      MOAB_GRID_POINT,
+      [dailyWeather('2025-03-01', { tempHigh: 85 })],
+      { highMax: 80 },
+      'forecast'
+    );
+
+    expect(result.dailyScores[0]).toMatchObject({ score: 50, passesFilters: true });
+  });
+});
+
+describe('ScoringService hard fails', () => {
+  const filters = { highMax: 80, humidityMax: 50 };
+  const applied = scoring.resolveScoring(filters, { curves: { tempHigh: 'cutoff' } });
+
+  it('ties each condition to the category it scores 0', () => {
+    const conditions = scoring.hardFailConditions(
+      { ...filters, windSpeedMax: 15, precipTypesExcluded: ['snow'] },
+      scoring.resolveScoring({ ...filters, windSpeedMax: 15, precipTypesExcluded: ['snow'] })
+    );
+
+    expect(conditions.map(condition => [condition.field, condition.category])).toEqual([
+      ['tempHigh', 'tempHigh'],
+      ['humidity', 'humidity'],
+      ['windSpeed', 'wind'],
+      ['precipChance', 'precipitation'],
+    ]);
+  });
+
+  it('bounds the score by the share of days failing each category', () => {
+    const days = [95, 70, 70].map((tempHigh, i) => dailyWeather(`2025-03-0${i + 1}`, { tempHigh }));
+    const actual = scoring.scoreLocation(MOAB_GRID_POINT, days, filters, 'forecast', applied);
+
+    // One of three days scores 0 for the high; humidity could still score 100
+    expect(scoring.maxPossibleScore({ tempHigh: 1 }, 3, applied)).toBe(84);
+    expect(actual.score).toBe(84);
+    expect(scoring.maxPossibleScore({ tempHigh: 3 }, 3, applied)).toBe(50);
+    expect(scoring.maxPossibleScore({}, 3, applied)).toBe(100);
+  });
+
+  it('only bounds windowed and confidence-weighted scores by categories failing every day', () => {
+    const weighted = { ...applied, confidenceWeighting: true };
+
+    expect(scoring.maxPossibleScore({ tempHigh: 2 }, 3, applied, 1)).toBe(100);
+    expect(scoring.maxPossibleScore({ tempHigh: 2 }, 3, weighted)).toBe(100);
+    expect(scoring.maxPossibleScore({ tempHigh: 3 }, 3, applied, 1)).toBe(50);
+    expect(scoring.maxPossibleScore({ tempHigh: 3 }, 3, weighted)).toBe(50);
+  });
+});
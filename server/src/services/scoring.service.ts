@@ -1,54 +1,152 @@
-import type { WeatherFilters } from '../validators/weather.js';
-import type { DailyWeather, ScoreBreakdown, DailyScore, ScoredLocation } from '../types/weather.js';
+import type {
+  PenaltyCurve,
+  ScoringCategory,
+  ScoringOptions,
+  WeatherFilters,
+} from '../validators/weather.js';
+import type {
+  AppliedScoring,
+  DailyWeather,
+  FilterScore,
+  GridPointSummary,
+  HardFailCondition,
+  ScoreBreakdown,
+  DailyScore,
+  ScoredLocation,
+  ScoreWindow,
+} from '../types/weather.js';
+import { chanceWithin } from '../providers/climatology.js';
+import { COLD_NIGHT_TEMP_F, WINDY_DAYLIGHT_MPH } from '../providers/hourly-metrics.js';
 
 /**
- * Weight for each filter category (equal weighting)
- * Categories: temperature, humidity, wind, precipitation
- * AQI is excluded from weighting if not filtered
+ * Default relative weight for each filter category (equal weighting)
+ * Only categories with an active filter take part in scoring; callers can
+ * override these per search
  */
-const CATEGORY_WEIGHTS = {
-  temperature: 0.25,
-  humidity: 0.25,
-  wind: 0.25,
-  precipitation: 0.25,
+const DEFAULT_CATEGORY_WEIGHTS: Record<ScoringCategory, number> = {
+  tempHigh: 1,
+  tempLow: 1,
+  feelsLike: 1,
+  dewPoint: 1,
+  humidity: 1,
+  wind: 1,
+  precipitation: 1,
+  aqi: 1,
+  coldNightHours: 1,
+  windyDaylightHours: 1,
+  dryDaytimeHours: 1,
 };
 
+/**
+ * Unit each category's representative value is reported in
+ */
+const CATEGORY_UNITS: Record<ScoringCategory, string> = {
+  tempHigh: '°F',
+  tempLow: '°F',
+  feelsLike: '°F',
+  dewPoint: '°F',
+  humidity: '%',
+  wind: 'mph',
+  precipitation: '%',
+  aqi: 'AQI',
+  coldNightHours: 'h',
+  windyDaylightHours: 'h',
+  dryDaytimeHours: 'h',
+};
+
+/**
+ * Score lost per unit past a filter's limit (linear and sigmoid curves reach 0
+ * at 100 points)
+ */
+const PENALTY_POINTS_PER_UNIT = {
+  temperature: 10, // per °F
+  humidity: 5, // per percentage point
+  wind: 10, // per mph
+  aqi: 2, // per AQI point
+  hours: 10, // per hour
+  precipChance: 2, // per percentage point over the max chance
+  precipType: 1, // per percentage point of chance of an unwanted type
+} as const;
+
+/**
+ * Per-category scores for a single day (only categories that could be scored)
+ */
+type CategoryScores = Partial<Record<ScoringCategory, number>>;
+
+/**
+ * Per-category average scores across days (null if the category wasn't scored)
+ */
+type CategoryAverages = Record<ScoringCategory, number | null>;
+
 /**
  * Scoring service - evaluates weather data against user filters
  */
 export class ScoringService {
   /**
    * Score a location's weather data against filters
-   * Returns a score from 0-100 and detailed breakdown
+   * Returns a score from 0-100 and detailed breakdown.
+   * With windowDays, the score and breakdown come from the best-scoring run of
+   * that many consecutive days instead of the whole range. With confidence
+   * weighting, low-confidence days count for less in the category averages.
    */
   scoreLocation(
-    gridPoint: {
-      id: string;
-      latitude: number;
-      longitude: number;
-      nearestCity: string | null;
-      state: string;
-      region: string;
-    },
+    gridPoint: GridPointSummary,
     daily: DailyWeather[],
     filters: WeatherFilters,
-    dataSource: 'forecast' | 'historical' | 'mixed'
+    dataSource: 'forecast' | 'historical' | 'mixed',
+    scoring: AppliedScoring = this.resolveScoring(filters),
+    windowDays?: number
   ): ScoredLocation {
+    const dayCategoryScores = daily.map(day => this.scoreDayCategories(day, filters, scoring));
+    // Weight of each day in the category averages
+    const dayWeights = daily.map(day => (scoring.confidenceWeighting ? (day.confidence ?? 1) : 1));
+
     // Score each day
-    const dailyScores: DailyScore[] = daily.map(day => {
-      const dayScore = this.scoreSingleDay(day, filters);
+    const dailyScores: DailyScore[] = daily.map((day, i) => {
+      const categories = dayCategoryScores[i];
       return {
         date: day.date,
-        score: dayScore.score,
-        passesFilters: dayScore.passesAllFilters,
+        score: this.calculateWeightedScore(categories, scoring),
+        passesFilters: Object.values(categories).every(score => score !== 0),
+        source: day.source,
+        leadDays: day.leadDays,
+        confidence: day.confidence,
       };
     });
 
-    // Calculate category scores across all days
-    const categoryScores = this.calculateCategoryScores(daily, filters);
+    // Days to score - the whole range, or the best window within it
+    const windowStart =
+      windowDays !== undefined
+        ? this.findBestWindow(dayCategoryScores, dayWeights, windowDays, scoring)
+        : 0;
+    const windowEnd =
+      windowDays !== undefined ? Math.min(daily.length, windowStart + windowDays) : daily.length;
+
+    // Calculate category scores across the scored days
+    const scoredDays = daily.slice(windowStart, windowEnd);
+    const scoredDayCategories = dayCategoryScores.slice(windowStart, windowEnd);
+    const categoryScores = this.calculateCategoryScores(
+      scoredDayCategories,
+      dayWeights.slice(windowStart, windowEnd)
+    );
+
+    // Calculate overall score (category averages, weighted by category)
+    const overallScore = this.calculateWeightedScore(categoryScores, scoring);
 
-    // Calculate overall score (average of daily scores, weighted by category)
-    const overallScore = this.calculateOverallScore(categoryScores);
+    const window: ScoreWindow | undefined =
+      windowDays !== undefined && daily.length > 0
+        ? {
+            startDate: daily[windowStart].date,
+            endDate: daily[windowEnd - 1].date,
+            dailyScores: dailyScores.slice(windowStart, windowEnd),
+          }
+        : undefined;
+
+    // Day-count requirements are checked over the whole range
+    const { longestPassingStreak, passingDayRatio } = this.summarizePassingDays(dailyScores);
+    const meetsDayRequirements =
+      longestPassingStreak >= (filters.minConsecutivePassingDays ?? 0) &&
+      passingDayRatio >= (filters.minPassingDayRatio ?? 0);
 
     return {
       gridPointId: gridPoint.id,
@@ -58,153 +156,631 @@ export class ScoringService {
       state: gridPoint.state,
       region: gridPoint.region,
       score: Math.round(overallScore),
-      scoreBreakdown: categoryScores,
+      scoreBreakdown: this.buildBreakdown(categoryScores, scoredDays, scoredDayCategories, filters),
       dailyScores,
       dataSource,
+      longestPassingStreak,
+      passingDayRatio,
+      meetsDayRequirements,
+      ...(gridPoint.distanceMiles !== undefined && { distanceMiles: gridPoint.distanceMiles }),
+      ...(window && { window }),
     };
   }
 
   /**
-   * Score a single day's weather against filters
+   * Longest run of consecutive passing days and the share of days that pass
    */
-  private scoreSingleDay(
-    day: DailyWeather,
-    filters: WeatherFilters
-  ): { score: number; passesAllFilters: boolean } {
-    let totalScore = 0;
-    let categoryCount = 0;
-    let passesAllFilters = true;
+  private summarizePassingDays(dailyScores: DailyScore[]): {
+    longestPassingStreak: number;
+    passingDayRatio: number;
+  } {
+    let longestPassingStreak = 0;
+    let streak = 0;
+    let passing = 0;
+
+    for (const day of dailyScores) {
+      if (day.passesFilters) {
+        passing++;
+        streak++;
+        longestPassingStreak = Math.max(longestPassingStreak, streak);
+      } else {
+        streak = 0;
+      }
+    }
+
+    return {
+      longestPassingStreak,
+      passingDayRatio:
+        dailyScores.length > 0 ? Math.round((passing / dailyScores.length) * 100) / 100 : 0,
+    };
+  }
 
-    // Temperature scoring
-    if (filters.tempMin !== undefined || filters.tempMax !== undefined) {
-      const tempScore = this.scoreTemperature(day.tempHigh, day.tempLow, filters);
-      totalScore += tempScore;
-      categoryCount++;
-      if (tempScore === 0) passesAllFilters = false;
+  /**
+   * Index of the first day of the best-scoring run of windowDays consecutive days
+   * (earliest wins ties). Ranges shorter than the window are scored whole.
+   */
+  private findBestWindow(
+    dayCategoryScores: CategoryScores[],
+    dayWeights: number[],
+    windowDays: number,
+    scoring: AppliedScoring
+  ): number {
+    let bestStart = 0;
+    let bestScore = -1;
+
+    for (let start = 0; start + windowDays <= dayCategoryScores.length; start++) {
+      const categoryScores = this.calculateCategoryScores(
+        dayCategoryScores.slice(start, start + windowDays),
+        dayWeights.slice(start, start + windowDays)
+      );
+      const score = this.calculateWeightedScore(categoryScores, scoring);
+
+      if (score > bestScore) {
+        bestScore = score;
+        bestStart = start;
+      }
+    }
+
+    return bestStart;
+  }
+
+  /**
+   * Resolve caller scoring options against the active filters.
+   * Categories without a filter are excluded; remaining weights are normalized.
+   */
+  resolveScoring(filters: WeatherFilters, options: ScoringOptions = {}): AppliedScoring {
+    const active = this.getActiveCategories(filters);
+    // The deprecated temperature options apply to both temperature categories
+    const legacy = (category: ScoringCategory) => category === 'tempHigh' || category === 'tempLow';
+    const rawWeights = active.map(
+      category =>
+        options.weights?.[category] ??
+        (legacy(category) ? options.weights?.temperature : undefined) ??
+        DEFAULT_CATEGORY_WEIGHTS[category]
+    );
+    const totalWeight = rawWeights.reduce((sum, w) => sum + w, 0);
+
+    const applied: AppliedScoring = {
+      weights: {},
+      curves: {},
+      confidenceWeighting: options.confidenceWeighting ?? false,
+    };
+    active.forEach((category, i) => {
+      // All-zero weights fall back to equal weighting
+      const weight = totalWeight > 0 ? rawWeights[i] / totalWeight : 1 / active.length;
+      applied.weights[category] = Math.round(weight * 1000) / 1000;
+      applied.curves[category] =
+        options.curves?.[category] ??
+        (legacy(category) ? options.curves?.temperature : undefined) ??
+        'linear';
+    });
+
+    return applied;
+  }
+
+  /**
+   * Whether any filter needs metrics derived from hourly weather
+   */
+  needsHourlyData(filters: WeatherFilters): boolean {
+    return (
+      filters.coldNightHoursMax !== undefined ||
+      filters.windyDaylightHoursMax !== undefined ||
+      filters.dryDaytimeHoursMin !== undefined
+    );
+  }
+
+  /**
+   * Conditions under which a day scores 0 in a category whatever its other
+   * values - past the limit by the amount that takes the curve to 0, or at all
+   * for cutoff. Only covers values stored as weather_cache columns.
+   * Days scored from climatology don't follow these (see scoreDayCategories).
+   */
+  hardFailConditions(filters: WeatherFilters, scoring: AppliedScoring): HardFailCondition[] {
+    const { curves } = scoring;
+    const conditions: HardFailCondition[] = [];
+    const above = (
+      field: HardFailCondition['field'],
+      category: HardFailCondition['category'],
+      max: number | undefined,
+      pointsPerUnit: number
+    ) => {
+      const curve = curves[category];
+      if (max === undefined || !curve) return;
+      conditions.push(
+        curve === 'cutoff'
+          ? { field, category, op: '>', value: max }
+          : { field, category, op: '>=', value: max + 100 / pointsPerUnit }
+      );
+    };
+    const below = (
+      field: HardFailCondition['field'],
+      category: HardFailCondition['category'],
+      min: number | undefined,
+      pointsPerUnit: number
+    ) => {
+      const curve = curves[category];
+      if (min === undefined || !curve) return;
+      conditions.push(
+        curve === 'cutoff'
+          ? { field, category, op: '<', value: min }
+          : { field, category, op: '<=', value: min - 100 / pointsPerUnit }
+      );
+    };
+
+    below('tempHigh', 'tempHigh', filters.highMin, PENALTY_POINTS_PER_UNIT.temperature);
+    above('tempHigh', 'tempHigh', filters.highMax, PENALTY_POINTS_PER_UNIT.temperature);
+    below('tempLow', 'tempLow', filters.lowMin, PENALTY_POINTS_PER_UNIT.temperature);
+    above('tempLow', 'tempLow', filters.lowMax, PENALTY_POINTS_PER_UNIT.temperature);
+    above('humidity', 'humidity', filters.humidityMax, PENALTY_POINTS_PER_UNIT.humidity);
+    above('windSpeed', 'wind', filters.windSpeedMax, PENALTY_POINTS_PER_UNIT.wind);
+    above('aqi', 'aqi', filters.aqiMax, PENALTY_POINTS_PER_UNIT.aqi);
+
+    const precipCurve = curves.precipitation;
+    above(
+      'precipChance',
+      'precipitation',
+      filters.precipChanceMax,
+      PENALTY_POINTS_PER_UNIT.precipChance
+    );
+
+    // Unwanted precipitation types are penalized by their chance
+    if (precipCurve) {
+      const unwantedChance: Pick<HardFailCondition, 'op' | 'value'> =
+        precipCurve === 'cutoff'
+          ? { op: '>', value: 0 }
+          : { op: '>=', value: 100 / PENALTY_POINTS_PER_UNIT.precipType };
+
+      if (filters.precipTypesExcluded && filters.precipTypesExcluded.length > 0) {
+        conditions.push({
+          field: 'precipChance',
+          category: 'precipitation',
+          ...unwantedChance,
+          precipTypeIn: filters.precipTypesExcluded,
+        });
+      }
+
+      if (filters.precipTypesAllowed && filters.precipTypesAllowed.length > 0) {
+        conditions.push({
+          field: 'precipChance',
+          category: 'precipitation',
+          ...unwantedChance,
+          precipTypeNotIn: [...filters.precipTypesAllowed, 'none'],
+        });
+      }
+    }
+
+    return conditions;
+  }
+
+  /**
+   * Highest score a location could reach over `days` days, given how many of
+   * them fail each category outright (see hardFailConditions). Other days and
+   * categories are assumed to score 100. Confidence weighting and windows can
+   * leave failing days out of a category's average, so they only bound
+   * categories failed on every day.
+   */
+  maxPossibleScore(
+    failingDays: Partial<Record<ScoringCategory, number>>,
+    days: number,
+    scoring: AppliedScoring,
+    windowDays?: number
+  ): number {
+    const bounds: CategoryScores = {};
+    for (const category of Object.keys(scoring.weights) as ScoringCategory[]) {
+      const failing = Math.min(failingDays[category] ?? 0, days);
+      bounds[category] =
+        failing === days
+          ? 0
+          : scoring.confidenceWeighting || windowDays !== undefined
+            ? 100
+            : Math.round((100 * (days - failing)) / days);
+    }
+
+    return Math.round(this.calculateWeightedScore(bounds, scoring));
+  }
+
+  /**
+   * Categories the caller explicitly filtered on
+   */
+  private getActiveCategories(filters: WeatherFilters): ScoringCategory[] {
+    const active: ScoringCategory[] = [];
+
+    if (filters.highMin !== undefined || filters.highMax !== undefined) {
+      active.push('tempHigh');
+    }
+
+    if (filters.lowMin !== undefined || filters.lowMax !== undefined) {
+      active.push('tempLow');
+    }
+
+    if (filters.feelsLikeMax !== undefined) {
+      active.push('feelsLike');
+    }
+
+    if (filters.dewPointMax !== undefined) {
+      active.push('dewPoint');
     }
 
-    // Humidity scoring
     if (filters.humidityMax !== undefined) {
-      const humidityScore = this.scoreHumidity(day.humidity, filters.humidityMax);
-      totalScore += humidityScore;
-      categoryCount++;
-      if (humidityScore === 0) passesAllFilters = false;
+      active.push('humidity');
     }
 
-    // Wind scoring
     if (filters.windSpeedMax !== undefined) {
-      const windScore = this.scoreWind(day.windSpeed, filters.windSpeedMax);
-      totalScore += windScore;
-      categoryCount++;
-      if (windScore === 0) passesAllFilters = false;
+      active.push('wind');
     }
 
-    // Precipitation scoring
     if (
       filters.precipChanceMax !== undefined ||
       filters.precipTypesAllowed !== undefined ||
       filters.precipTypesExcluded !== undefined
     ) {
-      const precipScore = this.scorePrecipitation(day.precipChance, day.precipType, filters);
-      totalScore += precipScore;
-      categoryCount++;
-      if (precipScore === 0) passesAllFilters = false;
+      active.push('precipitation');
+    }
+
+    if (filters.aqiMax !== undefined) {
+      active.push('aqi');
+    }
+
+    if (filters.coldNightHoursMax !== undefined) {
+      active.push('coldNightHours');
     }
 
-    const score = categoryCount > 0 ? totalScore / categoryCount : 100;
-    return { score, passesAllFilters };
+    if (filters.windyDaylightHoursMax !== undefined) {
+      active.push('windyDaylightHours');
+    }
+
+    if (filters.dryDaytimeHoursMin !== undefined) {
+      active.push('dryDaytimeHours');
+    }
+
+    return active;
   }
 
   /**
-   * Calculate category-level scores across all days
+   * Score a single day's weather against filters, per category
    */
-  private calculateCategoryScores(
-    daily: DailyWeather[],
-    filters: WeatherFilters
-  ): ScoreBreakdown {
-    let tempTotal = 0,
-      tempCount = 0;
-    let humidityTotal = 0,
-      humidityCount = 0;
-    let windTotal = 0,
-      windCount = 0;
-    let precipTotal = 0,
-      precipCount = 0;
-
-    for (const day of daily) {
-      // Temperature
-      if (filters.tempMin !== undefined || filters.tempMax !== undefined) {
-        tempTotal += this.scoreTemperature(day.tempHigh, day.tempLow, filters);
-        tempCount++;
-      }
+  private scoreDayCategories(
+    day: DailyWeather,
+    filters: WeatherFilters,
+    scoring: AppliedScoring
+  ): CategoryScores {
+    const scores: CategoryScores = {};
+    const { curves } = scoring;
+
+    // Days with climatology score the chance of staying within the filter
+    // instead of comparing a single averaged value
+    const likelihood = (category: ScoringCategory) => {
+      const chance = this.climatologyLikelihood(day, category, filters);
+      return chance === null ? null : Math.round(chance * 100);
+    };
 
-      // Humidity
-      if (filters.humidityMax !== undefined) {
-        humidityTotal += this.scoreHumidity(day.humidity, filters.humidityMax);
-        humidityCount++;
+    // Temperature scoring - daytime high and overnight low separately
+    if (curves.tempHigh) {
+      scores.tempHigh =
+        likelihood('tempHigh') ??
+        this.scoreTemperature(day.tempHigh, filters.highMin, filters.highMax, curves.tempHigh);
+    }
+
+    if (curves.tempLow) {
+      scores.tempLow =
+        likelihood('tempLow') ??
+        this.scoreTemperature(day.tempLow, filters.lowMin, filters.lowMax, curves.tempLow);
+    }
+
+    // Apparent temperature and dew point scoring (days without the data are skipped)
+    if (curves.feelsLike && filters.feelsLikeMax !== undefined && day.apparentTempHigh !== null) {
+      scores.feelsLike = this.scoreTemperature(
+        day.apparentTempHigh,
+        undefined,
+        filters.feelsLikeMax,
+        curves.feelsLike
+      );
+    }
+
+    if (curves.dewPoint && filters.dewPointMax !== undefined && day.dewPoint !== null) {
+      scores.dewPoint = this.scoreTemperature(day.dewPoint, undefined, filters.dewPointMax, curves.dewPoint);
+    }
+
+    // Humidity scoring
+    if (curves.humidity && filters.humidityMax !== undefined) {
+      scores.humidity = this.scoreHumidity(day.humidity, filters.humidityMax, curves.humidity);
+    }
+
+    // Wind scoring
+    if (curves.wind && filters.windSpeedMax !== undefined) {
+      scores.wind = likelihood('wind') ?? this.scoreWind(day.windSpeed, filters.windSpeedMax, curves.wind);
+    }
+
+    // Precipitation scoring
+    if (curves.precipitation) {
+      scores.precipitation = this.scorePrecipitation(
+        day.precipChance,
+        day.precipType,
+        filters,
+        curves.precipitation
+      );
+    }
+
+    // AQI scoring (days without air quality data are skipped)
+    if (curves.aqi && filters.aqiMax !== undefined && day.aqi !== null) {
+      scores.aqi = this.scoreAqi(day.aqi, filters.aqiMax, curves.aqi);
+    }
+
+    // Hourly-derived scoring (days without hourly data are skipped)
+    const hourly = day.hourlyMetrics;
+    if (hourly) {
+      if (curves.coldNightHours && filters.coldNightHoursMax !== undefined) {
+        scores.coldNightHours = this.scoreHours(
+          hourly.coldNightHours - filters.coldNightHoursMax,
+          curves.coldNightHours
+        );
       }
 
-      // Wind
-      if (filters.windSpeedMax !== undefined) {
-        windTotal += this.scoreWind(day.windSpeed, filters.windSpeedMax);
-        windCount++;
+      if (curves.windyDaylightHours && filters.windyDaylightHoursMax !== undefined) {
+        scores.windyDaylightHours = this.scoreHours(
+          hourly.windyDaylightHours - filters.windyDaylightHoursMax,
+          curves.windyDaylightHours
+        );
       }
 
-      // Precipitation
-      if (
-        filters.precipChanceMax !== undefined ||
-        filters.precipTypesAllowed !== undefined ||
-        filters.precipTypesExcluded !== undefined
-      ) {
-        precipTotal += this.scorePrecipitation(day.precipChance, day.precipType, filters);
-        precipCount++;
+      if (curves.dryDaytimeHours && filters.dryDaytimeHoursMin !== undefined) {
+        scores.dryDaytimeHours = this.scoreHours(
+          filters.dryDaytimeHoursMin - hourly.dryDaytimeHours,
+          curves.dryDaytimeHours
+        );
       }
     }
 
+    return scores;
+  }
+
+  /**
+   * Calculate category-level scores across all days, as averages weighted by
+   * each day's weight
+   */
+  private calculateCategoryScores(
+    dayCategoryScores: CategoryScores[],
+    dayWeights: number[]
+  ): CategoryAverages {
+    const average = (category: ScoringCategory): number | null => {
+      const values = dayCategoryScores
+        .map((scores, i) => ({ score: scores[category], weight: dayWeights[i] }))
+        .filter((value): value is { score: number; weight: number } => value.score !== undefined);
+      const totalWeight = values.reduce((sum, value) => sum + value.weight, 0);
+
+      if (values.length === 0) {
+        return null;
+      }
+
+      // Days with no weight at all fall back to a plain average
+      return totalWeight > 0
+        ? Math.round(values.reduce((sum, value) => sum + value.score * value.weight, 0) / totalWeight)
+        : Math.round(values.reduce((sum, value) => sum + value.score, 0) / values.length);
+    };
+
     return {
-      temperature: tempCount > 0 ? Math.round(tempTotal / tempCount) : 100,
-      humidity: humidityCount > 0 ? Math.round(humidityTotal / humidityCount) : 100,
-      wind: windCount > 0 ? Math.round(windTotal / windCount) : 100,
-      precipitation: precipCount > 0 ? Math.round(precipTotal / precipCount) : 100,
-      aqi: null, // AQI not implemented yet
+      tempHigh: average('tempHigh'),
+      tempLow: average('tempLow'),
+      feelsLike: average('feelsLike'),
+      dewPoint: average('dewPoint'),
+      humidity: average('humidity'),
+      wind: average('wind'),
+      precipitation: average('precipitation'),
+      aqi: average('aqi'),
+      coldNightHours: average('coldNightHours'),
+      windyDaylightHours: average('windyDaylightHours'),
+      dryDaytimeHours: average('dryDaytimeHours'),
     };
   }
 
   /**
-   * Calculate overall score from category scores
+   * Attach the weather behind each category score: a representative value,
+   * the filter bounds and how many days fell outside them
    */
-  private calculateOverallScore(breakdown: ScoreBreakdown): number {
-    return (
-      breakdown.temperature * CATEGORY_WEIGHTS.temperature +
-      breakdown.humidity * CATEGORY_WEIGHTS.humidity +
-      breakdown.wind * CATEGORY_WEIGHTS.wind +
-      breakdown.precipitation * CATEGORY_WEIGHTS.precipitation
-    );
+  private buildBreakdown(
+    categoryScores: CategoryAverages,
+    days: DailyWeather[],
+    dayCategoryScores: CategoryScores[],
+    filters: WeatherFilters
+  ): ScoreBreakdown {
+    const filterScore = (category: ScoringCategory): FilterScore | null => {
+      const score = categoryScores[category];
+      if (score === null) return null;
+
+      const scored = days
+        .map((day, i) => ({
+          day,
+          score: dayCategoryScores[i][category],
+          likelihood: this.climatologyLikelihood(day, category, filters),
+        }))
+        .filter(
+          (entry): entry is { day: DailyWeather; score: number; likelihood: number | null } =>
+            entry.score !== undefined
+        );
+      const likelihoods = scored
+        .map(entry => entry.likelihood)
+        .filter((chance): chance is number => chance !== null);
+
+      const threshold = this.hourlyThreshold(category);
+
+      return {
+        score,
+        value: this.representativeValue(category, scored.map(entry => entry.day)),
+        unit: CATEGORY_UNITS[category],
+        limit: this.filterLimit(category, filters),
+        // A climatology day only counts as violating when it's more likely than not
+        violatingDays: scored.filter(entry =>
+          entry.likelihood !== null ? entry.likelihood < 0.5 : entry.score < 100
+        ).length,
+        days: scored.length,
+        ...(likelihoods.length > 0 && {
+          likelihood: Math.round(
+            (likelihoods.reduce((sum, chance) => sum + chance, 0) / likelihoods.length) * 100
+          ),
+        }),
+        ...(threshold && { threshold }),
+      };
+    };
+
+    return {
+      tempHigh: filterScore('tempHigh'),
+      tempLow: filterScore('tempLow'),
+      feelsLike: filterScore('feelsLike'),
+      dewPoint: filterScore('dewPoint'),
+      humidity: filterScore('humidity'),
+      wind: filterScore('wind'),
+      precipitation: filterScore('precipitation'),
+      aqi: filterScore('aqi'),
+      coldNightHours: filterScore('coldNightHours'),
+      windyDaylightHours: filterScore('windyDaylightHours'),
+      dryDaytimeHours: filterScore('dryDaytimeHours'),
+    };
+  }
+
+  /**
+   * The value a user would compare against the filter: typical conditions for
+   * high/low temperature and humidity, the worst day for everything else
+   */
+  private representativeValue(category: ScoringCategory, days: DailyWeather[]): number {
+    const mean = (values: number[]) =>
+      Math.round(values.reduce((sum, value) => sum + value, 0) / values.length);
+
+    switch (category) {
+      case 'tempHigh':
+        return mean(days.map(day => day.tempHigh));
+      case 'tempLow':
+        return mean(days.map(day => day.tempLow));
+      case 'feelsLike':
+        return Math.max(...days.map(day => day.apparentTempHigh ?? 0));
+      case 'dewPoint':
+        return Math.max(...days.map(day => day.dewPoint ?? 0));
+      case 'humidity':
+        return mean(days.map(day => day.humidity));
+      case 'wind':
+        return Math.max(...days.map(day => day.windSpeed));
+      case 'precipitation':
+        return Math.max(...days.map(day => day.precipChance));
+      case 'aqi':
+        return Math.max(...days.map(day => day.aqi ?? 0));
+      case 'coldNightHours':
+        return Math.max(...days.map(day => day.hourlyMetrics?.coldNightHours ?? 0));
+      case 'windyDaylightHours':
+        return Math.max(...days.map(day => day.hourlyMetrics?.windyDaylightHours ?? 0));
+      case 'dryDaytimeHours':
+        return Math.min(...days.map(day => day.hourlyMetrics?.dryDaytimeHours ?? 0));
+    }
+  }
+
+  /**
+   * Filter bounds for a category (precipitation may only filter by type)
+   */
+  private filterLimit(category: ScoringCategory, filters: WeatherFilters): FilterScore['limit'] {
+    switch (category) {
+      case 'tempHigh':
+        return { min: filters.highMin, max: filters.highMax };
+      case 'tempLow':
+        return { min: filters.lowMin, max: filters.lowMax };
+      case 'feelsLike':
+        return { max: filters.feelsLikeMax };
+      case 'dewPoint':
+        return { max: filters.dewPointMax };
+      case 'humidity':
+        return { max: filters.humidityMax };
+      case 'wind':
+        return { max: filters.windSpeedMax };
+      case 'precipitation':
+        return { max: filters.precipChanceMax };
+      case 'aqi':
+        return { max: filters.aqiMax };
+      case 'coldNightHours':
+        return { max: filters.coldNightHoursMax };
+      case 'windyDaylightHours':
+        return { max: filters.windyDaylightHoursMax };
+      case 'dryDaytimeHours':
+        return { min: filters.dryDaytimeHoursMin };
+    }
+  }
+
+  /**
+   * The temperature or wind speed an hourly category counts hours against
+   */
+  private hourlyThreshold(category: ScoringCategory): FilterScore['threshold'] {
+    switch (category) {
+      case 'coldNightHours':
+        return { value: COLD_NIGHT_TEMP_F, unit: '°F' };
+      case 'windyDaylightHours':
+        return { value: WINDY_DAYLIGHT_MPH, unit: 'mph' };
+      default:
+        return undefined;
+    }
+  }
+
+  /**
+   * Weighted average of category scores.
+   * Categories without a score are skipped and the remaining weights renormalized.
+   */
+  private calculateWeightedScore(
+    scores: Partial<Record<ScoringCategory, number | null>>,
+    scoring: AppliedScoring
+  ): number {
+    let weightedTotal = 0;
+    let totalWeight = 0;
+
+    for (const [category, weight] of Object.entries(scoring.weights) as Array<
+      [ScoringCategory, number]
+    >) {
+      const score = scores[category];
+      if (score === null || score === undefined) continue;
+
+      weightedTotal += score * weight;
+      totalWeight += weight;
+    }
+
+    // Nothing to score against - every location matches
+    return totalWeight > 0 ? weightedTotal / totalWeight : 100;
+  }
+
+  /**
+   * Convert how far a value falls outside its filter into a 0-100 score
+   * - linear: lose pointsPerUnit for every unit past the limit
+   * - sigmoid: S-shaped, forgiving just past the limit, reaching 0 where linear does
+   * - cutoff: any violation scores 0
+   */
+  private applyCurve(excess: number, pointsPerUnit: number, curve: PenaltyCurve): number {
+    if (excess <= 0) {
+      return 100;
+    }
+
+    switch (curve) {
+      case 'cutoff':
+        return 0;
+      case 'sigmoid': {
+        const t = Math.min(1, (excess * pointsPerUnit) / 100);
+        return 100 * (1 - t * t * (3 - 2 * t));
+      }
+      case 'linear':
+        return Math.max(0, 100 - excess * pointsPerUnit);
+    }
   }
 
   /**
-   * Score temperature (0-100)
+   * Score a temperature - high, low, feels-like or dew point (0-100)
    * 100 = within range, decreases as temp moves outside range
    */
   private scoreTemperature(
-    high: number,
-    low: number,
-    filters: WeatherFilters
+    temp: number,
+    min: number | undefined,
+    max: number | undefined,
+    curve: PenaltyCurve
   ): number {
-    const { tempMin, tempMax } = filters;
-
-    // Check if high temp is below minimum
-    if (tempMin !== undefined && high < tempMin) {
-      const diff = tempMin - high;
-      // Lose 10 points per degree below minimum
-      return Math.max(0, 100 - diff * 10);
+    // Check if temp is below minimum (10 points per degree)
+    if (min !== undefined && temp < min) {
+      return this.applyCurve(min - temp, PENALTY_POINTS_PER_UNIT.temperature, curve);
     }
 
-    // Check if low temp is above maximum
-    if (tempMax !== undefined && low > tempMax) {
-      const diff = low - tempMax;
-      // Lose 10 points per degree above maximum
-      return Math.max(0, 100 - diff * 10);
+    // Check if temp is above maximum (10 points per degree)
+    if (max !== undefined && temp > max) {
+      return this.applyCurve(temp - max, PENALTY_POINTS_PER_UNIT.temperature, curve);
     }
 
     // Perfect if within range
@@ -212,31 +788,63 @@ export class ScoringService {
   }
 
   /**
-   * Score humidity (0-100)
-   * 100 = at or below max, decreases as humidity exceeds max
+   * Chance (0-1) that a day falls within the filter, from its climatology.
+   * Null for days without climatology and categories without percentiles.
    */
-  private scoreHumidity(humidity: number, maxHumidity: number): number {
-    if (humidity <= maxHumidity) {
-      return 100;
+  private climatologyLikelihood(
+    day: DailyWeather,
+    category: ScoringCategory,
+    filters: WeatherFilters
+  ): number | null {
+    const { climatology } = day;
+    if (!climatology) return null;
+
+    switch (category) {
+      case 'tempHigh':
+        return chanceWithin(climatology.tempHigh, filters.highMin, filters.highMax);
+      case 'tempLow':
+        return chanceWithin(climatology.tempLow, filters.lowMin, filters.lowMax);
+      case 'wind':
+        return chanceWithin(climatology.windSpeed, undefined, filters.windSpeedMax);
+      default:
+        return null;
     }
+  }
 
-    const diff = humidity - maxHumidity;
-    // Lose 5 points per percentage point over max
-    return Math.max(0, 100 - diff * 5);
+  /**
+   * Score humidity (0-100)
+   * 100 = at or below max, decreases as humidity exceeds max
+   */
+  private scoreHumidity(humidity: number, maxHumidity: number, curve: PenaltyCurve): number {
+    // 5 points per percentage point over max
+    return this.applyCurve(humidity - maxHumidity, PENALTY_POINTS_PER_UNIT.humidity, curve);
   }
 
   /**
    * Score wind speed (0-100)
    * 100 = at or below max, decreases as wind exceeds max
    */
-  private scoreWind(windSpeed: number, maxWind: number): number {
-    if (windSpeed <= maxWind) {
-      return 100;
-    }
+  private scoreWind(windSpeed: number, maxWind: number, curve: PenaltyCurve): number {
+    // 10 points per mph over max
+    return this.applyCurve(windSpeed - maxWind, PENALTY_POINTS_PER_UNIT.wind, curve);
+  }
+
+  /**
+   * Score air quality (0-100)
+   * 100 = at or below max AQI, decreases as AQI exceeds max
+   */
+  private scoreAqi(aqi: number, maxAqi: number, curve: PenaltyCurve): number {
+    // 2 points per AQI point over max
+    return this.applyCurve(aqi - maxAqi, PENALTY_POINTS_PER_UNIT.aqi, curve);
+  }
 
-    const diff = windSpeed - maxWind;
-    // Lose 10 points per mph over max
-    return Math.max(0, 100 - diff * 10);
+  /**
+   * Score an hourly-derived count (0-100)
+   * 100 = within the filter, decreases with each hour past it
+   */
+  private scoreHours(excessHours: number, curve: PenaltyCurve): number {
+    // 10 points per hour past the limit
+    return this.applyCurve(excessHours, PENALTY_POINTS_PER_UNIT.hours, curve);
   }
 
   /**
@@ -246,34 +854,31 @@ export class ScoringService {
   private scorePrecipitation(
     chance: number,
     type: string,
-    filters: WeatherFilters
+    filters: WeatherFilters,
+    curve: PenaltyCurve
   ): number {
     const { precipChanceMax, precipTypesAllowed, precipTypesExcluded } = filters;
 
     let score = 100;
 
-    // Check if precipitation type is excluded
+    // Check if precipitation type is excluded (penalty scales with chance)
     if (precipTypesExcluded?.includes(type as never)) {
-      if (chance > 0) {
-        // Scale penalty by precipitation chance
-        score = Math.max(0, 100 - chance);
-      }
+      score = this.applyCurve(chance, PENALTY_POINTS_PER_UNIT.precipType, curve);
     }
 
     // Check if precipitation type is not in allowed list (when list is specified)
     if (precipTypesAllowed && precipTypesAllowed.length > 0) {
       if (!precipTypesAllowed.includes(type as never) && type !== 'none') {
-        if (chance > 0) {
-          score = Math.min(score, Math.max(0, 100 - chance));
-        }
+        score = Math.min(score, this.applyCurve(chance, PENALTY_POINTS_PER_UNIT.precipType, curve));
       }
     }
 
-    // Check precipitation chance against maximum
-    if (precipChanceMax !== undefined && chance > precipChanceMax) {
-      const diff = chance - precipChanceMax;
-      // Lose 2 points per percentage point over max
-      score = Math.min(score, Math.max(0, 100 - diff * 2));
+    // Check precipitation chance against maximum (2 points per percentage point over)
+    if (precipChanceMax !== undefined) {
+      score = Math.min(
+        score,
+        this.applyCurve(chance - precipChanceMax, PENALTY_POINTS_PER_UNIT.precipChance, curve)
+      );
     }
 
     return score;
@@ -0,0 +1,93 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { ScoredLocation } from '../types/weather.js';
+import { searchService, type WeatherSearchParams } from './search.service.js';
+import { SearchJobLimitError, SearchJobService } from './search-job.service.js';
+
+const PARAMS: WeatherSearchParams = {
+  filters: { highMax: 80 },
+  dateRange: { startDate: '2025-03-01', endDate: '2025-03-03' },
+  scoring: { weights: { tempHigh: 1 }, curves: { tempHigh: 'linear' }, confidenceWeighting: false },
+};
+
+const META = {
+  totalGridPoints: 1,
+  prefilteredPoints: 0,
+  coarsePoints: 1,
+  refinedCells: 0,
+  pointsScored: 1,
+};
+
+/**
+ * Replace the search with one that resolves only when the returned function is called
+ */
+function stubPendingSearch() {
+  const finishers: Array<() => void> = [];
+  vi.spyOn(searchService, 'search').mockImplementation(
+    () =>
+      new Promise(resolve => {
+        finishers.push(() =>
+          resolve({ results: [{ gridPointId: 'final' } as ScoredLocation], meta: META })
+        );
+      })
+  );
+  return finishers;
+}
+
+describe('SearchJobService', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('completes with the final results and meta', async () => {
+    const finishers = stubPendingSearch();
+    const jobs = new SearchJobService();
+
+    const job = jobs.start(PARAMS, 'client-a');
+    finishers[0]();
+    await vi.waitFor(() => expect(job.status).toBe('completed'));
+
+    expect(job.results.map(result => result.gridPointId)).toEqual(['final']);
+    expect(job.meta).toEqual(META);
+  });
+
+  it('keeps a cancelled job as it was when the search finishes afterwards', async () => {
+    const finishers = stubPendingSearch();
+    const jobs = new SearchJobService();
+
+    const job = jobs.start(PARAMS, 'client-a');
+    jobs.cancel(job.id);
+    finishers[0]();
+    await new Promise(resolve => setImmediate(resolve));
+
+    expect(job.status).toBe('cancelled');
+    expect(job.results).toEqual([]);
+    expect(job.meta).toBeNull();
+  });
+
+  it('limits the jobs one client can run at once', async () => {
+    const finishers = stubPendingSearch();
+    const jobs = new SearchJobService();
+
+    const first = jobs.start(PARAMS, 'client-a');
+    jobs.start(PARAMS, 'client-a');
+
+    expect(() => jobs.start(PARAMS, 'client-a')).toThrow(SearchJobLimitError);
+    expect(jobs.start(PARAMS, 'client-b').status).toBe('running');
+
+    // Finished jobs no longer count against the limit
+    finishers[0]();
+    await vi.waitFor(() => expect(first.status).toBe('completed'));
+    expect(jobs.start(PARAMS, 'client-a').status).toBe('running');
+  });
+
+  it('limits the jobs running across all clients', () => {
+    stubPendingSearch();
+    const jobs = new SearchJobService();
+
+    for (let i = 0; i < 20; i++) {
+      jobs.start(PARAMS, `client-${i}`);
+    }
+
+    expect(() => jobs.start(PARAMS, 'client-new')).toThrow(SearchJobLimitError);
+  });
+});
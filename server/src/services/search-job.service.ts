@@ -0,0 +1,215 @@
+import { randomUUID } from 'node:crypto';
+import { EventEmitter } from 'node:events';
+import type { ScoredLocation, WeatherSearchMeta } from '../types/weather.js';
+import {
+  searchService,
+  SearchCancelledError,
+  type WeatherSearchParams,
+  type WeatherSearchProgress,
+} from './search.service.js';
+
+/**
+ * Finished jobs stay available for polling/reconnects this long
+ */
+const JOB_RETENTION_MS = 15 * 60 * 1000;
+
+/**
+ * Minimum gap between progress events, so subscribers aren't sent the
+ * full ranked list after every scoring batch
+ */
+const PROGRESS_INTERVAL_MS = 1000;
+
+/**
+ * Jobs that can run at once, per client and across the server. Each running
+ * job holds a share of the provider rate limit budget.
+ */
+const MAX_RUNNING_JOBS_PER_CLIENT = 2;
+const MAX_RUNNING_JOBS = 20;
+
+export type SearchJobStatus = 'running' | 'completed' | 'failed' | 'cancelled';
+
+/**
+ * Snapshot of a search job as returned to clients
+ */
+export interface SearchJob {
+  id: string;
+  status: SearchJobStatus;
+  createdAt: string;
+  finishedAt: string | null;
+  progress: Omit<WeatherSearchProgress, 'results'>;
+  results: ScoredLocation[]; // Partial ranked results while running, final results once completed
+  meta: WeatherSearchMeta | null;
+  searchCriteria: WeatherSearchParams;
+  error: string | null;
+}
+
+/**
+ * Event pushed to subscribers - the event type mirrors the job status,
+ * with 'progress' for updates while the job is still running
+ */
+export interface SearchJobEvent {
+  type: 'progress' | Exclude<SearchJobStatus, 'running'>;
+  job: SearchJob;
+}
+
+/**
+ * Raised when starting a job would exceed the running job limits
+ */
+export class SearchJobLimitError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SearchJobLimitError';
+  }
+}
+
+interface SearchJobEntry {
+  job: SearchJob;
+  clientId: string; // User id, or IP address for anonymous callers
+  controller: AbortController;
+  events: EventEmitter;
+  lastProgressAt: number;
+}
+
+/**
+ * Search job service - runs weather searches in the background so clients can
+ * follow progress, see partial results and cancel long nationwide searches.
+ * Jobs are held in memory; they don't survive a server restart.
+ */
+export class SearchJobService {
+  private readonly jobs = new Map<string, SearchJobEntry>();
+
+  /**
+   * Start a search in the background for a client and return its initial
+   * snapshot. Throws SearchJobLimitError when too many jobs are running.
+   */
+  start(params: WeatherSearchParams, clientId: string): SearchJob {
+    const running = [...this.jobs.values()].filter(entry => entry.job.status === 'running');
+    const clientRunning = running.filter(entry => entry.clientId === clientId).length;
+    if (clientRunning >= MAX_RUNNING_JOBS_PER_CLIENT) {
+      throw new SearchJobLimitError(
+        `At most ${MAX_RUNNING_JOBS_PER_CLIENT} search jobs can run at once. ` +
+          'Wait for one to finish or cancel it.'
+      );
+    }
+    if (running.length >= MAX_RUNNING_JOBS) {
+      throw new SearchJobLimitError('Too many search jobs are running. Please try again later.');
+    }
+
+    const entry: SearchJobEntry = {
+      job: {
+        id: randomUUID(),
+        status: 'running',
+        createdAt: new Date().toISOString(),
+        finishedAt: null,
+        progress: { pointsScored: 0, pointsPlanned: 0, etaSeconds: null },
+        results: [],
+        meta: null,
+        searchCriteria: params,
+        error: null,
+      },
+      clientId,
+      controller: new AbortController(),
+      events: new EventEmitter(),
+      lastProgressAt: 0,
+    };
+    this.jobs.set(entry.job.id, entry);
+
+    searchService
+      .search(params, {
+        signal: entry.controller.signal,
+        onProgress: progress => this.handleProgress(entry, progress),
+      })
+      .then(({ results, meta }) => {
+        // Cancelled after the last batch - keep the results the job was cancelled with
+        if (entry.job.status === 'cancelled') return;
+
+        entry.job.results = results;
+        entry.job.meta = meta;
+        entry.job.progress = {
+          pointsScored: meta.pointsScored,
+          pointsPlanned: meta.pointsScored,
+          etaSeconds: 0,
+        };
+        this.finish(entry, 'completed');
+      })
+      .catch(error => {
+        if (error instanceof SearchCancelledError) {
+          this.finish(entry, 'cancelled');
+          return;
+        }
+
+        console.error(`Search job ${entry.job.id} failed:`, error);
+        entry.job.error = 'Failed to search weather data';
+        this.finish(entry, 'failed');
+      });
+
+    return entry.job;
+  }
+
+  get(id: string): SearchJob | undefined {
+    return this.jobs.get(id)?.job;
+  }
+
+  /**
+   * Request cancellation. The search stops after its current batch;
+   * the job is reported as cancelled straight away.
+   */
+  cancel(id: string): SearchJob | undefined {
+    const entry = this.jobs.get(id);
+    if (!entry) {
+      return undefined;
+    }
+
+    entry.controller.abort();
+    this.finish(entry, 'cancelled');
+    return entry.job;
+  }
+
+  /**
+   * Listen for job events. Returns an unsubscribe function.
+   */
+  subscribe(id: string, listener: (event: SearchJobEvent) => void): () => void {
+    const entry = this.jobs.get(id);
+    if (!entry) {
+      return () => {};
+    }
+
+    entry.events.on('event', listener);
+    return () => entry.events.off('event', listener);
+  }
+
+  private handleProgress(entry: SearchJobEntry, progress: WeatherSearchProgress): void {
+    if (entry.job.status !== 'running') return;
+
+    const { results, ...counts } = progress;
+    entry.job.results = results;
+    entry.job.progress = counts;
+
+    const now = Date.now();
+    if (now - entry.lastProgressAt >= PROGRESS_INTERVAL_MS) {
+      entry.lastProgressAt = now;
+      this.emit(entry, 'progress');
+    }
+  }
+
+  /**
+   * Move a running job to its final status, notify subscribers and schedule cleanup
+   */
+  private finish(entry: SearchJobEntry, status: Exclude<SearchJobStatus, 'running'>): void {
+    if (entry.job.status !== 'running') return;
+
+    entry.job.status = status;
+    entry.job.finishedAt = new Date().toISOString();
+    this.emit(entry, status);
+    entry.events.removeAllListeners();
+
+    setTimeout(() => this.jobs.delete(entry.job.id), JOB_RETENTION_MS).unref();
+  }
+
+  private emit(entry: SearchJobEntry, type: SearchJobEvent['type']): void {
+    entry.events.emit('event', { type, job: entry.job } satisfies SearchJobEvent);
+  }
+}
+
+// Export singleton instance
+export const searchJobService = new SearchJobService();
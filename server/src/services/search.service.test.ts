@@ -0,0 +1,235 @@
+import { afterEach, beforeEach, describe, expect, it, vi, type MockInstance } from 'vitest';
+import type { WeatherFilters } from '../validators/weather.js';
+import type { GridPointWeather } from '../types/weather.js';
+import { dailyWeather, MOAB_GRID_POINT } from '../__fixtures__/daily-weather.js';
+import { fakePrisma, resetFakePrisma } from '../__fixtures__/prisma.js';
+import { scoringService } from './scoring.service.js';
+import { SearchService, type WeatherSearchParams } from './search.service.js';
+import { weatherService } from './weather.service.js';
+
+vi.mock('@prisma/client', async importOriginal => ({
+  ...(await importOriginal<typeof import('@prisma/client')>()),
+  PrismaClient: (await import('../__fixtures__/prisma.js')).FakePrismaClient,
+}));
+
+const GRAND_JUNCTION = {
+  ...MOAB_GRID_POINT,
+  id: '00000000-0000-4000-8000-000000000002',
+  latitude: 39.0639,
+  longitude: -108.5506,
+  nearestCity: 'Grand Junction',
+  state: 'CO',
+};
+
+const DATES = ['2025-03-02', '2025-03-03', '2025-03-04'];
+
+function params(
+  filters: WeatherFilters,
+  options: WeatherSearchParams['options'] = {}
+): WeatherSearchParams {
+  return {
+    filters,
+    dateRange: { startDate: DATES[0], endDate: DATES[DATES.length - 1] },
+    options,
+    scoring: scoringService.resolveScoring(filters, { curves: { tempHigh: 'cutoff' } }),
+  };
+}
+
+/**
+ * Serve every date's high for each point from `tempHigh`
+ */
+function stubWeather(tempHigh: (point: { latitude: number; longitude: number }) => number) {
+  return vi.spyOn(weatherService, 'getGridPointsWeather').mockImplementation(async points =>
+    points.map(
+      (point): GridPointWeather => ({
+        gridPointId: point.id,
+        latitude: point.latitude,
+        longitude: point.longitude,
+        daily: DATES.map(date => dailyWeather(date, { tempHigh: tempHigh(point) })),
+        dataSource: 'forecast',
+        fetchedAt: new Date(),
+        freshness: { ageMinutes: 0, staleDays: 0, refreshing: false },
+      })
+    )
+  );
+}
+
+/**
+ * Per-point counts of cached days failing outright, as the prefilter query returns them
+ */
+function cachedFailures(
+  ...rows: Array<{ id: string; failingDays: number; tempHigh?: number; humidity?: number }>
+) {
+  fakePrisma.$queryRaw.mockResolvedValue(
+    rows.map(({ id, failingDays, ...categories }) => ({
+      grid_point_id: id,
+      failing_days: failingDays,
+      ...categories,
+    }))
+  );
+}
+
+describe('SearchService prefilter', () => {
+  let getWeather: MockInstance<typeof weatherService.getGridPointsWeather>;
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2025-03-01T15:00:00Z'));
+    fakePrisma.gridPoint.findMany.mockResolvedValue([MOAB_GRID_POINT, GRAND_JUNCTION]);
+    // Every day is too hot, so every point scores 0 for the high
+    getWeather = stubWeather(() => 95);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+    resetFakePrisma();
+  });
+
+  const scoredIds = () => getWeather.mock.calls.flatMap(([points]) => points.map(p => p.id));
+
+  it('keeps every point at the default minScore and no day requirements', async () => {
+    cachedFailures({ id: MOAB_GRID_POINT.id, failingDays: 3, tempHigh: 3 });
+
+    const { results, meta } = await new SearchService().search(params({ highMax: 80 }));
+
+    expect(fakePrisma.$queryRaw).not.toHaveBeenCalled();
+    expect(meta.prefilteredPoints).toBe(0);
+    expect(results.map(location => [location.gridPointId, location.score])).toEqual([
+      [MOAB_GRID_POINT.id, 0],
+      [GRAND_JUNCTION.id, 0],
+    ]);
+  });
+
+  it('rules out points whose failing days keep them below minScore', async () => {
+    // Moab could still score 100 for humidity, so 50 overall; Grand Junction at most 34
+    cachedFailures(
+      { id: MOAB_GRID_POINT.id, failingDays: 3, tempHigh: 3 },
+      { id: GRAND_JUNCTION.id, failingDays: 3, tempHigh: 3, humidity: 1 }
+    );
+
+    const { meta } = await new SearchService().search(
+      params({ highMax: 80, humidityMax: 50 }, { minScore: 50 })
+    );
+
+    expect(meta.prefilteredPoints).toBe(1);
+    expect(scoredIds()).toEqual([MOAB_GRID_POINT.id]);
+  });
+
+  it('rules out points without enough possible passing days for the streak', async () => {
+    cachedFailures(
+      { id: MOAB_GRID_POINT.id, failingDays: 1, tempHigh: 1 },
+      { id: GRAND_JUNCTION.id, failingDays: 2, tempHigh: 2 }
+    );
+
+    const { meta } = await new SearchService().search(
+      params({ highMax: 80, minConsecutivePassingDays: 2 })
+    );
+
+    expect(meta.prefilteredPoints).toBe(1);
+    expect(scoredIds()).toEqual([MOAB_GRID_POINT.id]);
+  });
+
+  it('leaves future dates without a forecast to scoring', async () => {
+    cachedFailures();
+
+    await new SearchService().search(params({ highMax: 80 }, { minScore: 50 }));
+
+    // Climate normals serve them, not the cached historical averages
+    const [query] = fakePrisma.$queryRaw.mock.calls[0];
+    expect(query.join('')).toContain("NOT (data_type = 'historical' AND date >= CURRENT_DATE)");
+  });
+
+  it('compares passing day ratios rounded the way scoring reports them', async () => {
+    // Two of three days could pass: 0.67 once rounded
+    cachedFailures(
+      { id: MOAB_GRID_POINT.id, failingDays: 1, tempHigh: 1 },
+      { id: GRAND_JUNCTION.id, failingDays: 2, tempHigh: 2 }
+    );
+
+    const { meta } = await new SearchService().search(
+      params({ highMax: 80, minPassingDayRatio: 0.67 })
+    );
+
+    expect(meta.prefilteredPoints).toBe(1);
+    expect(scoredIds()).toEqual([MOAB_GRID_POINT.id]);
+  });
+});
+
+describe('SearchService coarse-to-fine', () => {
+  // 0.25° grid over 35-40°N, 109-114°W: 400 points in 25 1° cells
+  const grid = Array.from({ length: 400 }, (_, i) => ({
+    ...MOAB_GRID_POINT,
+    id: `00000000-0000-4000-8000-${i.toString(16).padStart(12, '0')}`,
+    latitude: 35 + Math.floor(i / 20) * 0.25,
+    longitude: -114 + (i % 20) * 0.25,
+  }));
+  // Only the four cells in the south-west corner are mild enough
+  const inMildCorner = (point: { latitude: number; longitude: number }) =>
+    point.latitude < 37 && point.longitude < -112;
+  let getWeather: MockInstance<typeof weatherService.getGridPointsWeather>;
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2025-03-01T15:00:00Z'));
+    getWeather = stubWeather(point => (inMildCorner(point) ? 70 : 95));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+    resetFakePrisma();
+  });
+
+  it('scores one point per cell, then refines only the cells that meet minScore', async () => {
+    fakePrisma.$queryRaw.mockResolvedValueOnce(
+      grid.map(point => ({
+        ...point,
+        nearest_city: point.nearestCity,
+        distance_meters: 1609.344,
+      }))
+    );
+
+    const { results, meta } = await new SearchService().search(
+      params({ highMax: 80 }, { center: { lat: 37, lon: -111 }, minScore: 50, limit: 20 })
+    );
+
+    // The point nearest each cell's center stands in for it
+    const [[coarse], ...refineBatches] = getWeather.mock.calls;
+    const refined = refineBatches.flatMap(([points]) => points);
+    expect(coarse).toHaveLength(25);
+    expect(coarse.every(point => point.latitude % 1 === 0.5 && point.longitude % 1 === -0.5)).toBe(
+      true
+    );
+    // The other 15 points of each mild cell
+    expect(refined).toHaveLength(60);
+    expect(refined.every(inMildCorner)).toBe(true);
+
+    expect(meta).toEqual({
+      totalGridPoints: 400,
+      prefilteredPoints: 0,
+      coarsePoints: 25,
+      refinedCells: 4,
+      pointsScored: 85,
+    });
+    expect(results).toHaveLength(20);
+    expect(results.every(location => location.score === 100 && location.distanceMiles === 1)).toBe(
+      true
+    );
+  });
+
+  it.each([
+    [20, 8],
+    [60, 15],
+    [400, 25],
+  ])('refines the best cells for a limit of %i: %i of them', async (limit, refinedCells) => {
+    fakePrisma.gridPoint.findMany.mockResolvedValue(grid);
+    stubWeather(() => 70);
+
+    const { results, meta } = await new SearchService().search(params({ highMax: 80 }, { limit }));
+
+    expect(meta.refinedCells).toBe(refinedCells);
+    expect(meta.pointsScored).toBe(25 + refinedCells * 15);
+    expect(results).toHaveLength(Math.min(limit, meta.pointsScored));
+  });
+});
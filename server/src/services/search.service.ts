@@ -0,0 +1,543 @@
+import { Prisma, PrismaClient, GridRegion } from '@prisma/client';
+import type {
+  ScoringCategory,
+  SearchSort,
+  WeatherFilters,
+  WeatherSearchRequest,
+} from '../validators/weather.js';
+import type {
+  AppliedScoring,
+  GridPointSummary,
+  HardFailCondition,
+  ScoredLocation,
+  WeatherSearchMeta,
+} from '../types/weather.js';
+import { METERS_PER_MILE, filtersToImperial, scoredLocationToUnits } from '../providers/units.js';
+import { FORECAST_CACHE_HOURS, MAX_STALE_HOURS, weatherService } from './weather.service.js';
+import { scoringService } from './scoring.service.js';
+
+const prisma = new PrismaClient();
+
+/**
+ * Coarse pass cell size in degrees. The grid is 0.25°, so a 1° cell holds
+ * up to 16 points and the coarse pass scores one of them.
+ */
+const COARSE_CELL_DEGREES = 1;
+
+/**
+ * Candidate sets this small are scored in full - no coarse pass needed
+ */
+const FULL_SCAN_MAX_POINTS = 300;
+
+/**
+ * Bounds on how many of the best coarse cells get refined at full resolution
+ */
+const MIN_REFINE_CELLS = 8;
+const MAX_REFINE_CELLS = 40;
+
+/**
+ * Grid points fetched and scored together. Cache misses in a batch share
+ * multi-location provider requests; cancellation is checked between batches.
+ */
+const SCORE_BATCH_SIZE = 50;
+
+/**
+ * weather_cache columns the SQL prefilter can compare
+ */
+const PREFILTER_COLUMNS: Record<HardFailCondition['field'], string> = {
+  tempHigh: 'temp_high',
+  tempLow: 'temp_low',
+  humidity: 'humidity',
+  windSpeed: 'wind_speed',
+  precipChance: 'precip_chance',
+  aqi: 'aqi',
+};
+
+/**
+ * Parameters for a weather search
+ */
+export interface WeatherSearchParams {
+  filters: WeatherFilters;
+  dateRange: { startDate: string; endDate: string };
+  options?: WeatherSearchRequest['options'];
+  scoring: AppliedScoring;
+}
+
+/**
+ * Ranked search results plus coverage statistics
+ */
+export interface WeatherSearchOutcome {
+  results: ScoredLocation[];
+  meta: WeatherSearchMeta;
+}
+
+/**
+ * Progress snapshot reported while a search runs
+ */
+export interface WeatherSearchProgress {
+  pointsScored: number;
+  pointsPlanned: number; // Estimated until the refine pass is planned
+  etaSeconds: number | null;
+  results: ScoredLocation[]; // Current ranked results (same limit/minScore as the final list)
+}
+
+/**
+ * Optional hooks for long-running searches
+ */
+export interface WeatherSearchHooks {
+  onProgress?: (progress: WeatherSearchProgress) => void;
+  signal?: AbortSignal;
+}
+
+/**
+ * Thrown when a search is aborted through its AbortSignal
+ */
+export class SearchCancelledError extends Error {
+  constructor() {
+    super('Search was cancelled');
+    this.name = 'SearchCancelledError';
+  }
+}
+
+/**
+ * Search service - finds the best-scoring grid points for a weather search.
+ *
+ * Searches run coarse-to-fine: one representative point per 1° cell is scored
+ * first, then only the most promising cells are scored at full 0.25° resolution.
+ * This covers the whole continental US while keeping provider calls bounded.
+ */
+export class SearchService {
+  async search(
+    params: WeatherSearchParams,
+    hooks: WeatherSearchHooks = {}
+  ): Promise<WeatherSearchOutcome> {
+    const { options } = params;
+    const limit = options?.limit ?? 50;
+    const minScore = options?.minScore ?? 0;
+    const sortBy = options?.sortBy ?? 'score';
+    const units = options?.units ?? 'imperial';
+
+    // Score against imperial filters; results are converted back for the response
+    const scoringParams = { ...params, filters: filtersToImperial(params.filters, units) };
+
+    const loaded = await this.loadCandidates(params);
+    const candidates = await this.prefilter(loaded, scoringParams);
+    const meta: WeatherSearchMeta = {
+      totalGridPoints: loaded.length,
+      prefilteredPoints: loaded.length - candidates.length,
+      coarsePoints: 0,
+      refinedCells: 0,
+      pointsScored: 0,
+    };
+
+    // Progress tracking across both passes
+    const startedAt = Date.now();
+    const scored: ScoredLocation[] = [];
+    const ranked = () =>
+      this.rank(scored, limit, minScore, sortBy).map(location => scoredLocationToUnits(location, units));
+    let pointsPlanned = 0;
+    const onBatch = (batchScored: ScoredLocation[], attempted: number) => {
+      scored.push(...batchScored);
+      meta.pointsScored += attempted;
+
+      if (hooks.onProgress) {
+        const msPerPoint = (Date.now() - startedAt) / meta.pointsScored;
+        hooks.onProgress({
+          pointsScored: meta.pointsScored,
+          pointsPlanned,
+          etaSeconds: Math.round((Math.max(0, pointsPlanned - meta.pointsScored) * msPerPoint) / 1000),
+          results: ranked(),
+        });
+      }
+    };
+
+    if (candidates.length <= FULL_SCAN_MAX_POINTS) {
+      pointsPlanned = candidates.length;
+      meta.coarsePoints = candidates.length;
+      await this.scorePoints(candidates, scoringParams, hooks.signal, onBatch);
+    } else {
+      // Coarse pass: one representative point per cell
+      const cells = this.groupIntoCells(candidates);
+      const representatives = Array.from(cells.values()).map(cell => cell.representative);
+      const refineCount = Math.min(
+        MAX_REFINE_CELLS,
+        Math.max(MIN_REFINE_CELLS, Math.ceil(limit / 4))
+      );
+
+      pointsPlanned =
+        representatives.length + Math.round(refineCount * (candidates.length / cells.size - 1));
+      meta.coarsePoints = representatives.length;
+      await this.scorePoints(representatives, scoringParams, hooks.signal, onBatch);
+
+      // Refine pass: every point in the best-scoring cells
+      const promisingCells = scored
+        .filter(location => location.meetsDayRequirements && location.score >= minScore)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, refineCount)
+        .map(location => this.cellKey(location.latitude, location.longitude));
+
+      const scoredIds = new Set(scored.map(location => location.gridPointId));
+      const refinePoints = promisingCells.flatMap(key =>
+        (cells.get(key)?.points ?? []).filter(point => !scoredIds.has(point.id))
+      );
+
+      pointsPlanned = representatives.length + refinePoints.length;
+      meta.refinedCells = promisingCells.length;
+      await this.scorePoints(refinePoints, scoringParams, hooks.signal, onBatch);
+    }
+
+    const results = ranked();
+    await this.recordRegionDemand(results);
+
+    return { results, meta };
+  }
+
+  /**
+   * Count the search against each region it returned results in, so the cache
+   * warmer can refresh the most-searched regions first. Never fails the search.
+   */
+  private async recordRegionDemand(results: ScoredLocation[]): Promise<void> {
+    const regions = Array.from(new Set(results.map(location => location.region as GridRegion)));
+    if (regions.length === 0) {
+      return;
+    }
+
+    try {
+      await prisma.$transaction(
+        regions.map(region =>
+          prisma.regionSearchStat.upsert({
+            where: { region },
+            create: { region, searches: 1 },
+            update: { searches: { increment: 1 }, lastSearchedAt: new Date() },
+          })
+        )
+      );
+    } catch (error) {
+      console.error('Error recording region search demand:', error);
+    }
+  }
+
+  /**
+   * Drop locations below minScore or missing the day-count requirements, then
+   * sort and limit - by score descending, or nearest first (ties broken by score)
+   * when sorting by distance
+   */
+  private rank(
+    scored: ScoredLocation[],
+    limit: number,
+    minScore: number,
+    sortBy: SearchSort
+  ): ScoredLocation[] {
+    return scored
+      .filter(location => location.meetsDayRequirements && location.score >= minScore)
+      .sort((a, b) =>
+        sortBy === 'distance'
+          ? (a.distanceMiles ?? 0) - (b.distanceMiles ?? 0) || b.score - a.score
+          : b.score - a.score
+      )
+      .slice(0, limit);
+  }
+
+  /**
+   * Load every grid point matching the region/state options, in a stable order
+   */
+  private async loadCandidates(params: WeatherSearchParams): Promise<GridPointSummary[]> {
+    const { options } = params;
+
+    if (options?.center) {
+      return this.loadCandidatesAround(options.center, options);
+    }
+
+    const where: {
+      region?: GridRegion;
+      state?: { in: string[] };
+    } = {};
+
+    if (options?.region) {
+      where.region = options.region as GridRegion;
+    }
+
+    if (options?.states && options.states.length > 0) {
+      where.state = { in: options.states.map(s => s.toUpperCase()) };
+    }
+
+    return prisma.gridPoint.findMany({
+      where,
+      select: {
+        id: true,
+        latitude: true,
+        longitude: true,
+        nearestCity: true,
+        state: true,
+        region: true,
+      },
+      orderBy: [{ latitude: 'asc' }, { longitude: 'asc' }],
+    });
+  }
+
+  /**
+   * Drop candidates whose cached weather already rules them out, before any
+   * weather is loaded into Node. Days with cached values that fail a filter
+   * outright can't pass it and score 0 in that category, so a point is only
+   * dropped when too few of its days could pass for the day requirements, or
+   * when its failing days keep it below minScore even if everything else
+   * scored 100. Days without usable cached columns (not cached, too stale to
+   * be served, or beyond the forecast) count as possible passes.
+   */
+  private async prefilter(
+    candidates: GridPointSummary[],
+    params: WeatherSearchParams
+  ): Promise<GridPointSummary[]> {
+    const { filters, options, scoring } = params;
+    const minScore = options?.minScore ?? 0;
+    const minStreak = filters.minConsecutivePassingDays ?? 0;
+    const minRatio = filters.minPassingDayRatio ?? 0;
+    const conditions = scoringService.hardFailConditions(filters, scoring);
+    if (
+      candidates.length === 0 ||
+      conditions.length === 0 ||
+      (minScore <= 0 && minStreak === 0 && minRatio === 0)
+    ) {
+      return candidates;
+    }
+
+    const { startDate, endDate } = params.dateRange;
+    const days = Math.round((Date.parse(endDate) - Date.parse(startDate)) / 86400000) + 1;
+
+    // Only rows fresh enough to be served as forecasts count (historical rows are
+    // served for longer, so this errs towards keeping points)
+    const servableSince = new Date(
+      Date.now() - (FORECAST_CACHE_HOURS + MAX_STALE_HOURS) * 60 * 60 * 1000
+    );
+
+    const failingByCategory = new Map<ScoringCategory, Prisma.Sql[]>();
+    for (const condition of conditions) {
+      const column = Prisma.raw(PREFILTER_COLUMNS[condition.field]);
+      const comparison = Prisma.sql`${column} ${Prisma.raw(condition.op)} ${condition.value}`;
+
+      let failing = Prisma.sql`(${comparison})`;
+      if (condition.precipTypeIn) {
+        const types = Prisma.join(condition.precipTypeIn);
+        failing = Prisma.sql`(${comparison} AND precip_type IN (${types}))`;
+      } else if (condition.precipTypeNotIn) {
+        const types = Prisma.join(condition.precipTypeNotIn);
+        failing = Prisma.sql`(${comparison} AND precip_type NOT IN (${types}))`;
+      }
+      failingByCategory.set(condition.category, [
+        ...(failingByCategory.get(condition.category) ?? []),
+        failing,
+      ]);
+    }
+    const categories = Array.from(failingByCategory.keys());
+    const failingIn = (category: ScoringCategory) =>
+      Prisma.join(failingByCategory.get(category)!, ' OR ');
+
+    // The most recently fetched row for each date is the one that gets served.
+    // Future dates without a forecast are served from climate normals or
+    // climatology rather than cached historical averages, so they're skipped.
+    // Each category's failing days are counted in a column named after it.
+    const rows = await prisma.$queryRaw<
+      Array<{ grid_point_id: string; failing_days: number } & Record<ScoringCategory, number>>
+    >`
+      SELECT
+        grid_point_id,
+        COUNT(*)::int AS failing_days,
+        ${Prisma.join(
+          categories.map(category => {
+            const alias = Prisma.raw(`"${category}"`);
+            return Prisma.sql`COUNT(*) FILTER (WHERE ${failingIn(category)})::int AS ${alias}`;
+          })
+        )}
+      FROM (
+        SELECT DISTINCT ON (grid_point_id, date) *
+        FROM weather_cache
+        WHERE grid_point_id = ANY(${candidates.map(point => point.id)}::text[])
+          AND date BETWEEN ${startDate}::date AND ${endDate}::date
+        ORDER BY grid_point_id, date, fetched_at DESC
+      ) served
+      WHERE fetched_at >= ${servableSince}
+        AND NOT (data_type = 'historical' AND date >= CURRENT_DATE)
+        AND (${Prisma.join(categories.map(failingIn), ' OR ')})
+      GROUP BY grid_point_id
+    `;
+
+    const ruledOut = new Set(
+      rows
+        .filter(row => {
+          // Passing days can't outnumber the days that don't fail
+          const possiblePasses = days - row.failing_days;
+          if (
+            possiblePasses < minStreak ||
+            Math.round((possiblePasses / days) * 100) / 100 < minRatio
+          ) {
+            return true;
+          }
+
+          const failingDays = Object.fromEntries(
+            categories.map(category => [category, row[category]])
+          );
+          const maxScore = scoringService.maxPossibleScore(
+            failingDays,
+            days,
+            scoring,
+            options?.windowDays
+          );
+          return maxScore < minScore;
+        })
+        .map(row => row.grid_point_id)
+    );
+    return candidates.filter(point => !ruledOut.has(point.id));
+  }
+
+  /**
+   * Load grid points around a center using the PostGIS location column,
+   * with great-circle distance. Limited to radiusMiles when given.
+   */
+  private async loadCandidatesAround(
+    center: { lat: number; lon: number },
+    options: NonNullable<WeatherSearchParams['options']>
+  ): Promise<GridPointSummary[]> {
+    const origin = Prisma.sql`ST_SetSRID(ST_MakePoint(${center.lon}, ${center.lat}), 4326)::geography`;
+    const conditions = [Prisma.sql`location IS NOT NULL`];
+
+    if (options.radiusMiles !== undefined) {
+      // ST_DWithin uses the spatial index on location
+      conditions.push(Prisma.sql`ST_DWithin(location, ${origin}, ${options.radiusMiles * METERS_PER_MILE})`);
+    }
+
+    if (options.region) {
+      conditions.push(Prisma.sql`region = ${options.region}::grid_region`);
+    }
+
+    if (options.states && options.states.length > 0) {
+      conditions.push(
+        Prisma.sql`state IN (${Prisma.join(options.states.map(s => s.toUpperCase()))})`
+      );
+    }
+
+    const rows = await prisma.$queryRaw<
+      Array<{
+        id: string;
+        latitude: number;
+        longitude: number;
+        nearest_city: string | null;
+        state: string;
+        region: string;
+        distance_meters: number;
+      }>
+    >`
+      SELECT
+        id,
+        latitude,
+        longitude,
+        nearest_city,
+        state,
+        region,
+        ST_Distance(location, ${origin}) AS distance_meters
+      FROM grid_points
+      WHERE ${Prisma.join(conditions, ' AND ')}
+      ORDER BY latitude, longitude
+    `;
+
+    return rows.map(row => ({
+      id: row.id,
+      latitude: row.latitude,
+      longitude: row.longitude,
+      nearestCity: row.nearest_city,
+      state: row.state,
+      region: row.region,
+      distanceMiles: Math.round((row.distance_meters / METERS_PER_MILE) * 10) / 10,
+    }));
+  }
+
+  /**
+   * Group points into coarse cells, picking the point nearest each cell's
+   * center as its representative
+   */
+  private groupIntoCells(
+    points: GridPointSummary[]
+  ): Map<string, { representative: GridPointSummary; points: GridPointSummary[] }> {
+    const cells = new Map<string, { representative: GridPointSummary; points: GridPointSummary[] }>();
+
+    for (const point of points) {
+      const key = this.cellKey(point.latitude, point.longitude);
+      const cell = cells.get(key);
+
+      if (!cell) {
+        cells.set(key, { representative: point, points: [point] });
+        continue;
+      }
+
+      cell.points.push(point);
+      if (this.distanceToCellCenter(point) < this.distanceToCellCenter(cell.representative)) {
+        cell.representative = point;
+      }
+    }
+
+    return cells;
+  }
+
+  private cellKey(latitude: number, longitude: number): string {
+    return `${Math.floor(latitude / COARSE_CELL_DEGREES)}:${Math.floor(longitude / COARSE_CELL_DEGREES)}`;
+  }
+
+  private distanceToCellCenter(point: GridPointSummary): number {
+    const centerLat = (Math.floor(point.latitude / COARSE_CELL_DEGREES) + 0.5) * COARSE_CELL_DEGREES;
+    const centerLon = (Math.floor(point.longitude / COARSE_CELL_DEGREES) + 0.5) * COARSE_CELL_DEGREES;
+    return Math.hypot(point.latitude - centerLat, point.longitude - centerLon);
+  }
+
+  /**
+   * Fetch weather and score each point, a batch at a time.
+   * Batches whose weather can't be fetched are skipped. Checks for cancellation between batches.
+   */
+  private async scorePoints(
+    points: GridPointSummary[],
+    params: WeatherSearchParams,
+    signal: AbortSignal | undefined,
+    onBatch: (scored: ScoredLocation[], attempted: number) => void
+  ): Promise<void> {
+    const { filters, dateRange, scoring } = params;
+
+    for (let i = 0; i < points.length; i += SCORE_BATCH_SIZE) {
+      if (signal?.aborted) {
+        throw new SearchCancelledError();
+      }
+
+      const batch = points.slice(i, i + SCORE_BATCH_SIZE);
+
+      let batchResults: ScoredLocation[] = [];
+      try {
+        const weather = await weatherService.getGridPointsWeather(
+          batch,
+          dateRange.startDate,
+          dateRange.endDate,
+          {
+            includeAirQuality: filters.aqiMax !== undefined,
+            includeHourly: scoringService.needsHourlyData(filters),
+            climatologyYears: params.options?.climatologyYears,
+          }
+        );
+
+        batchResults = batch.map((gridPoint, j) => ({
+          ...scoringService.scoreLocation(
+            gridPoint,
+            weather[j].daily,
+            filters,
+            weather[j].dataSource,
+            scoring,
+            params.options?.windowDays
+          ),
+          freshness: weather[j].freshness,
+        }));
+      } catch (error) {
+        console.error(`Error fetching weather for ${batch.length} grid points:`, error);
+      }
+
+      onBatch(batchResults, batch.length);
+    }
+  }
+}
+
+// Export singleton instance
+export const searchService = new SearchService();
@@ -0,0 +1,326 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { dailyWeather, MOAB_GRID_POINT } from '../__fixtures__/daily-weather.js';
+import { fakePrisma, resetFakePrisma } from '../__fixtures__/prisma.js';
+import { RecordingWeatherProvider } from '../__fixtures__/providers.js';
+import { StubAirQualityProvider } from '../providers/airquality.provider.js';
+import { forecastAccuracyService } from './forecast-accuracy.service.js';
+import { WeatherService } from './weather.service.js';
+
+vi.mock('@prisma/client', async importOriginal => ({
+  ...(await importOriginal<typeof import('@prisma/client')>()),
+  PrismaClient: (await import('../__fixtures__/prisma.js')).FakePrismaClient,
+}));
+
+const GRAND_JUNCTION = {
+  id: '00000000-0000-4000-8000-000000000002',
+  latitude: 39.0639,
+  longitude: -108.5506,
+};
+
+/**
+ * Hold a provider's batch fetches until released, so lookups overlap them
+ */
+function holdFetches(provider: RecordingWeatherProvider) {
+  let release!: () => void;
+  const held = new Promise<void>(resolve => (release = resolve));
+  const fetchBatch = provider.getWeatherBatch.bind(provider);
+  const spy = vi
+    .spyOn(provider, 'getWeatherBatch')
+    .mockImplementation(async (locations, startDate, endDate) => {
+      await held;
+      return fetchBatch(locations, startDate, endDate);
+    });
+  const spans = () => spy.mock.calls.map(([, startDate, endDate]) => [startDate, endDate]);
+  return { release, spans };
+}
+
+describe('WeatherService', () => {
+  let detail: RecordingWeatherProvider;
+  let bulk: RecordingWeatherProvider;
+  let service: WeatherService;
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2025-03-01T15:00:00Z'));
+    detail = new RecordingWeatherProvider('nws');
+    bulk = new RecordingWeatherProvider('open-meteo');
+    service = new WeatherService(detail, new StubAirQualityProvider(), undefined, undefined, bulk);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+    resetFakePrisma();
+  });
+
+  describe('provider chains', () => {
+    it('fetches a single grid point through the detail chain', async () => {
+      const weather = await service.getGridPointWeather(
+        MOAB_GRID_POINT,
+        '2025-03-01',
+        '2025-03-03'
+      );
+
+      expect(weather.daily.map(day => day.provider)).toEqual(['nws', 'nws', 'nws']);
+      expect(detail.calls).toHaveLength(1);
+      expect(bulk.calls).toHaveLength(0);
+    });
+
+    it('fetches many grid points through the bulk chain, batched', async () => {
+      const weather = await service.getGridPointsWeather(
+        [MOAB_GRID_POINT, GRAND_JUNCTION],
+        '2025-03-01',
+        '2025-03-03'
+      );
+
+      expect(weather.map(point => point.daily.length)).toEqual([3, 3]);
+      expect(bulk.calls).toHaveLength(1);
+      expect(bulk.calls[0].locations).toHaveLength(2);
+      expect(detail.calls).toHaveLength(0);
+      expect(fakePrisma.weatherCache.upsert).toHaveBeenCalledTimes(6);
+    });
+
+    it('refreshes forecasts through the bulk chain', async () => {
+      const refreshed = await service.refreshForecasts([MOAB_GRID_POINT, GRAND_JUNCTION], 6);
+
+      expect(refreshed).toBe(2);
+      const spans = bulk.calls.map(call => [call.locations.length, call.startDate, call.endDate]);
+      expect(spans).toEqual([[2, '2025-03-01', '2025-03-16']]);
+      expect(detail.calls).toHaveLength(0);
+    });
+  });
+
+  describe('concurrent lookups', () => {
+    it('joins a lookup already fetching the same dates', async () => {
+      const fetches = holdFetches(bulk);
+
+      const first = service.getGridPointsWeather([MOAB_GRID_POINT], '2025-03-01', '2025-03-04');
+      await vi.waitFor(() => expect(fetches.spans()).toHaveLength(1));
+      const second = service.getGridPointsWeather([MOAB_GRID_POINT], '2025-03-02', '2025-03-03');
+      fetches.release();
+
+      const [[joined]] = await Promise.all([second, first]);
+      expect(fetches.spans()).toEqual([['2025-03-01', '2025-03-04']]);
+      expect(joined.daily.map(day => day.date)).toEqual(['2025-03-02', '2025-03-03']);
+    });
+
+    it('only fetches the dates around ones another lookup has in flight', async () => {
+      const fetches = holdFetches(bulk);
+
+      const first = service.getGridPointsWeather([MOAB_GRID_POINT], '2025-03-02', '2025-03-03');
+      await vi.waitFor(() => expect(fetches.spans()).toHaveLength(1));
+      const second = service.getGridPointsWeather([MOAB_GRID_POINT], '2025-03-01', '2025-03-04');
+      await vi.waitFor(() => expect(fetches.spans().length).toBeGreaterThan(1));
+      fetches.release();
+
+      const [[wider]] = await Promise.all([second, first]);
+      expect(fetches.spans()).toEqual([
+        ['2025-03-02', '2025-03-03'],
+        ['2025-03-01', '2025-03-01'],
+        ['2025-03-04', '2025-03-04'],
+      ]);
+      expect(wider.daily).toHaveLength(4);
+    });
+  });
+
+  describe('stale cache', () => {
+    /** Cache Moab forecasts for the dates, fetched at the given time */
+    const cachedForecasts = (fetchedAt: string, ...dates: string[]) =>
+      fakePrisma.weatherCache.findMany.mockResolvedValue(
+        dates.map(date => ({
+          gridPointId: MOAB_GRID_POINT.id,
+          date: new Date(date),
+          dataType: 'forecast',
+          data: dailyWeather(date, { tempHigh: 60 }),
+          fetchedAt: new Date(fetchedAt),
+        }))
+      );
+
+    it('serves expired days within the limit right away, refreshing them once', async () => {
+      cachedForecasts('2025-03-01T05:00:00Z', '2025-03-01', '2025-03-02');
+      const fetches = holdFetches(bulk);
+
+      // Both lookups return while the refresh is held
+      for (let i = 0; i < 2; i++) {
+        const [weather] = await service.getGridPointsWeather(
+          [MOAB_GRID_POINT],
+          '2025-03-01',
+          '2025-03-02'
+        );
+        expect(weather.daily.map(day => [day.tempHigh, day.stale])).toEqual([
+          [60, true],
+          [60, true],
+        ]);
+        expect(weather.freshness).toMatchObject({ staleDays: 2, refreshing: true });
+      }
+
+      expect(fetches.spans()).toEqual([['2025-03-01', '2025-03-02']]);
+      fetches.release();
+      await vi.waitFor(() => expect(fakePrisma.weatherCache.upsert).toHaveBeenCalledTimes(2));
+    });
+
+    it('waits for a fresh fetch of days expired past the limit', async () => {
+      cachedForecasts('2025-02-27T23:00:00Z', '2025-03-01', '2025-03-02');
+
+      const [weather] = await service.getGridPointsWeather(
+        [MOAB_GRID_POINT],
+        '2025-03-01',
+        '2025-03-02'
+      );
+
+      expect(weather.daily.map(day => [day.tempHigh, day.stale])).toEqual([
+        [70, false],
+        [70, false],
+      ]);
+      expect(weather.freshness).toMatchObject({ staleDays: 0, refreshing: false });
+      expect(bulk.calls).toHaveLength(1);
+    });
+
+    it('refreshes expired days between dates another lookup has in flight', async () => {
+      const fetches = holdFetches(bulk);
+      fakePrisma.weatherCache.findMany.mockResolvedValueOnce([]);
+      const first = service.getGridPointsWeather([MOAB_GRID_POINT], '2025-03-03', '2025-03-03');
+      await vi.waitFor(() => expect(fetches.spans()).toHaveLength(1));
+
+      cachedForecasts('2025-03-01T05:00:00Z', '2025-03-02');
+      const second = service.getGridPointsWeather([MOAB_GRID_POINT], '2025-03-01', '2025-03-04');
+      await vi.waitFor(() => expect(fetches.spans().length).toBeGreaterThan(1));
+      fetches.release();
+      await Promise.all([first, second]);
+
+      expect(fetches.spans()).toEqual([
+        ['2025-03-03', '2025-03-03'],
+        ['2025-03-01', '2025-03-01'],
+        ['2025-03-04', '2025-03-04'],
+        ['2025-03-02', '2025-03-02'],
+      ]);
+    });
+  });
+
+  describe('forecast confidence', () => {
+    it("uses the grid point's region for measured confidence", async () => {
+      vi.spyOn(forecastAccuracyService, 'getConfidenceLookup').mockResolvedValue(region =>
+        region === 'southwest' ? 0.9 : 0.5
+      );
+
+      const weather = await service.getGridPointWeather(
+        MOAB_GRID_POINT,
+        '2025-03-01',
+        '2025-03-02'
+      );
+
+      expect(weather.daily.map(day => day.confidence)).toEqual([0.9, 0.9]);
+    });
+  });
+
+  describe('air quality', () => {
+    it('clears the copied AQI of a refreshed forecast until fresh AQI is cached', async () => {
+      const fetchedAt = new Date('2025-02-27T15:00:00Z');
+      fakePrisma.weatherCache.findMany.mockResolvedValue([
+        {
+          gridPointId: MOAB_GRID_POINT.id,
+          date: new Date('2025-03-01'),
+          dataType: 'forecast',
+          data: dailyWeather('2025-03-01', { aqi: 180 }),
+          aqi: 180,
+          fetchedAt,
+        },
+      ]);
+      fakePrisma.airQualityCache.findMany.mockResolvedValue([
+        { date: new Date('2025-03-01'), aqi: 180, aqiCategory: 'Unhealthy', fetchedAt },
+      ]);
+
+      const [weather] = await service.getGridPointsWeather(
+        [MOAB_GRID_POINT],
+        '2025-03-01',
+        '2025-03-01'
+      );
+
+      const [{ create, update }] = fakePrisma.weatherCache.upsert.mock.calls[0];
+      expect(create.aqi).toBeNull();
+      expect(update.aqi).toBeNull();
+      expect(fakePrisma.weatherCache.updateMany).toHaveBeenCalledWith({
+        where: { gridPointId: MOAB_GRID_POINT.id, date: new Date('2025-03-01') },
+        data: { aqi: 35 },
+      });
+      expect(weather.daily[0].aqi).toBe(35);
+    });
+  });
+
+  describe('climate normals', () => {
+    it('ages days from climate normals by their build time without refetching them', async () => {
+      fakePrisma.climateNormal.findMany.mockResolvedValue([
+        {
+          id: 'normal-1',
+          gridPointId: MOAB_GRID_POINT.id,
+          dayOfYear: 91, // 2025-04-01
+          years: 10,
+          tempHigh: 66,
+          tempLow: 38,
+          apparentTempHigh: 64,
+          apparentTempLow: 34,
+          dewPoint: 25,
+          humidity: 30,
+          windSpeed: 9,
+          precipChance: 12,
+          precipAmount: 0.02,
+          precipType: 'rain',
+          builtAt: new Date('2025-02-01T15:00:00Z'),
+        },
+      ]);
+
+      const [weather] = await service.getGridPointsWeather(
+        [MOAB_GRID_POINT],
+        '2025-04-01',
+        '2025-04-01'
+      );
+
+      expect(weather.daily[0]).toMatchObject({
+        date: '2025-04-01',
+        provider: 'climate-normals',
+        ageMinutes: 28 * 24 * 60,
+        stale: false,
+      });
+      // Only fetched days count towards freshness
+      expect(weather.freshness).toEqual({ ageMinutes: null, staleDays: 0, refreshing: false });
+      expect(bulk.calls).toHaveLength(0);
+    });
+  });
+
+  describe('fetch failures', () => {
+    beforeEach(() => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    it('serves fetched days even when caching them fails', async () => {
+      fakePrisma.$transaction.mockRejectedValue(new Error('connection lost'));
+
+      const [weather] = await service.getGridPointsWeather(
+        [MOAB_GRID_POINT],
+        '2025-03-01',
+        '2025-03-02'
+      );
+
+      expect(weather.daily.map(day => day.date)).toEqual(['2025-03-01', '2025-03-02']);
+    });
+
+    it('settles each caller joined to a failed batch without rejecting', async () => {
+      vi.spyOn(bulk, 'getWeatherBatch').mockRejectedValue(new Error('upstream down'));
+
+      const [both, joined] = await Promise.all([
+        service.getGridPointsWeather([MOAB_GRID_POINT, GRAND_JUNCTION], '2025-03-01', '2025-03-02'),
+        service.getGridPointsWeather([GRAND_JUNCTION], '2025-03-01', '2025-03-02'),
+      ]);
+
+      expect(bulk.getWeatherBatch).toHaveBeenCalledTimes(1);
+      expect(both.map(point => point.daily)).toEqual([[], []]);
+      expect(joined.map(point => point.daily)).toEqual([[]]);
+    });
+
+    it('only counts grid points whose refresh succeeded', async () => {
+      vi.spyOn(bulk, 'getWeatherBatch').mockRejectedValue(new Error('upstream down'));
+
+      expect(await service.refreshForecasts([MOAB_GRID_POINT], 6)).toBe(0);
+    });
+  });
+});
@@ -1,23 +1,150 @@
-import { PrismaClient, WeatherDataType, Prisma } from '@prisma/client';
-import type { DailyWeather, GridPointWeather, WeatherProvider } from '../types/weather.js';
+import { PrismaClient, WeatherDataType, Prisma, type ClimateNormal } from '@prisma/client';
+import type {
+  AirQualityProvider,
+  AqiCategory,
+  ClimatologyProvider,
+  DailyAirQuality,
+  DailyClimatology,
+  DailyWeather,
+  GridPointSummary,
+  GridPointWeather,
+  HourlyWeather,
+  HourlyWeatherProvider,
+  WeatherProvider,
+} from '../types/weather.js';
+import {
+  bulkWeatherProviderChain,
+  weatherProviderChain,
+} from '../providers/composite.provider.js';
+import { airQualityProvider } from '../providers/airquality.provider.js';
 import { openMeteoProvider } from '../providers/openmeteo.provider.js';
+import { dayOfYear } from '../providers/climatology.js';
+import { deriveHourlyMetrics } from '../providers/hourly-metrics.js';
+import {
+  forecastAccuracyService,
+  type ForecastConfidenceLookup,
+} from './forecast-accuracy.service.js';
 
 const prisma = new PrismaClient();
 
 /**
  * Cache expiration times
  */
-const FORECAST_CACHE_HOURS = 6;
-const HISTORICAL_CACHE_DAYS = 7;
+export const FORECAST_CACHE_HOURS = 6;
+export const HISTORICAL_CACHE_DAYS = 7;
+
+/**
+ * How long past expiry a cached day is still served (while it's refreshed in the
+ * background) before a lookup waits for fresh data instead. 0 disables.
+ */
+const DEFAULT_MAX_STALE_HOURS = 24;
+export const MAX_STALE_HOURS = parseMaxStaleHours(process.env.WEATHER_CACHE_MAX_STALE_HOURS);
+
+/**
+ * Furthest ahead any provider forecasts (Open-Meteo's 16 days)
+ */
+const FORECAST_HORIZON_DAYS = 16;
+
+/**
+ * Confidence in a day's values by source. Forecasts are near-certain for today
+ * and tomorrow, falling linearly to FORECAST_MIN_CONFIDENCE at the horizon,
+ * until enough of them are verified to use their measured accuracy instead;
+ * multi-year averages only say what's typical for the date.
+ */
+const OBSERVED_CONFIDENCE = 1;
+const FORECAST_MIN_CONFIDENCE = 0.4;
+const CLIMATOLOGY_CONFIDENCE = 0.25;
+
+/**
+ * Provider label for days read from the climate normals table
+ */
+const CLIMATE_NORMALS_PROVIDER = 'climate-normals';
+
+/**
+ * Grid point coordinates for a weather lookup. The region, when known, selects
+ * that region's measured forecast accuracy.
+ */
+export type GridPointLocation = Pick<GridPointSummary, 'id' | 'latitude' | 'longitude'> &
+  Partial<Pick<GridPointSummary, 'region'>>;
+
+/**
+ * A day in the per-point cache map, with where and when it came from
+ */
+interface CachedDay {
+  data: DailyWeather;
+  dataType: WeatherDataType;
+  fetchedAt: Date;
+  stale?: boolean; // Expired but served while a background refresh runs
+  fromNormals?: boolean; // Read from the climate normals table, with fetchedAt when they were built
+}
+
+/**
+ * A provider fetch in progress for one grid point
+ */
+interface InFlightFetch {
+  startDate: string;
+  endDate: string;
+  days: Promise<DailyWeather[]>;
+}
+
+/**
+ * Options for a grid point weather lookup
+ */
+export interface GridPointWeatherOptions {
+  /**
+   * Attach daily AQI from the air quality provider (default true).
+   * Searches that don't filter on AQI skip it to save API calls.
+   */
+  includeAirQuality?: boolean;
+
+  /**
+   * Attach metrics derived from hourly weather (default false).
+   * Hourly data is only fetched for searches that filter on those metrics.
+   */
+  includeHourly?: boolean;
+
+  /**
+   * Climatology mode: attach percentiles from this many archive years to days
+   * beyond the forecast window, and use their precipitation chance.
+   */
+  climatologyYears?: number;
+}
+
+/**
+ * Read the max staleness setting, falling back to a day when unset or invalid
+ */
+function parseMaxStaleHours(value: string | undefined): number {
+  const hours = Number(value);
+  return value !== undefined && value !== '' && Number.isFinite(hours) && hours >= 0
+    ? hours
+    : DEFAULT_MAX_STALE_HOURS;
+}
 
 /**
  * Weather service - handles fetching, caching, and providing weather data
  */
 export class WeatherService {
-  private provider: WeatherProvider;
+  private provider: WeatherProvider; // Single grid point lookups
+  private bulkProvider: WeatherProvider; // Lookups for many grid points at once
+  private airQualityProvider: AirQualityProvider;
+  private hourlyProvider: HourlyWeatherProvider;
+  private climatologyProvider: ClimatologyProvider;
 
-  constructor(provider: WeatherProvider = openMeteoProvider) {
+  // Provider fetches in progress, keyed by provider and grid point
+  private inFlight = new Map<string, InFlightFetch[]>();
+
+  constructor(
+    provider: WeatherProvider = weatherProviderChain,
+    airQuality: AirQualityProvider = airQualityProvider,
+    hourly: HourlyWeatherProvider = openMeteoProvider,
+    climatology: ClimatologyProvider = openMeteoProvider,
+    bulk: WeatherProvider = bulkWeatherProviderChain
+  ) {
     this.provider = provider;
+    this.bulkProvider = bulk;
+    this.airQualityProvider = airQuality;
+    this.hourlyProvider = hourly;
+    this.climatologyProvider = climatology;
   }
 
   /**
@@ -25,12 +152,46 @@ export class WeatherService {
    * Uses cache when available, fetches from provider when needed
    */
   async getGridPointWeather(
-    gridPointId: string,
-    latitude: number,
-    longitude: number,
+    gridPoint: GridPointLocation,
     startDate: string,
-    endDate: string
+    endDate: string,
+    options: GridPointWeatherOptions = {}
   ): Promise<GridPointWeather> {
+    const [weather] = await this.loadGridPointsWeather(
+      [gridPoint],
+      startDate,
+      endDate,
+      options,
+      this.provider
+    );
+    return weather;
+  }
+
+  /**
+   * Get weather data for many grid points over the same date range.
+   * Cache lookups are one query for all points, and cache misses are fetched with
+   * the bulk provider's batch method so points missing the same dates share requests.
+   * Results are in the same order as `gridPoints`.
+   */
+  async getGridPointsWeather(
+    gridPoints: GridPointLocation[],
+    startDate: string,
+    endDate: string,
+    options: GridPointWeatherOptions = {}
+  ): Promise<GridPointWeather[]> {
+    return this.loadGridPointsWeather(gridPoints, startDate, endDate, options, this.bulkProvider);
+  }
+
+  /**
+   * Serve grid points from the cache, fetching missing and expired dates from `provider`
+   */
+  private async loadGridPointsWeather(
+    gridPoints: GridPointLocation[],
+    startDate: string,
+    endDate: string,
+    options: GridPointWeatherOptions,
+    provider: WeatherProvider
+  ): Promise<GridPointWeather[]> {
     const start = new Date(startDate);
     const end = new Date(endDate);
     const today = new Date();
@@ -44,10 +205,10 @@ export class WeatherService {
       current.setDate(current.getDate() + 1);
     }
 
-    // Check cache for each date
+    // Check cache for each point and date
     const cachedData = await prisma.weatherCache.findMany({
       where: {
-        gridPointId,
+        gridPointId: { in: gridPoints.map(point => point.id) },
         date: {
           gte: start,
           lte: end,
@@ -55,65 +216,358 @@ export class WeatherService {
       },
     });
 
-    // Build map of cached data by date
-    const cacheMap = new Map<string, { data: DailyWeather; dataType: WeatherDataType; fetchedAt: Date }>();
+    // Build map of cached data by point and date (a date can have both a forecast
+    // and a historical row - keep the most recently fetched)
+    const cacheMaps = new Map(gridPoints.map(point => [point.id, new Map<string, CachedDay>()]));
     for (const cached of cachedData) {
+      const cacheMap = cacheMaps.get(cached.gridPointId)!;
       const dateKey = cached.date.toISOString().split('T')[0];
+      const existing = cacheMap.get(dateKey);
+      if (existing && existing.fetchedAt > cached.fetchedAt) continue;
+
+      // Rows cached before days carried their own label get the row's type, and
+      // rows cached before apparent temperature/dew point were fetched get nulls
+      const data = cached.data as unknown as DailyWeather;
       cacheMap.set(dateKey, {
-        data: cached.data as unknown as DailyWeather,
+        data: {
+          ...data,
+          apparentTempHigh: data.apparentTempHigh ?? null,
+          apparentTempLow: data.apparentTempLow ?? null,
+          dewPoint: data.dewPoint ?? null,
+          hourlyMetrics: null,
+          climatology: null,
+          dataType: cached.dataType,
+        },
         dataType: cached.dataType,
         fetchedAt: cached.fetchedAt,
       });
     }
 
-    // Determine which dates need fetching (not cached or cache expired)
-    const datesToFetch: Date[] = [];
-    for (const date of dates) {
-      const dateKey = date.toISOString().split('T')[0];
-      const cached = cacheMap.get(dateKey);
+    // Dates beyond every provider's forecast come straight from the precomputed
+    // climate normals, for grid points they've been built for
+    const normals = await this.loadClimateNormals(gridPoints.map(point => point.id), dates, today);
+    for (const [gridPointId, days] of normals) {
+      for (const { day, builtAt } of days) {
+        cacheMaps.get(gridPointId)!.set(day.date, {
+          data: day,
+          dataType: WeatherDataType.historical,
+          fetchedAt: builtAt,
+          fromNormals: true,
+        });
+      }
+    }
+
+    // Work out which dates each point needs fetching: not cached, or expired past
+    // the staleness limit. Expired days within the limit are served as they are.
+    const toFetch: Array<{ point: GridPointLocation; dates: string[] }> = [];
+    const stale: Array<{ point: GridPointLocation; dates: string[] }> = [];
+    for (const point of gridPoints) {
+      const cacheMap = cacheMaps.get(point.id)!;
+      const datesToFetch: string[] = [];
+      const staleDates: string[] = [];
+      for (const date of dates) {
+        const dateKey = this.formatDate(date);
+        const cached = cacheMap.get(dateKey);
+        // Normals are rebuilt offline (scripts/build-climate-normals.ts), never refetched
+        if (cached?.fromNormals) continue;
+
+        if (!cached || this.isCacheTooStale(cached.fetchedAt, cached.dataType, date, today)) {
+          datesToFetch.push(dateKey);
+        } else if (this.isCacheExpired(cached.fetchedAt, cached.dataType, date, today)) {
+          cached.stale = true;
+          staleDates.push(dateKey);
+        }
+      }
 
-      if (!cached || this.isCacheExpired(cached.fetchedAt, cached.dataType, date, today)) {
-        datesToFetch.push(date);
+      if (datesToFetch.length > 0) {
+        toFetch.push({ point, dates: datesToFetch });
+      }
+      if (staleDates.length > 0) {
+        stale.push({ point, dates: staleDates });
       }
     }
 
-    // Fetch missing data from provider
-    if (datesToFetch.length > 0) {
-      const fetchStart = datesToFetch[0];
-      const fetchEnd = datesToFetch[datesToFetch.length - 1];
+    const fetches = this.fetchDates(toFetch, provider);
 
-      const fetched = await this.provider.getWeather(
-        latitude,
-        longitude,
-        this.formatDate(fetchStart),
-        this.formatDate(fetchEnd)
+    // Stale days are refreshed in the background, unless a fetch now in flight
+    // (ours or another lookup's) covers them anyway
+    const toRefresh = stale.flatMap(({ point, dates }) => {
+      const flights = this.inFlight.get(this.flightKey(provider, point.id)) ?? [];
+      const uncovered = dates.filter(
+        date => !flights.some(flight => date >= flight.startDate && date <= flight.endDate)
       );
+      return uncovered.length > 0 ? [{ point, dates: uncovered }] : [];
+    });
+    this.refreshInBackground(toRefresh, provider);
 
-      // Cache the fetched data
-      await this.cacheWeatherData(gridPointId, fetched, today);
+    // Add fetched days (ours and joined) to cache maps. Each point settles on its
+    // own, so a failed fetch only leaves that point's dates missing.
+    // A batch failure rejects every point's flight, so log once per lookup
+    const failures: unknown[] = [];
+    await Promise.all(
+      Array.from(fetches, async ([gridPointId, flights]) => {
+        const cacheMap = cacheMaps.get(gridPointId)!;
+        for (const flight of await Promise.allSettled(flights)) {
+          if (flight.status === 'rejected') {
+            failures.push(flight.reason);
+            continue;
+          }
 
-      // Add to cache map
-      for (const day of fetched) {
-        const dataType = new Date(day.date) < today ? WeatherDataType.historical : WeatherDataType.forecast;
-        cacheMap.set(day.date, {
-          data: day,
-          dataType,
-          fetchedAt: new Date(),
-        });
+          for (const day of flight.value) {
+            cacheMap.set(day.date, {
+              data: day,
+              dataType: day.dataType,
+              fetchedAt: new Date(),
+            });
+          }
+        }
+      })
+    );
+    if (failures.length > 0) {
+      console.error(
+        `Error fetching weather for ${failures.length} of ${fetches.size} grid points:`,
+        failures[0]
+      );
+    }
+
+    // Accuracy tracking never fails the lookup - forecasts fall back to modelled confidence
+    const measuredConfidence = await forecastAccuracyService
+      .getConfidenceLookup()
+      .catch(error => {
+        console.error('Error loading forecast accuracy:', error);
+        return null;
+      });
+
+    return Promise.all(
+      gridPoints.map(point =>
+        this.assembleGridPointWeather(
+          point,
+          dates,
+          cacheMaps.get(point.id)!,
+          options,
+          today,
+          measuredConfidence
+        )
+      )
+    );
+  }
+
+  /**
+   * Fetch dates for grid points from a provider. Dates another caller is already
+   * fetching for a point are joined rather than refetched; the rest are split into
+   * runs between those, grouped by span so each span is one batch call. Returns
+   * each point's pending fetches.
+   */
+  private fetchDates(
+    requests: Array<{ point: GridPointLocation; dates: string[] }>,
+    provider: WeatherProvider
+  ): Map<string, Array<Promise<DailyWeather[]>>> {
+    const joined = new Map<string, Array<Promise<DailyWeather[]>>>();
+    const spans = new Map<string, GridPointLocation[]>();
+    for (const { point, dates } of requests) {
+      const pointFlights = this.inFlight.get(this.flightKey(provider, point.id)) ?? [];
+      const inFlightBetween = (from: string, to: string) =>
+        pointFlights.some(flight => flight.startDate <= to && flight.endDate >= from);
+
+      const flights = pointFlights.filter(flight =>
+        dates.some(date => date >= flight.startDate && date <= flight.endDate)
+      );
+      joined.set(point.id, flights.map(flight => flight.days));
+
+      // A run spans dates that weren't asked for, but never ones already in flight
+      const runs: string[][] = [];
+      for (const date of dates) {
+        if (inFlightBetween(date, date)) continue;
+        const run = runs[runs.length - 1];
+        if (run && !inFlightBetween(run[run.length - 1], date)) {
+          run.push(date);
+        } else {
+          runs.push([date]);
+        }
+      }
+      for (const run of runs) {
+        const span = `${run[0]}/${run[run.length - 1]}`;
+        spans.set(span, [...(spans.get(span) ?? []), point]);
       }
     }
 
-    // Build result from cache map
+    // Register each point's share of a batch before anything is awaited, so
+    // concurrent callers can join it
+    for (const [span, points] of spans) {
+      const [fetchStart, fetchEnd] = span.split('/');
+      const batch = provider
+        .getWeatherBatch(points, fetchStart, fetchEnd)
+        .then(async fetched => {
+          // Only the caller that started a fetch caches it. Failing to cache
+          // doesn't fail the lookups waiting on the fetched days.
+          const entries = points.map((point, i) => ({ gridPointId: point.id, daily: fetched[i] }));
+          await this.cacheWeatherData(entries).catch(error => {
+            console.error(`Error caching weather for ${points.length} grid points:`, error);
+          });
+          await forecastAccuracyService.recordSnapshots(entries).catch(error => {
+            console.error(
+              `Error recording forecast snapshots for ${points.length} grid points:`,
+              error
+            );
+          });
+          return fetched;
+        });
+
+      points.forEach((point, i) => {
+        const days = this.trackInFlight(
+          this.flightKey(provider, point.id),
+          fetchStart,
+          fetchEnd,
+          batch.then(fetched => fetched[i])
+        );
+        joined.set(point.id, [...(joined.get(point.id) ?? []), days]);
+      });
+    }
+
+    return joined;
+  }
+
+  /**
+   * Refresh stale cached dates without waiting for them. The next lookup gets the
+   * fresh data, or joins the fetch if it's still running.
+   */
+  private refreshInBackground(
+    requests: Array<{ point: GridPointLocation; dates: string[] }>,
+    provider: WeatherProvider
+  ): void {
+    if (requests.length === 0) {
+      return;
+    }
+
+    const fetches = Array.from(this.fetchDates(requests, provider).values()).flat();
+    Promise.allSettled(fetches).then(results => {
+      const failed = results.filter(result => result.status === 'rejected');
+      if (failed.length > 0) {
+        console.error(
+          `Error refreshing stale weather for ${requests.length} grid points:`,
+          failed[0].reason
+        );
+      }
+    });
+  }
+
+  /**
+   * Refetch the forecast window for grid points whose cached forecast is older
+   * than `refreshAfterHours` or missing days, waiting for the fetches to finish.
+   * Used to keep the cache warm ahead of searches, so it goes through the bulk
+   * provider like searches do. Returns how many were refetched successfully.
+   */
+  async refreshForecasts(
+    gridPoints: GridPointLocation[],
+    refreshAfterHours: number
+  ): Promise<number> {
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+    const dates = Array.from({ length: FORECAST_HORIZON_DAYS }, (_, i) => {
+      const date = new Date(today);
+      date.setDate(date.getDate() + i);
+      return this.formatDate(date);
+    });
+
+    const cached = await prisma.weatherCache.groupBy({
+      by: ['gridPointId'],
+      where: {
+        gridPointId: { in: gridPoints.map(point => point.id) },
+        dataType: WeatherDataType.forecast,
+        date: { gte: new Date(dates[0]), lte: new Date(dates[dates.length - 1]) },
+      },
+      _min: { fetchedAt: true },
+      _count: { _all: true },
+    });
+
+    const cutoff = new Date(Date.now() - refreshAfterHours * 60 * 60 * 1000);
+    const warm = new Set(
+      cached
+        .filter(row => row._count._all >= dates.length && row._min.fetchedAt! >= cutoff)
+        .map(row => row.gridPointId)
+    );
+    const stale = gridPoints.filter(point => !warm.has(point.id));
+
+    const fetches = this.fetchDates(
+      stale.map(point => ({ point, dates })),
+      this.bulkProvider
+    );
+    const settled = await Promise.all(
+      Array.from(fetches.values(), flights => Promise.allSettled(flights))
+    );
+
+    const refreshed = settled.filter(flights =>
+      flights.every(flight => flight.status === 'fulfilled')
+    );
+    return refreshed.length;
+  }
+
+  private flightKey(provider: WeatherProvider, gridPointId: string): string {
+    return `${provider.name}:${gridPointId}`;
+  }
+
+  /**
+   * Register a provider fetch for a grid point so concurrent lookups overlapping
+   * its dates can await it instead of fetching again. Removed once settled.
+   */
+  private trackInFlight(
+    key: string,
+    startDate: string,
+    endDate: string,
+    days: Promise<DailyWeather[]>
+  ): Promise<DailyWeather[]> {
+    const flight: InFlightFetch = { startDate, endDate, days };
+    this.inFlight.set(key, [...(this.inFlight.get(key) ?? []), flight]);
+
+    const remove = () => {
+      const remaining = (this.inFlight.get(key) ?? []).filter(other => other !== flight);
+      if (remaining.length > 0) {
+        this.inFlight.set(key, remaining);
+      } else {
+        this.inFlight.delete(key);
+      }
+    };
+    days.then(remove, remove);
+
+    return days;
+  }
+
+  /**
+   * Build a point's result from its cache map, then attach the optional extras
+   */
+  private async assembleGridPointWeather(
+    gridPoint: GridPointLocation,
+    dates: Date[],
+    cacheMap: Map<string, CachedDay>,
+    options: GridPointWeatherOptions,
+    today: Date,
+    measuredConfidence: ForecastConfidenceLookup | null
+  ): Promise<GridPointWeather> {
+    const { id: gridPointId, latitude, longitude, region } = gridPoint;
+
+    // Build result from cache map, labelling each day with its age and provenance
     const daily: DailyWeather[] = [];
     let hasForecast = false;
     let hasHistorical = false;
+    let oldestFetchedAt: Date | null = null; // Normals are rebuilt offline, so they don't count
+    let staleDays = 0;
+    const minutesSince = (time: Date) => Math.floor((Date.now() - time.getTime()) / 60000);
 
     for (const date of dates) {
       const dateKey = date.toISOString().split('T')[0];
       const cached = cacheMap.get(dateKey);
 
       if (cached) {
-        daily.push(cached.data);
+        daily.push({
+          ...cached.data,
+          ageMinutes: minutesSince(cached.fetchedAt),
+          stale: cached.stale ?? false,
+          ...this.dayProvenance(cached.dataType, date, today, region, measuredConfidence),
+        });
+        if (!cached.fromNormals && (!oldestFetchedAt || cached.fetchedAt < oldestFetchedAt)) {
+          oldestFetchedAt = cached.fetchedAt;
+        }
+        if (cached.stale) staleDays++;
         if (cached.dataType === WeatherDataType.forecast) hasForecast = true;
         if (cached.dataType === WeatherDataType.historical) hasHistorical = true;
       }
@@ -127,13 +581,182 @@ export class WeatherService {
       dataSource = 'historical';
     }
 
+    const includeAirQuality = options.includeAirQuality ?? true;
+    const withAirQuality = includeAirQuality
+      ? await this.attachAirQuality(gridPointId, latitude, longitude, daily, today)
+      : daily;
+    const withHourly = options.includeHourly
+      ? await this.attachHourlyMetrics(gridPointId, latitude, longitude, withAirQuality, today)
+      : withAirQuality;
+
     return {
       gridPointId,
       latitude,
       longitude,
-      daily,
+      daily:
+        options.climatologyYears !== undefined
+          ? await this.attachClimatology(
+              gridPointId,
+              latitude,
+              longitude,
+              withHourly,
+              options.climatologyYears,
+              today
+            )
+          : withHourly,
       dataSource,
       fetchedAt: new Date(),
+      freshness: {
+        ageMinutes: oldestFetchedAt && minutesSince(oldestFetchedAt),
+        staleDays,
+        refreshing: staleDays > 0,
+      },
+    };
+  }
+
+  /**
+   * Where a day's data comes from, how far ahead it is and how far it can be relied on
+   */
+  private dayProvenance(
+    dataType: WeatherDataType,
+    date: Date,
+    today: Date,
+    region: string | undefined,
+    measuredConfidence: ForecastConfidenceLookup | null
+  ): Pick<DailyWeather, 'source' | 'leadDays' | 'confidence'> {
+    const leadDays = Math.round((date.getTime() - today.getTime()) / (24 * 60 * 60 * 1000));
+
+    if (dataType === WeatherDataType.forecast) {
+      return {
+        source: 'forecast',
+        leadDays,
+        confidence:
+          measuredConfidence?.(region, Math.max(0, leadDays)) ?? this.forecastConfidence(leadDays),
+      };
+    }
+
+    return leadDays < 0
+      ? { source: 'observed', leadDays, confidence: OBSERVED_CONFIDENCE }
+      : { source: 'climatology', leadDays, confidence: CLIMATOLOGY_CONFIDENCE };
+  }
+
+  /**
+   * Modelled confidence in a forecast made leadDays ahead of its date
+   */
+  private forecastConfidence(leadDays: number): number {
+    const decay = Math.min(1, Math.max(0, (leadDays - 1) / (FORECAST_HORIZON_DAYS - 2)));
+    return Math.round((1 - (1 - FORECAST_MIN_CONFIDENCE) * decay) * 100) / 100;
+  }
+
+  /**
+   * Explain where a location's weather comes from, for display alongside the data
+   */
+  describeDataSource(daily: DailyWeather[]): string {
+    const today = this.formatDate(new Date());
+    const forecast = daily.filter(day => day.dataType === 'forecast');
+    const recorded = daily.filter(day => day.dataType === 'historical' && day.date < today);
+    const averaged = daily.filter(day => day.dataType === 'historical' && day.date >= today);
+    const plural = (count: number) => (count === 1 ? '1 day' : `${count} days`);
+
+    const parts: string[] = [];
+
+    if (forecast.length > 0) {
+      const providers = Array.from(new Set(forecast.map(day => day.provider))).join(', ');
+      parts.push(`${plural(forecast.length)} use forecast data (${providers}), refreshed every ${FORECAST_CACHE_HOURS} hours.`);
+    }
+
+    if (averaged.length > 0) {
+      const years = averaged.find(day => day.climatology)?.climatology?.years;
+      parts.push(
+        `${plural(averaged.length)} ${averaged.length === 1 ? 'is' : 'are'} beyond the forecast range, so ${averaged.length === 1 ? 'it shows' : 'they show'} historical averages for the same dates in previous years` +
+          (years ? `, scored against ${years} years of climatology.` : '.')
+      );
+    }
+
+    if (recorded.length > 0) {
+      parts.push(`${plural(recorded.length)} in the past ${recorded.length === 1 ? 'shows' : 'show'} recorded weather.`);
+    }
+
+    const stale = daily.filter(day => day.stale);
+    if (stale.length > 0) {
+      parts.push(
+        `${plural(stale.length)} ${stale.length === 1 ? 'is' : 'are'} due for a refresh and will update on the next lookup.`
+      );
+    }
+
+    return parts.length > 0 ? parts.join(' ') : 'No weather data is available for these dates.';
+  }
+
+  /**
+   * Climate normals for the dates beyond the forecast window, as weather days
+   * per grid point with when each normal was built. Dates without a normal are
+   * left out, so they fall back to the provider.
+   */
+  private async loadClimateNormals(
+    gridPointIds: string[],
+    dates: Date[],
+    today: Date
+  ): Promise<Map<string, Array<{ day: DailyWeather; builtAt: Date }>>> {
+    const forecastEnd = new Date(today);
+    forecastEnd.setDate(forecastEnd.getDate() + FORECAST_HORIZON_DAYS);
+    const longRange = dates.filter(date => date >= forecastEnd).map(date => this.formatDate(date));
+    const byGridPoint = new Map<string, Array<{ day: DailyWeather; builtAt: Date }>>();
+    if (longRange.length === 0) {
+      return byGridPoint;
+    }
+
+    const normals = await prisma.climateNormal.findMany({
+      where: {
+        gridPointId: { in: gridPointIds },
+        dayOfYear: { in: Array.from(new Set(longRange.map(date => dayOfYear(date)))) },
+      },
+    });
+
+    const normalsByKey = new Map(
+      normals.map(normal => [`${normal.gridPointId}:${normal.dayOfYear}`, normal])
+    );
+    for (const gridPointId of gridPointIds) {
+      byGridPoint.set(
+        gridPointId,
+        longRange.flatMap(date => {
+          const normal = normalsByKey.get(`${gridPointId}:${dayOfYear(date)}`);
+          return normal
+            ? [{ day: this.normalToDailyWeather(date, normal), builtAt: normal.builtAt }]
+            : [];
+        })
+      );
+    }
+
+    return byGridPoint;
+  }
+
+  /**
+   * A climate normal row as the weather day for a date
+   */
+  private normalToDailyWeather(date: string, normal: ClimateNormal): DailyWeather {
+    return {
+      date,
+      tempHigh: normal.tempHigh,
+      tempLow: normal.tempLow,
+      apparentTempHigh: normal.apparentTempHigh,
+      apparentTempLow: normal.apparentTempLow,
+      dewPoint: normal.dewPoint,
+      humidity: normal.humidity,
+      windSpeed: normal.windSpeed,
+      windGust: null,
+      precipChance: normal.precipChance,
+      precipType: normal.precipType as DailyWeather['precipType'],
+      precipAmount: normal.precipAmount,
+      uvIndex: null,
+      cloudCover: null,
+      sunrise: null,
+      sunset: null,
+      aqi: null,
+      aqiCategory: null,
+      hourlyMetrics: null,
+      climatology: null,
+      provider: CLIMATE_NORMALS_PROVIDER,
+      dataType: 'historical',
     };
   }
 
@@ -143,57 +766,415 @@ export class WeatherService {
   private isCacheExpired(
     fetchedAt: Date,
     dataType: WeatherDataType,
-    _dataDate: Date,
-    _today: Date
+    dataDate: Date,
+    today: Date
   ): boolean {
-    const now = new Date();
-    const ageMs = now.getTime() - fetchedAt.getTime();
+    const ageMs = Date.now() - fetchedAt.getTime();
+    return ageMs > this.cacheLifetimeMs(dataType, dataDate, today);
+  }
 
-    if (dataType === WeatherDataType.forecast) {
+  /**
+   * Check if cached data has expired for longer than it may be served stale
+   */
+  private isCacheTooStale(
+    fetchedAt: Date,
+    dataType: WeatherDataType,
+    dataDate: Date,
+    today: Date
+  ): boolean {
+    const ageMs = Date.now() - fetchedAt.getTime();
+    const maxStaleMs = MAX_STALE_HOURS * 60 * 60 * 1000;
+    return ageMs > this.cacheLifetimeMs(dataType, dataDate, today) + maxStaleMs;
+  }
+
+  /**
+   * How long cached data stays fresh
+   */
+  private cacheLifetimeMs(dataType: WeatherDataType, dataDate: Date, today: Date): number {
+    // Historical averages for dates now inside the forecast range refresh on the
+    // forecast schedule, so they're replaced by a real forecast
+    const forecastEnd = new Date(today);
+    forecastEnd.setDate(forecastEnd.getDate() + FORECAST_HORIZON_DAYS);
+    const inForecastRange = dataDate >= today && dataDate < forecastEnd;
+
+    if (dataType === WeatherDataType.forecast || inForecastRange) {
       // Forecast data expires after 6 hours
-      return ageMs > FORECAST_CACHE_HOURS * 60 * 60 * 1000;
+      return FORECAST_CACHE_HOURS * 60 * 60 * 1000;
     } else {
       // Historical data expires after 7 days
-      return ageMs > HISTORICAL_CACHE_DAYS * 24 * 60 * 60 * 1000;
+      return HISTORICAL_CACHE_DAYS * 24 * 60 * 60 * 1000;
     }
   }
 
   /**
-   * Cache weather data to database
+   * Merge daily AQI into weather days, using the air quality cache when fresh.
+   * Air quality failures never fail the weather lookup - affected days keep a null AQI.
    */
-  private async cacheWeatherData(
+  private async attachAirQuality(
+    gridPointId: string,
+    latitude: number,
+    longitude: number,
+    daily: DailyWeather[],
+    today: Date
+  ): Promise<DailyWeather[]> {
+    if (daily.length === 0) {
+      return daily;
+    }
+
+    const cachedData = await prisma.airQualityCache.findMany({
+      where: {
+        gridPointId,
+        date: {
+          gte: new Date(daily[0].date),
+          lte: new Date(daily[daily.length - 1].date),
+        },
+      },
+    });
+
+    const aqiMap = new Map<string, DailyAirQuality>();
+    for (const cached of cachedData) {
+      const expired = this.isCacheExpired(
+        cached.fetchedAt,
+        cached.date < today ? WeatherDataType.historical : WeatherDataType.forecast,
+        cached.date,
+        today
+      );
+
+      if (!expired) {
+        const dateKey = this.formatDate(cached.date);
+        aqiMap.set(dateKey, {
+          date: dateKey,
+          aqi: cached.aqi,
+          aqiCategory: cached.aqiCategory as AqiCategory,
+        });
+      }
+    }
+
+    const missing = daily.filter(day => !aqiMap.has(day.date));
+    if (missing.length > 0) {
+      try {
+        const fetched = await this.airQualityProvider.getAirQuality(
+          latitude,
+          longitude,
+          missing[0].date,
+          missing[missing.length - 1].date
+        );
+
+        await this.cacheAirQuality(gridPointId, fetched);
+
+        for (const day of fetched) {
+          aqiMap.set(day.date, day);
+        }
+      } catch (error) {
+        console.error(`Error fetching air quality for grid point ${gridPointId}:`, error);
+      }
+    }
+
+    return daily.map(day => {
+      const airQuality = aqiMap.get(day.date);
+      return {
+        ...day,
+        aqi: airQuality?.aqi ?? null,
+        aqiCategory: airQuality?.aqiCategory ?? null,
+      };
+    });
+  }
+
+  /**
+   * Derive hourly metrics for each day, using the hourly cache when fresh.
+   * Like air quality, failures leave the affected days with null metrics.
+   */
+  private async attachHourlyMetrics(
+    gridPointId: string,
+    latitude: number,
+    longitude: number,
+    daily: DailyWeather[],
+    today: Date
+  ): Promise<DailyWeather[]> {
+    if (daily.length === 0) {
+      return daily;
+    }
+
+    const cachedData = await prisma.hourlyWeatherCache.findMany({
+      where: {
+        gridPointId,
+        date: {
+          gte: new Date(daily[0].date),
+          lte: new Date(daily[daily.length - 1].date),
+        },
+      },
+    });
+
+    const hoursByDate = new Map<string, HourlyWeather[]>();
+    for (const cached of cachedData) {
+      const expired = this.isCacheExpired(
+        cached.fetchedAt,
+        cached.date < today ? WeatherDataType.historical : WeatherDataType.forecast,
+        cached.date,
+        today
+      );
+
+      if (!expired) {
+        hoursByDate.set(this.formatDate(cached.date), cached.data as unknown as HourlyWeather[]);
+      }
+    }
+
+    const missing = daily.filter(day => !hoursByDate.has(day.date));
+    if (missing.length > 0) {
+      try {
+        const fetched = await this.hourlyProvider.getHourlyWeather(
+          latitude,
+          longitude,
+          missing[0].date,
+          missing[missing.length - 1].date
+        );
+
+        const fetchedByDate = new Map<string, HourlyWeather[]>();
+        for (const hour of fetched) {
+          const date = hour.time.split('T')[0];
+          fetchedByDate.set(date, [...(fetchedByDate.get(date) ?? []), hour]);
+        }
+
+        await this.cacheHourlyWeather(gridPointId, fetchedByDate);
+
+        for (const [date, hours] of fetchedByDate) {
+          hoursByDate.set(date, hours);
+        }
+      } catch (error) {
+        console.error(`Error fetching hourly weather for grid point ${gridPointId}:`, error);
+      }
+    }
+
+    return daily.map(day => {
+      const hours = hoursByDate.get(day.date);
+      return {
+        ...day,
+        hourlyMetrics: hours ? deriveHourlyMetrics(hours) : null,
+      };
+    });
+  }
+
+  /**
+   * Attach day-of-year climatology to days beyond the forecast window, using the
+   * climatology cache when fresh. A cache miss fetches and caches the whole year.
+   * Failures leave the days with their plain historical averages.
+   */
+  private async attachClimatology(
     gridPointId: string,
+    latitude: number,
+    longitude: number,
     daily: DailyWeather[],
+    years: number,
     today: Date
+  ): Promise<DailyWeather[]> {
+    const todayKey = this.formatDate(today);
+    const longRange = daily.filter(day => day.dataType === 'historical' && day.date >= todayKey);
+    if (longRange.length === 0) {
+      return daily;
+    }
+
+    const cachedData = await prisma.climatologyCache.findMany({
+      where: {
+        gridPointId,
+        years,
+        dayOfYear: { in: Array.from(new Set(longRange.map(day => dayOfYear(day.date)))) },
+      },
+    });
+
+    // The span ends with the last full year, so rows go stale at the new year
+    const climatologyByDay = new Map<number, DailyClimatology>();
+    for (const cached of cachedData) {
+      if (cached.fetchedAt.getFullYear() === today.getFullYear()) {
+        climatologyByDay.set(cached.dayOfYear, cached.data as unknown as DailyClimatology);
+      }
+    }
+
+    if (longRange.some(day => !climatologyByDay.has(dayOfYear(day.date)))) {
+      try {
+        const fetched = await this.climatologyProvider.getClimatology(latitude, longitude, years);
+
+        await this.cacheClimatology(gridPointId, years, fetched);
+
+        for (const day of fetched) {
+          climatologyByDay.set(day.dayOfYear, day);
+        }
+      } catch (error) {
+        console.error(`Error fetching climatology for grid point ${gridPointId}:`, error);
+      }
+    }
+
+    return daily.map(day => {
+      const climatology =
+        day.dataType === 'historical' && day.date >= todayKey
+          ? climatologyByDay.get(dayOfYear(day.date))
+          : undefined;
+
+      // The multi-year wet-day share replaces the noisier few-year average
+      return climatology ? { ...day, climatology, precipChance: climatology.precipChance } : day;
+    });
+  }
+
+  /**
+   * Cache hourly weather to database, one row per date
+   */
+  private async cacheHourlyWeather(
+    gridPointId: string,
+    hoursByDate: Map<string, HourlyWeather[]>
   ): Promise<void> {
-    const operations = daily.map(day => {
-      const date = new Date(day.date);
-      const dataType = date < today ? WeatherDataType.historical : WeatherDataType.forecast;
+    const operations = Array.from(hoursByDate, ([dateKey, hours]) => {
+      const date = new Date(dateKey);
 
-      return prisma.weatherCache.upsert({
+      return prisma.hourlyWeatherCache.upsert({
         where: {
-          gridPointId_date_dataType: {
+          gridPointId_date: {
             gridPointId,
             date,
-            dataType,
           },
         },
         create: {
           gridPointId,
           date,
-          dataType,
+          data: hours as unknown as Prisma.InputJsonValue,
+        },
+        update: {
+          data: hours as unknown as Prisma.InputJsonValue,
+          fetchedAt: new Date(),
+        },
+      });
+    });
+
+    await prisma.$transaction(operations);
+  }
+
+  /**
+   * Cache climatology to database, one row per day of the year
+   */
+  private async cacheClimatology(
+    gridPointId: string,
+    years: number,
+    days: DailyClimatology[]
+  ): Promise<void> {
+    const operations = days.map(day =>
+      prisma.climatologyCache.upsert({
+        where: {
+          gridPointId_years_dayOfYear: {
+            gridPointId,
+            years,
+            dayOfYear: day.dayOfYear,
+          },
+        },
+        create: {
+          gridPointId,
+          years,
+          dayOfYear: day.dayOfYear,
           data: day as unknown as Prisma.InputJsonValue,
         },
         update: {
           data: day as unknown as Prisma.InputJsonValue,
           fetchedAt: new Date(),
         },
+      })
+    );
+
+    await prisma.$transaction(operations);
+  }
+
+  /**
+   * Cache air quality data to database
+   */
+  private async cacheAirQuality(gridPointId: string, days: DailyAirQuality[]): Promise<void> {
+    const operations = days.flatMap(day => {
+      const date = new Date(day.date);
+
+      // Copy the AQI onto cached weather rows too, for filtering in SQL
+      const weatherRows = prisma.weatherCache.updateMany({
+        where: { gridPointId, date },
+        data: { aqi: day.aqi },
+      });
+
+      const airQualityRow = prisma.airQualityCache.upsert({
+        where: {
+          gridPointId_date: {
+            gridPointId,
+            date,
+          },
+        },
+        create: {
+          gridPointId,
+          date,
+          aqi: day.aqi,
+          aqiCategory: day.aqiCategory,
+        },
+        update: {
+          aqi: day.aqi,
+          aqiCategory: day.aqiCategory,
+          fetchedAt: new Date(),
+        },
       });
+
+      return [airQualityRow, weatherRows];
     });
 
     await prisma.$transaction(operations);
   }
 
+  /**
+   * Cache weather data to database, for one or more grid points
+   */
+  private async cacheWeatherData(
+    entries: Array<{ gridPointId: string; daily: DailyWeather[] }>
+  ): Promise<void> {
+    const operations = entries.flatMap(({ gridPointId, daily }) =>
+      daily.map(day => {
+        const date = new Date(day.date);
+        const dataType = day.dataType;
+
+        return prisma.weatherCache.upsert({
+          where: {
+            gridPointId_date_dataType: {
+              gridPointId,
+              date,
+              dataType,
+            },
+          },
+          create: {
+            gridPointId,
+            date,
+            dataType,
+            data: day as unknown as Prisma.InputJsonValue,
+            ...this.weatherColumns(day),
+          },
+          update: {
+            data: day as unknown as Prisma.InputJsonValue,
+            ...this.weatherColumns(day),
+            fetchedAt: new Date(),
+          },
+        });
+      })
+    );
+
+    await prisma.$transaction(operations);
+  }
+
+  /**
+   * A day's main values as weather_cache columns, for filtering in SQL
+   */
+  private weatherColumns(day: DailyWeather) {
+    return {
+      tempHigh: day.tempHigh,
+      tempLow: day.tempLow,
+      humidity: day.humidity,
+      windSpeed: day.windSpeed,
+      windGust: day.windGust,
+      precipChance: day.precipChance,
+      precipType: day.precipType,
+      precipAmount: day.precipAmount,
+      // Cleared with every write, so a refreshed forecast never keeps an old
+      // AQI; cacheAirQuality copies the current one back in
+      aqi: null,
+    };
+  }
+
   private formatDate(date: Date): string {
     return date.toISOString().split('T')[0];
   }
@@ -1,4 +1,4 @@
-import type { PrecipitationType } from '../validators/weather.js';
+import type { PenaltyCurve, PrecipitationType, ScoringCategory } from '../validators/weather.js';
 
 /**
  * Daily weather data for a single location
@@ -7,6 +7,9 @@ export interface DailyWeather {
   date: string; // ISO date string (YYYY-MM-DD)
   tempHigh: number; // Fahrenheit
   tempLow: number; // Fahrenheit
+  apparentTempHigh: number | null; // "Feels like" high, Fahrenheit
+  apparentTempLow: number | null; // "Feels like" low, Fahrenheit
+  dewPoint: number | null; // Daily mean dew point, Fahrenheit
   humidity: number; // Percentage (0-100)
   windSpeed: number; // mph
   windGust: number | null; // mph
@@ -17,6 +20,104 @@ export interface DailyWeather {
   cloudCover: number | null; // Percentage (0-100)
   sunrise: string | null; // ISO time
   sunset: string | null; // ISO time
+  aqi: number | null; // US EPA AQI (0-500), null when no air quality data
+  aqiCategory: AqiCategory | null;
+  hourlyMetrics: HourlyMetrics | null; // Only attached when requested; null without a full day of hours
+  climatology: DailyClimatology | null; // Only attached in climatology mode, for days beyond the forecast
+  provider: string; // Name of the WeatherProvider that produced this day
+  dataType: 'forecast' | 'historical'; // historical = recorded weather or multi-year averages
+  ageMinutes?: number; // Minutes since fetched or its climate normal built; set by weather service
+  stale?: boolean; // Past its refresh time and being refreshed in the background
+  source?: DaySource; // Set when served by the weather service, like leadDays and confidence
+  leadDays?: number; // Days from today to this date, negative for past dates
+  confidence?: number; // 0-1, how far the day's values can be relied on
+}
+
+/**
+ * Where a day's weather comes from: a provider forecast, recorded weather for
+ * a past date, or multi-year averages for a date beyond the forecast range
+ */
+export type DaySource = 'forecast' | 'observed' | 'climatology';
+
+/**
+ * EPA AQI category
+ */
+export type AqiCategory =
+  | 'Good'
+  | 'Moderate'
+  | 'Unhealthy for Sensitive Groups'
+  | 'Unhealthy'
+  | 'Very Unhealthy'
+  | 'Hazardous';
+
+/**
+ * Daily air quality for a single location
+ */
+export interface DailyAirQuality {
+  date: string; // ISO date string (YYYY-MM-DD)
+  aqi: number; // US EPA AQI (0-500), daily maximum
+  aqiCategory: AqiCategory;
+}
+
+/**
+ * A single hour of weather (local time at the location)
+ */
+export interface HourlyWeather {
+  time: string; // Local ISO date-time (YYYY-MM-DDTHH:mm)
+  temp: number; // Fahrenheit
+  windSpeed: number; // mph
+  precipAmount: number; // inches
+  cloudCover: number | null; // Percentage (0-100)
+  isDay: boolean; // Between sunrise and sunset
+}
+
+/**
+ * Daily figures derived from hourly weather
+ */
+export interface HourlyMetrics {
+  coldNightHours: number; // Night-time hours below 40°F
+  windyDaylightHours: number; // Daylight hours with wind over 20 mph
+  dryDaytimeHours: number; // Hours from 8am to 6pm without precipitation (of 10)
+}
+
+/**
+ * 10th, 50th and 90th percentile of a daily value
+ */
+export interface Percentiles {
+  p10: number;
+  p50: number;
+  p90: number;
+}
+
+/**
+ * Multi-year climatology for one day of the year
+ */
+export interface DailyClimatology {
+  dayOfYear: number; // 1-365 (Feb 29 shares Feb 28)
+  years: number; // Archive years summarized
+  tempHigh: Percentiles; // Fahrenheit
+  tempLow: Percentiles; // Fahrenheit
+  windSpeed: Percentiles; // mph, daily maximum
+  precipAmount: Percentiles; // inches
+  precipChance: number; // Share of sampled days with measurable precipitation (0-100)
+}
+
+/**
+ * Precomputed multi-year normal (mean) weather for one day of the year
+ */
+export interface ClimateNormal {
+  dayOfYear: number; // 1-365 (Feb 29 shares Feb 28)
+  years: number; // Archive years averaged
+  tempHigh: number; // Fahrenheit
+  tempLow: number; // Fahrenheit
+  apparentTempHigh: number | null; // Fahrenheit
+  apparentTempLow: number | null; // Fahrenheit
+  dewPoint: number | null; // Fahrenheit
+  humidity: number; // Percentage (0-100)
+  windSpeed: number; // mph
+  precipChance: number; // Share of sampled days with measurable precipitation (0-100)
+  precipAmount: number; // inches
+  precipType: PrecipitationType; // Most common type
 }
 
 /**
@@ -29,6 +130,24 @@ export interface GridPointWeather {
   daily: DailyWeather[];
   dataSource: 'forecast' | 'historical' | 'mixed';
   fetchedAt: Date;
+  freshness: DataFreshness;
+}
+
+/**
+ * How up to date a location's weather is
+ */
+export interface DataFreshness {
+  ageMinutes: number | null; // Age of the oldest fetched day, null without any (not normals)
+  staleDays: number; // Days served past their refresh time
+  refreshing: boolean; // A background refresh is running for the stale days
+}
+
+/**
+ * Coordinates to fetch weather for
+ */
+export interface WeatherLocation {
+  latitude: number;
+  longitude: number;
 }
 
 /**
@@ -52,12 +171,97 @@ export interface WeatherProvider {
   ): Promise<DailyWeather[]>;
 
   /**
-   * Check if the provider supports the given date range
-   * (e.g., forecast providers only support ~16 days ahead)
+   * Get weather for many locations over the same date range, fetching several
+   * locations per upstream request where the API supports it.
+   * Results are in the same order as `locations`; a location whose data
+   * couldn't be fetched gets an empty array.
+   */
+  getWeatherBatch(
+    locations: WeatherLocation[],
+    startDate: string,
+    endDate: string
+  ): Promise<DailyWeather[][]>;
+
+  /**
+   * Check if the provider can supply at least part of the given date range
+   * (e.g., forecast providers only support ~7-16 days ahead). Providers may
+   * return fewer days than requested; callers fill the gaps elsewhere.
    */
   supportsDateRange(startDate: string, endDate: string): boolean;
 }
 
+/**
+ * Air quality provider interface - implementations fetch AQI from external APIs
+ */
+export interface AirQualityProvider {
+  name: string;
+
+  /**
+   * Get daily air quality for a specific location and date range.
+   * Dates without data (e.g. beyond the provider's forecast window) are omitted.
+   * @param lat Latitude
+   * @param lon Longitude
+   * @param startDate Start date (YYYY-MM-DD)
+   * @param endDate End date (YYYY-MM-DD)
+   */
+  getAirQuality(
+    lat: number,
+    lon: number,
+    startDate: string,
+    endDate: string
+  ): Promise<DailyAirQuality[]>;
+}
+
+/**
+ * Hourly weather provider interface
+ */
+export interface HourlyWeatherProvider {
+  name: string;
+
+  /**
+   * Get hourly weather for a specific location and date range.
+   * Dates without hourly data (e.g. beyond the forecast window) are omitted.
+   * @param lat Latitude
+   * @param lon Longitude
+   * @param startDate Start date (YYYY-MM-DD)
+   * @param endDate End date (YYYY-MM-DD)
+   */
+  getHourlyWeather(
+    lat: number,
+    lon: number,
+    startDate: string,
+    endDate: string
+  ): Promise<HourlyWeather[]>;
+}
+
+/**
+ * Climatology provider interface - summarizes many years of recorded weather
+ */
+export interface ClimatologyProvider {
+  name: string;
+
+  /**
+   * Get percentiles for every day of the year from the last `years` full years
+   * @param lat Latitude
+   * @param lon Longitude
+   * @param years Number of archive years to summarize
+   */
+  getClimatology(lat: number, lon: number, years: number): Promise<DailyClimatology[]>;
+}
+
+/**
+ * Grid point fields needed to search and score a location
+ */
+export interface GridPointSummary {
+  id: string;
+  latitude: number;
+  longitude: number;
+  nearestCity: string | null;
+  state: string;
+  region: string;
+  distanceMiles?: number; // Great-circle distance from the search center, when one was given
+}
+
 /**
  * Scored location result from weather search
  */
@@ -72,17 +276,77 @@ export interface ScoredLocation {
   scoreBreakdown: ScoreBreakdown;
   dailyScores: DailyScore[];
   dataSource: 'forecast' | 'historical' | 'mixed';
+  longestPassingStreak: number; // Most consecutive days passing every filter
+  passingDayRatio: number; // Share of days passing every filter (0-1)
+  meetsDayRequirements: boolean; // minConsecutivePassingDays / minPassingDayRatio satisfied
+  distanceMiles?: number; // Only present for searches with a center
+  window?: ScoreWindow; // Only present for searches with windowDays
+  freshness?: DataFreshness; // How up to date the scored weather is
 }
 
 /**
- * Score breakdown by filter category
+ * Best contiguous run of days within the searched range
+ */
+export interface ScoreWindow {
+  startDate: string;
+  endDate: string;
+  dailyScores: DailyScore[];
+}
+
+/**
+ * Score breakdown by filter category (null if the category was not filtered)
  */
 export interface ScoreBreakdown {
-  temperature: number; // 0-100
-  humidity: number; // 0-100
-  wind: number; // 0-100
-  precipitation: number; // 0-100
-  aqi: number | null; // 0-100, null if not filtered
+  tempHigh: FilterScore | null;
+  tempLow: FilterScore | null;
+  feelsLike: FilterScore | null; // Also null when no apparent temperature data is available
+  dewPoint: FilterScore | null; // Also null when no dew point data is available
+  coldNightHours: FilterScore | null; // Hourly categories are also null without hourly data
+  windyDaylightHours: FilterScore | null;
+  dryDaytimeHours: FilterScore | null;
+  humidity: FilterScore | null;
+  wind: FilterScore | null;
+  precipitation: FilterScore | null;
+  aqi: FilterScore | null; // Also null when no AQI data is available
+}
+
+/**
+ * A category's score alongside the weather behind it
+ */
+export interface FilterScore {
+  score: number; // 0-100
+  value: number; // Representative value: mean high/low/humidity, or the worst day for the rest
+  unit: string;
+  limit: { min?: number; max?: number }; // The filter bounds the value was scored against
+  violatingDays: number; // Days outside the filter
+  days: number; // Days scored in this category (AQI skips days without data)
+  likelihood?: number; // Chance (0-100) of staying within the filter on days scored from climatology
+  threshold?: { value: number; unit: string }; // Hourly categories: what hours are counted against
+}
+
+/**
+ * Scoring configuration applied to a search, echoed back in searchCriteria.
+ * Only categories with an active filter appear; weights are normalized to sum to 1.
+ */
+export interface AppliedScoring {
+  weights: Partial<Record<ScoringCategory, number>>;
+  curves: Partial<Record<ScoringCategory, PenaltyCurve>>;
+  confidenceWeighting: boolean; // Days count towards category averages in proportion to confidence
+}
+
+/**
+ * A condition that fails a day outright (its category scores 0), on a value
+ * stored as a weather_cache column. Searches use these to rule out grid points
+ * in SQL before scoring.
+ */
+export interface HardFailCondition {
+  field: 'tempHigh' | 'tempLow' | 'humidity' | 'windSpeed' | 'precipChance' | 'aqi';
+  category: ScoringCategory; // Category the day scores 0 in
+  op: '<' | '<=' | '>' | '>=';
+  value: number;
+  // Only days whose precipitation type is in / not in the list fail
+  precipTypeIn?: PrecipitationType[];
+  precipTypeNotIn?: PrecipitationType[];
 }
 
 /**
@@ -92,6 +356,48 @@ export interface DailyScore {
   date: string;
   score: number;
   passesFilters: boolean;
+  source?: DaySource; // source, leadDays and confidence are copied from the scored day
+  leadDays?: number;
+  confidence?: number;
+}
+
+/**
+ * Search coverage statistics returned alongside results
+ */
+export interface WeatherSearchMeta {
+  totalGridPoints: number; // Grid points matching the region/state options
+  prefilteredPoints: number; // Ruled out in SQL by their cached weather, without scoring
+  coarsePoints: number; // Points scored in the coarse pass
+  refinedCells: number; // Coarse cells re-scored at full resolution
+  pointsScored: number; // Total points scored across both passes
+}
+
+/**
+ * Stop candidate along a route, scored for the day the traveller reaches it
+ */
+export interface RouteStopCandidate extends ScoredLocation {
+  routeMile: number; // Distance along the route to the point nearest this stop
+  detourMiles: number; // Distance from the route to the stop
+}
+
+/**
+ * One day's driving along a route, with the best places to stop
+ */
+export interface RouteDaySegment {
+  day: number; // 1-based
+  date: string;
+  startMile: number;
+  endMile: number;
+  stops: RouteStopCandidate[];
+}
+
+/**
+ * Route search coverage statistics
+ */
+export interface RouteSearchMeta {
+  routeMiles: number;
+  corridorPoints: number; // Grid points inside the corridor
+  pointsScored: number; // Points scored (the corridor is thinned when very large)
 }
 
 /**
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { dailyWeather, MOAB_GRID_POINT } from '../__fixtures__/daily-weather.js';
+import { ScoringService } from '../services/scoring.service.js';
+import { routeSearchRequestSchema, weatherSearchRequestSchema } from './weather.js';
+
+const dateRange = { startDate: '2025-03-01', endDate: '2025-03-02' };
+
+describe('legacy temperature filters', () => {
+  it('maps tempMin onto the high and tempMax onto the low', () => {
+    const { filters } = weatherSearchRequestSchema.parse({
+      filters: { tempMin: 60, tempMax: 45, humidityMax: 50 },
+      dateRange,
+    });
+
+    expect(filters).toEqual({ highMin: 60, lowMax: 45, humidityMax: 50 });
+  });
+
+  it('lets the high and low filters win over the legacy ones', () => {
+    const { filters } = routeSearchRequestSchema.parse({
+      route: { encodedPolyline: '_p~iF~ps|U_ulLnnqC' },
+      departureDate: '2025-03-01',
+      filters: { tempMin: 60, highMin: 65, tempMax: 45, lowMax: 40 },
+    });
+
+    expect(filters).toEqual({ highMin: 65, lowMax: 40 });
+  });
+
+  it('scores days the same as the high and low filters they map to', () => {
+    const scoring = new ScoringService();
+    // A cool afternoon and a warm night
+    const daily = [
+      dailyWeather('2025-03-01', { tempHigh: 55, tempLow: 40 }),
+      dailyWeather('2025-03-02', { tempHigh: 70, tempLow: 50 }),
+    ];
+    const score = (filters: Record<string, number>) => {
+      const parsed = weatherSearchRequestSchema.parse({ filters, dateRange }).filters;
+      return scoring.scoreLocation(MOAB_GRID_POINT, daily, parsed, 'forecast');
+    };
+
+    const legacy = score({ tempMin: 60, tempMax: 45 });
+
+    expect(legacy).toEqual(score({ highMin: 60, lowMax: 45 }));
+    expect(legacy.score).toBeLessThan(100);
+  });
+});
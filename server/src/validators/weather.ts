@@ -30,19 +30,125 @@ export const gridRegionSchema = z.enum([
 
 export type GridRegion = z.infer<typeof gridRegionSchema>;
 
-// Weather filters schema
+// Unit system for filters and weather values (imperial: °F, mph, inches; metric: °C, km/h, mm)
+export const unitSystemSchema = z.enum(['imperial', 'metric']);
+
+export type UnitSystem = z.infer<typeof unitSystemSchema>;
+
+// Climatology mode: archive years summarized into percentiles for dates beyond the forecast
+export const climatologyYearsSchema = z.number().int().min(10).max(30);
+
+// Weather filters schema (in the request's unit system)
 export const weatherFiltersSchema = z.object({
+  // Daytime high and overnight low bounds
+  highMin: z.number().min(-50).max(150).optional(),
+  highMax: z.number().min(-50).max(150).optional(),
+  lowMin: z.number().min(-50).max(150).optional(),
+  lowMax: z.number().min(-50).max(150).optional(),
+  // Deprecated - tempMin bounds the high and tempMax the low (see mapLegacyTemperatureFilters)
   tempMin: z.number().min(-50).max(150).optional(),
   tempMax: z.number().min(-50).max(150).optional(),
+  // "Feels like" (apparent) daytime high and daily mean dew point
+  feelsLikeMax: z.number().min(-50).max(150).optional(),
+  dewPointMax: z.number().min(-50).max(100).optional(),
   humidityMax: z.number().min(0).max(100).optional(),
   windSpeedMax: z.number().min(0).max(200).optional(),
   precipChanceMax: z.number().min(0).max(100).optional(),
   precipTypesAllowed: z.array(precipitationTypeSchema).optional(),
   precipTypesExcluded: z.array(precipitationTypeSchema).optional(),
   aqiMax: z.number().min(1).max(500).optional(),
+  // Derived from hourly weather: night hours below 40°F (4.4°C), daylight hours
+  // with wind over 20 mph (32 km/h), and dry hours between 8am and 6pm (of 10)
+  coldNightHoursMax: z.number().int().min(0).max(24).optional(),
+  windyDaylightHoursMax: z.number().int().min(0).max(24).optional(),
+  dryDaytimeHoursMin: z.number().int().min(0).max(10).optional(),
+  // Day-count requirements - locations that miss them are excluded from results
+  minConsecutivePassingDays: z.number().int().min(1).max(90).optional(),
+  minPassingDayRatio: z.number().min(0).max(1).optional(),
 });
 
-export type WeatherFilters = z.infer<typeof weatherFiltersSchema>;
+// Filters after legacy tempMin/tempMax are mapped
+export type WeatherFilters = Omit<z.infer<typeof weatherFiltersSchema>, 'tempMin' | 'tempMax'>;
+
+/**
+ * Map legacy tempMin/tempMax onto the high/low filters they always meant:
+ * tempMin was a minimum daily high, tempMax a maximum overnight low
+ */
+export function mapLegacyTemperatureFilters<T extends { tempMin?: number; tempMax?: number }>(
+  filters: T & WeatherFilters
+): Omit<T, 'tempMin' | 'tempMax'> {
+  const { tempMin, tempMax, ...rest } = filters;
+  return {
+    ...rest,
+    ...(rest.highMin === undefined && tempMin !== undefined && { highMin: tempMin }),
+    ...(rest.lowMax === undefined && tempMax !== undefined && { lowMax: tempMax }),
+  };
+}
+
+// Scoring categories and penalty curves
+export const scoringCategorySchema = z.enum([
+  'tempHigh',
+  'tempLow',
+  'feelsLike',
+  'dewPoint',
+  'humidity',
+  'wind',
+  'precipitation',
+  'aqi',
+  'coldNightHours',
+  'windyDaylightHours',
+  'dryDaytimeHours',
+]);
+
+export type ScoringCategory = z.infer<typeof scoringCategorySchema>;
+
+export const penaltyCurveSchema = z.enum(['linear', 'sigmoid', 'cutoff']);
+
+export type PenaltyCurve = z.infer<typeof penaltyCurveSchema>;
+
+// Optional caller-supplied scoring configuration
+// Weights are relative (normalized over the active categories), curves default to linear.
+// The deprecated temperature key applies to both tempHigh and tempLow.
+export const scoringOptionsSchema = z.object({
+  weights: z
+    .object({
+      tempHigh: z.number().min(0).max(100),
+      tempLow: z.number().min(0).max(100),
+      temperature: z.number().min(0).max(100),
+      feelsLike: z.number().min(0).max(100),
+      dewPoint: z.number().min(0).max(100),
+      humidity: z.number().min(0).max(100),
+      wind: z.number().min(0).max(100),
+      precipitation: z.number().min(0).max(100),
+      aqi: z.number().min(0).max(100),
+      coldNightHours: z.number().min(0).max(100),
+      windyDaylightHours: z.number().min(0).max(100),
+      dryDaytimeHours: z.number().min(0).max(100),
+    })
+    .partial()
+    .optional(),
+  curves: z
+    .object({
+      tempHigh: penaltyCurveSchema,
+      tempLow: penaltyCurveSchema,
+      temperature: penaltyCurveSchema,
+      feelsLike: penaltyCurveSchema,
+      dewPoint: penaltyCurveSchema,
+      humidity: penaltyCurveSchema,
+      wind: penaltyCurveSchema,
+      precipitation: penaltyCurveSchema,
+      aqi: penaltyCurveSchema,
+      coldNightHours: penaltyCurveSchema,
+      windyDaylightHours: penaltyCurveSchema,
+      dryDaytimeHours: penaltyCurveSchema,
+    })
+    .partial()
+    .optional(),
+  // Count each day towards the category averages in proportion to its confidence
+  confidenceWeighting: z.boolean().optional(),
+});
+
+export type ScoringOptions = z.infer<typeof scoringOptionsSchema>;
 
 // Date range for weather search
 export const weatherDateRangeSchema = z
@@ -74,9 +180,22 @@ export const weatherDateRangeSchema = z
     }
   );
 
+// Coordinate schema (continental US, matching the grid bounds)
+export const coordinateSchema = z.object({
+  lat: z.number().min(24.0).max(50.0),
+  lon: z.number().min(-125.0).max(-66.0),
+});
+
+export type Coordinate = z.infer<typeof coordinateSchema>;
+
+// Search result ordering
+export const searchSortSchema = z.enum(['score', 'distance']);
+
+export type SearchSort = z.infer<typeof searchSortSchema>;
+
 // Weather search request schema
 export const weatherSearchRequestSchema = z.object({
-  filters: weatherFiltersSchema,
+  filters: weatherFiltersSchema.transform(filters => mapLegacyTemperatureFilters(filters)),
   dateRange: weatherDateRangeSchema,
   options: z
     .object({
@@ -84,12 +203,67 @@ export const weatherSearchRequestSchema = z.object({
       minScore: z.number().int().min(0).max(100).default(0).optional(),
       region: gridRegionSchema.optional(),
       states: z.array(z.string().length(2)).optional(),
+      center: coordinateSchema.optional(),
+      radiusMiles: z.number().positive().max(3000).optional(),
+      sortBy: searchSortSchema.default('score').optional(),
+      windowDays: z.number().int().min(1).max(90).optional(),
+      units: unitSystemSchema.default('imperial').optional(),
+      climatologyYears: climatologyYearsSchema.optional(),
+    })
+    .refine(options => options.radiusMiles === undefined || options.center !== undefined, {
+      message: 'radiusMiles requires a center',
+      path: ['radiusMiles'],
+    })
+    .refine(options => options.sortBy !== 'distance' || options.center !== undefined, {
+      message: 'Sorting by distance requires a center',
+      path: ['sortBy'],
     })
     .optional(),
+  scoring: scoringOptionsSchema.optional(),
 });
 
 export type WeatherSearchRequest = z.infer<typeof weatherSearchRequestSchema>;
 
+// Route geometry: a GeoJSON LineString ([lon, lat] pairs) or an encoded polyline
+export const geoJsonLineStringSchema = z.object({
+  type: z.literal('LineString'),
+  coordinates: z
+    .array(z.tuple([z.number().min(-180).max(180), z.number().min(-90).max(90)]))
+    .min(2, 'A route needs at least two coordinates'),
+});
+
+export const encodedPolylineSchema = z.object({
+  encodedPolyline: z.string().min(1),
+  precision: z.union([z.literal(5), z.literal(6)]).default(5),
+});
+
+export const routeGeometrySchema = z.union([geoJsonLineStringSchema, encodedPolylineSchema]);
+
+export type RouteGeometry = z.infer<typeof routeGeometrySchema>;
+
+// Route corridor search request schema
+export const routeSearchRequestSchema = z.object({
+  route: routeGeometrySchema,
+  corridorMiles: z.number().positive().max(100).default(25),
+  departureDate: z.string().date(),
+  dailyMiles: z.number().min(50).max(1000).default(300),
+  // Each stop is scored for a single day, so day-count requirements don't apply
+  filters: weatherFiltersSchema
+    .omit({ minConsecutivePassingDays: true, minPassingDayRatio: true })
+    .transform(filters => mapLegacyTemperatureFilters(filters)),
+  options: z
+    .object({
+      stopsPerDay: z.number().int().min(1).max(20).default(5).optional(),
+      minScore: z.number().int().min(0).max(100).default(0).optional(),
+      units: unitSystemSchema.default('imperial').optional(),
+      climatologyYears: climatologyYearsSchema.optional(),
+    })
+    .optional(),
+  scoring: scoringOptionsSchema.optional(),
+});
+
+export type RouteSearchRequest = z.infer<typeof routeSearchRequestSchema>;
+
 // Grid points query params schema
 export const gridPointsQuerySchema = z.object({
   region: gridRegionSchema.optional(),
@@ -107,12 +281,47 @@ export const gridPointsQuerySchema = z.object({
     .optional(),
 });
 
-// Grid point weather query params schema
-export const gridPointWeatherQuerySchema = z.object({
-  startDate: z.string().date(),
-  endDate: z.string().date(),
+// Grid point weather query params schema (same limits as search date ranges)
+export const gridPointWeatherQuerySchema = weatherDateRangeSchema.and(
+  z.object({
+    units: unitSystemSchema.default('imperial'),
+    climatologyYears: z.coerce.number().pipe(climatologyYearsSchema).optional(),
+  })
+);
+
+// Forecast accuracy query params schema; days limits stats to recently verified dates
+export const forecastAccuracyQuerySchema = z.object({
+  region: gridRegionSchema.optional(),
+  provider: z.string().min(1).max(50).optional(),
+  days: z.coerce.number().int().min(1).max(365).optional(),
 });
 
+export type ForecastAccuracyQuery = z.infer<typeof forecastAccuracyQuerySchema>;
+
+// Admin weather cache invalidation: rows matching every given scope are deleted
+export const weatherCacheInvalidationSchema = z
+  .object({
+    gridPointId: z.string().uuid('Invalid UUID format').optional(),
+    region: gridRegionSchema.optional(),
+    startDate: z.string().date().optional(),
+    endDate: z.string().date().optional(),
+    dataType: z.enum(['forecast', 'historical']).optional(),
+  })
+  .refine(
+    data =>
+      data.gridPointId !== undefined ||
+      data.region !== undefined ||
+      data.startDate !== undefined ||
+      data.endDate !== undefined,
+    { message: 'Specify a grid point, region or date range to invalidate' }
+  )
+  .refine(data => !data.startDate || !data.endDate || data.endDate >= data.startDate, {
+    message: 'End date must be on or after start date',
+    path: ['endDate'],
+  });
+
+export type WeatherCacheInvalidation = z.infer<typeof weatherCacheInvalidationSchema>;
+
 // Nearest grid point query params schema
 export const nearestGridPointQuerySchema = z.object({
   lat: z.coerce.number().min(24.0).max(50.0),